@@ -7,11 +7,25 @@ dotenvConfig();
 // Get proxy settings
 const proxySettings = settingsLoader.getSettings();
 
+/**
+ * Read a command line option given as "--name value" or "--name=value"
+ */
+function getArgument(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) return args[i + 1];
+    if (args[i].startsWith(`--${name}=`)) return args[i].slice(name.length + 3);
+  }
+  return undefined;
+}
+
 export const config = {
   port: parseInt(process.env.PORT || "3001", 10),
   corsOrigins: (process.env.CORS_ORIGINS || "http://localhost:3002").split(","),
   logLevel: process.env.LOG_LEVEL || "info",
   environment: process.env.NODE_ENV || "development",
+  // Packet dump to replay instead of running the relay
+  replayFile: getArgument("replay") || proxySettings.advanced.replayFile,
   proxySettings,
   settingsLoader
 };
\ No newline at end of file
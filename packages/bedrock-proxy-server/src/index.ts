@@ -1,22 +1,21 @@
 import { Server } from "socket.io";
 import { PacketDumpReader } from "./utils/packet-dump-reader.ts";
 import { PacketSimulator } from "./services/packet-simulator.js";
+import { PacketCapture } from "./services/packet-capture.js";
+import { RelaySession, type SessionEmitter } from "./services/relay-session.js";
 import type {
   MinimapToProxyEvents,
   ProxyToMinimapEvents,
   SocketData,
-  PlayerPosition,
   ChunkData,
+  ChunkResponse,
   InvalidateChunksData,
   ChunkCoordinate,
-  BedrockClient
+  ReplayStatus
 } from "@minecraft-bedrock-minimap/shared";
-import { chunkCoordsToKey, getAffectedChunks, type ChunkRequest } from "@minecraft-bedrock-minimap/shared";
+import { chunkCoordsToKey, getChunkEncoding } from "@minecraft-bedrock-minimap/shared";
 import { config } from "./config.js";
-import { ChunkService } from "./services/chunk-service.js";
-import { WorldHandler } from "./world/WorldHandler.ts";
-import EventEmitter from "events";
-import { BedrockWorld } from "./world/BedrockWorld.ts";
+import { RegionStorageProvider } from "./world/RegionStorageProvider.ts";
 import { Relay } from "bedrock-protocol";
 import { createLogger } from "./utils/logger.js";
 import { SettingsLoader } from "./settings-loader.js";
@@ -32,9 +31,9 @@ const io = new Server<MinimapToProxyEvents, ProxyToMinimapEvents, {}, SocketData
   }
 });
 
-// Initialize relay only if enabled
+// Initialize relay only if enabled and not replaying a dump
 let relay: any = null;
-if (config.settingsLoader.isRelayEnabled()) {
+if (!config.replayFile && config.settingsLoader.isRelayEnabled()) {
   relay = new Relay(config.settingsLoader.getRelayConfig() as any);
 }
 
@@ -45,29 +44,107 @@ const connectedClients = new Map<string, SocketData>();
 // Track socket cleanup functions
 const socketCleanup = new Map<string, () => void>();
 
-// Packet simulator instance will be initialized after server setup
-let packetSimulator: PacketSimulator;
-
-// Initialize ChunkService
-const world = new BedrockWorld(null, null);
-const worldHandler = new WorldHandler(
-  new EventEmitter() as BedrockClient,
-  world,
-  config.proxySettings.minecraft.version,
-  async (chunkX: number, chunkZ: number) => {
-    try {
-      const chunkResponses = await chunkService.processChunkRequests([{ chunkX, chunkZ }]);
-      io.emit("chunk-data", chunkResponses);
-    }
-    catch (error) {
-      console.error(`❌ Error getting column ${chunkX},${chunkZ}:`, error);
-    }
+// Packet simulator, only created in replay mode
+let packetSimulator: PacketSimulator | null = null;
+
+// Active relay sessions by id, each minimap server follows one of them
+const sessions = new Map<string, RelaySession>();
+let sessionCounter = 0;
+
+// Largest number of chunks answered per request-chunks event
+const MAX_REQUESTED_CHUNKS = 1024;
+
+/**
+ * Create the packet capture from the current settings, null when capture is disabled or replaying.
+ * Every relay session records to its own dumps/ file.
+ */
+function createPacketCapture(): PacketCapture | null {
+  const { advanced, minecraft } = config.proxySettings;
+  if (!advanced.enablePacketCapture || config.replayFile) return null;
+
+  return new PacketCapture({
+    version: minecraft.version,
+    folder: "dumps",
+    maxFileSizeMb: advanced.captureMaxFileSizeMb,
+    maxMinutes: advanced.captureMaxMinutes,
+    packetFilter: advanced.capturePacketFilter
+  });
+}
+
+/**
+ * Create the region storage from the current settings, null when chunk caching is disabled or replaying.
+ * Replays never touch the saved world.
+ */
+function createStorageProvider(): RegionStorageProvider | null {
+  const { advanced, minecraft, performance } = config.proxySettings;
+  if (!performance.enableChunkCaching || config.replayFile) return null;
+
+  const provider = new RegionStorageProvider(advanced.profilesFolder, minecraft.serverHost, minecraft.serverPort, minecraft.version);
+  console.log(`💾 Saving explored chunks to ${provider.getFolder()}`);
+  return provider;
+}
+
+// Persist explored chunks to disk, shared by all sessions
+let storageProvider = createStorageProvider();
+
+// Socket.io room of the minimap servers following a session
+function sessionRoom(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+// Room of the subscribers of a session that negotiated binary chunks, they are in the session room as well
+function binarySessionRoom(sessionId: string): string {
+  return `${sessionRoom(sessionId)}:binary`;
+}
+
+/**
+ * Send chunk responses to the subscribers of a session in the encoding each of them negotiated
+ */
+function emitSessionChunks(session: RelaySession, chunks: ChunkResponse[]) {
+  const binaryRoom = binarySessionRoom(session.id);
+  io.to(sessionRoom(session.id)).except(binaryRoom).emit("chunk-data", chunks);
+  if (io.sockets.adapter.rooms.get(binaryRoom)?.size) {
+    session.toBinaryChunkResponses(chunks)
+      .then(binaryChunks => io.to(binaryRoom).emit("chunk-data-binary", binaryChunks))
+      .catch(error => console.error(`❌ Failed to encode binary chunks:`, error));
   }
-);
-const chunkService = new ChunkService(config.proxySettings.minecraft.version, world);
+}
+
+/**
+ * Start tracking a new relay (or replay) session
+ */
+function createSession(id: string): RelaySession {
+  const session = new RelaySession(id, {
+    version: config.proxySettings.minecraft.version,
+    storageProvider,
+    worldSaveInterval: config.proxySettings.performance.worldSaveInterval,
+    emit: (event, ...args) => {
+      if (event === "chunk-data") {
+        emitSessionChunks(session, args[0] as ChunkResponse[]);
+        return;
+      }
+      io.to(sessionRoom(id)).emit(event, ...args);
+    }
+  });
+  sessions.set(id, session);
+  console.log(`🎮 Session ${id} started`);
+  emitSessions();
+  return session;
+}
 
-// Simulated player data for testing
-let playerPosition: PlayerPosition = { x: 0, y: 64, z: 0, pitch: 0, yaw: 0 };
+/**
+ * Stop a session when its player disconnects
+ */
+async function closeSession(session: RelaySession) {
+  if (!sessions.delete(session.id)) return;
+  console.log(`👋 Session ${session.getLabel()} ended`);
+  emitSessions();
+  await session.cleanup();
+}
+
+function emitSessions() {
+  io.emit("sessions-update", Array.from(sessions.values(), session => session.getInfo()));
+}
 
 console.log(`🚀 Bedrock Proxy Server starting on port ${config.port}`);
 console.log(`📡 Accepting connections from: ${config.corsOrigins.join(", ")}`);
@@ -81,9 +158,23 @@ io.on("connection", (socket) => {
   // Store client data
   const clientData: SocketData = {
     clientId: socket.id,
-    connectionTime: new Date()
+    connectionTime: new Date(),
+    chunkEncoding: getChunkEncoding(socket.handshake.auth)
   };
   connectedClients.set(socket.id, clientData);
+  console.log(`📦 Client ${socket.id} uses ${clientData.chunkEncoding} chunks`);
+
+  // Snapshot emitter that sends chunk-data in this client's chunk encoding
+  const emitToSocket: SessionEmitter = (event, ...args) => {
+    if (event === "chunk-data" && clientData.chunkEncoding === "binary") {
+      const session = clientData.sessionId ? sessions.get(clientData.sessionId) : undefined;
+      session?.toBinaryChunkResponses(args[0] as ChunkResponse[])
+        .then(binaryChunks => socket.emit("chunk-data-binary", binaryChunks))
+        .catch(error => console.error(`❌ Failed to encode binary chunks:`, error));
+      return;
+    }
+    socket.emit(event, ...args);
+  };
 
   // Define cleanup function for this socket
   const cleanup = () => {
@@ -99,16 +190,68 @@ io.on("connection", (socket) => {
     playerId: `player_${socket.id.substring(0, 8)}`
   });
 
-  // Handle subscription to player updates
-  socket.on("subscribe", (playerId) => {
-    console.log(`📊 Client ${socket.id} subscribed to player ${playerId}`);
-    clientData.playerId = playerId;
-    socket.emit("player-position", playerPosition);
+  socket.emit("sessions-update", Array.from(sessions.values(), session => session.getInfo()));
+
+  // Handle subscription to a session's stream, a minimap server follows one session at a time
+  socket.on("subscribe", (sessionId) => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      console.warn(`⚠️  Client ${socket.id} subscribed to unknown session ${sessionId}`);
+      return;
+    }
+
+    console.log(`📊 Client ${socket.id} subscribed to session ${session.getLabel()}`);
+    if (clientData.sessionId) {
+      socket.leave(sessionRoom(clientData.sessionId));
+      socket.leave(binarySessionRoom(clientData.sessionId));
+    }
+    clientData.sessionId = sessionId;
+    socket.join(sessionRoom(sessionId));
+    if (clientData.chunkEncoding === "binary") {
+      socket.join(binarySessionRoom(sessionId));
+    }
+    session.sendSnapshot(emitToSocket);
+    if (packetSimulator) {
+      socket.emit("replay-status", packetSimulator.getStatus());
+    }
+  });
+
+  // Handle replay controls
+  socket.on("replay-control", (command) => {
+    if (!packetSimulator) return;
+
+    switch (command.action) {
+      case "play":
+        packetSimulator.play();
+        break;
+      case "pause":
+        packetSimulator.pause();
+        break;
+      case "seek":
+        packetSimulator.seek(command.positionMs);
+        break;
+      case "speed":
+        packetSimulator.setSpeed(command.speed);
+        break;
+    }
+  });
+
+  // Handle requests for chunks the minimap server has not cached, from the followed session's world
+  socket.on("request-chunks", (chunks) => {
+    const session = clientData.sessionId ? sessions.get(clientData.sessionId) : undefined;
+    if (!session) return;
+
+    session.sendRequestedChunks(chunks.slice(0, MAX_REQUESTED_CHUNKS), (found) => emitToSocket("chunk-data", found));
   });
 
   // Handle unsubscribe
-  socket.on("unsubscribe", (playerId) => {
-    console.log(`🚫 Client ${socket.id} unsubscribed from player ${playerId}`);
+  socket.on("unsubscribe", (sessionId) => {
+    console.log(`🚫 Client ${socket.id} unsubscribed from session ${sessionId}`);
+    socket.leave(sessionRoom(sessionId));
+    socket.leave(binarySessionRoom(sessionId));
+    if (clientData.sessionId === sessionId) {
+      clientData.sessionId = undefined;
+    }
   });
 
 
@@ -164,12 +307,33 @@ function updateRuntimeSettings(newSettingsLoader: any) {
     logger.info(`Debug logging ${newSettings.advanced.enableDebugLogging ? 'enabled' : 'disabled'}`);
   }
   
-  // Update performance settings
+  // Update performance settings, the sessions' worlds save to the new storage from now on
   if (newSettings.performance.enableChunkCaching !== currentSettings.performance.enableChunkCaching) {
     config.proxySettings.performance.enableChunkCaching = newSettings.performance.enableChunkCaching;
+    storageProvider = createStorageProvider();
+    for (const session of sessions.values()) {
+      session.setStorageProvider(storageProvider)
+        .catch(error => logger.error(`Failed to switch the chunk storage of session ${session.id}:`, error));
+    }
     logger.info(`Chunk caching ${newSettings.performance.enableChunkCaching ? 'enabled' : 'disabled'}`);
   }
   
+  // Update packet capture, the current dump is closed and a new one starts with the next packet
+  if (newSettings.advanced.enablePacketCapture !== currentSettings.advanced.enablePacketCapture ||
+      newSettings.advanced.captureMaxFileSizeMb !== currentSettings.advanced.captureMaxFileSizeMb ||
+      newSettings.advanced.captureMaxMinutes !== currentSettings.advanced.captureMaxMinutes ||
+      newSettings.advanced.capturePacketFilter !== currentSettings.advanced.capturePacketFilter) {
+    config.proxySettings.advanced.enablePacketCapture = newSettings.advanced.enablePacketCapture;
+    config.proxySettings.advanced.captureMaxFileSizeMb = newSettings.advanced.captureMaxFileSizeMb;
+    config.proxySettings.advanced.captureMaxMinutes = newSettings.advanced.captureMaxMinutes;
+    config.proxySettings.advanced.capturePacketFilter = newSettings.advanced.capturePacketFilter;
+    for (const session of sessions.values()) {
+      session.packetCapture?.close();
+      session.packetCapture = createPacketCapture();
+    }
+    logger.info(`Packet capture ${newSettings.advanced.enablePacketCapture ? 'enabled' : 'disabled'}`);
+  }
+
   // Note: Some settings like ports, relay enable/disable, and server hosts require full restart
   // Log if such settings have changed
   if (newSettings.relay.enabled !== currentSettings.relay.enabled ||
@@ -185,10 +349,10 @@ async function shutdown() {
   console.log("\n🛑 Shutting down Bedrock Proxy Server...");
 
   // Stop packet simulator
-  // if (packetSimulator?.isRunning()) {
-  //   console.log("🛑 Stopping packet simulator...");
-  //   packetSimulator.stop();
-  // }
+  if (packetSimulator?.isRunning()) {
+    console.log("🛑 Stopping packet simulator...");
+    packetSimulator.stop();
+  }
 
   if(relay) {
     console.log("🛑 Closing relay connection...");
@@ -199,17 +363,10 @@ async function shutdown() {
   console.log(`🧹 Cleaning up ${socketCleanup.size} socket connections...`);
   socketCleanup.forEach(cleanup => cleanup());
 
-  // Cleanup world resources
-  if (worldHandler) {
-    console.log("🌍 Cleaning up world handler...");
-    worldHandler.cleanup();
-  }
-
-  // Cleanup world
-  if (world) {
-    console.log("🗺️ Cleaning up world data...");
-    await world.cleanup();
-  }
+  // Cleanup sessions, this saves their worlds and closes their packet dumps
+  console.log(`🗺️ Cleaning up ${sessions.size} sessions...`);
+  await Promise.all(Array.from(sessions.values(), session => session.cleanup()));
+  sessions.clear();
 
   // Close Socket.io server
   await new Promise<void>((resolve) => {
@@ -224,172 +381,55 @@ async function shutdown() {
 
 console.log(`✅ Bedrock Proxy Server listening on port ${config.port}`);
 
-// // Create packet simulator
-// packetSimulator = new PacketSimulator();
-
-// // Handle packet events
-// packetSimulator.on('packet', async (packet) => {
-//   if (packet.type === 'C') {
-//     switch (packet.data.data.name) {
-//       case "join":
-//         worldHandler.handle_join_packet();
-//         break;
-//       case "start_game":
-//         worldHandler.registry.handleStartGame({ ...packet.data.data.params, itemstates: [] });
-//         break;
-//       case "client_cache_miss_response":
-//         worldHandler.on_client_cache_miss_response(packet.data.data.params);
-//         break;
-//       case "level_chunk":
-//         await worldHandler.on_level_chunk(packet.data.data.params);
-//         break;
-//       case "subchunk":
-//         await worldHandler.on_subchunk(packet.data.data.params);
-
-//         const entries = packet.data.data.params.entries;
-//         const origin = packet.data.data.params.origin;
-//         const chunkRequestsMap = new Map<string, ChunkRequest>();
-
-//         for (const entry of entries) {
-//           const chunkX = origin.x + entry.dx;
-//           const chunkZ = origin.z + entry.dz;
-//           const key = `${chunkX},${chunkZ}`;
-//           if (!chunkRequestsMap.has(key)) {
-//             chunkRequestsMap.set(key, { chunkX, chunkZ });
-//           }
-//         }
-
-//         const chunkResponses = await chunkService.processChunkRequests(Array.from(chunkRequestsMap.values()));
-//         io.emit("chunk-data", chunkResponses);
-
-//         break;
-//       case "update_block":
-//         worldHandler.on_update_block(packet.data.data.params, async () => {
-//           const { x, y, z } = packet.data.data.params.position;
-//           const affectedChunks = getAffectedChunks(x, z);
-
-//           const chunkRequestsMap = new Map<string, ChunkRequest>();
-//           for (const entry of affectedChunks) {
-//             const chunkX = entry.x;
-//             const chunkZ = entry.z;
-//             const key = `${chunkX},${chunkZ}`;
-//             if (!chunkRequestsMap.has(key)) {
-//               chunkRequestsMap.set(key, { chunkX, chunkZ });
-//             }
-//           }
-
-//           const chunkResponses = await chunkService.processChunkRequests(Array.from(chunkRequestsMap.values()));
-//           io.emit("chunk-data", chunkResponses);
-//         });
-//         break;
-//     }
-//   } else if (packet.type === 'S' && packet.data.data.name === "player_auth_input") {
-//     playerPosition = {
-//       x: packet.data.data.params.position.x,
-//       y: packet.data.data.params.position.y,
-//       z: packet.data.data.params.position.z,
-//       pitch: packet.data.data.params.pitch,
-//       yaw: packet.data.data.params.yaw,
-//     };
-
-//     io.emit("player-position", playerPosition);
-//   }
-
-
-
-// });
-
-// // Handle simulation complete
-// packetSimulator.on('complete', () => {
-//   console.log("🎬 Packet simulation complete");
-// });
-
-// // Start the simulation
-// packetSimulator.start('dumps/1.21.93-1752173152902.bin').catch(error => {
-//   console.error("❌ Failed to start packet simulation:", error);
-//   shutdown();
-// });
-
-
-
-
-
-if (relay) {
-  relay.on('connect', (player: any) => {
-  player.on('clientbound', async (_: any, des: any) => {
-    switch (des.data.name) {
-      case "join":
-        worldHandler.handle_join_packet();
-        break;
-      case "start_game":
-        worldHandler.registry.handleStartGame({ ...des.data.params, itemstates: [] });
-        break;
-      case "client_cache_miss_response":
-        worldHandler.on_client_cache_miss_response(des.data.params);
-        break;
-      case "level_chunk":
-        await worldHandler.on_level_chunk(des.data.params);
-        break;
-      case "subchunk":
-        await worldHandler.on_subchunk(des.data.params);
+if (config.replayFile) {
+  // Offline replay: feed a packet dump through the same handlers instead of running the relay
+  packetSimulator = new PacketSimulator();
+  const replaySession = createSession("replay");
 
-        const entries = des.data.params.entries;
-        const origin = des.data.params.origin;
-        const chunkRequestsMap = new Map<string, ChunkRequest>();
+  // The simulator waits for the returned promises, so packets are handled in order while fast-forwarding
+  packetSimulator.on('packet', (packet) => {
+    return replaySession.dispatch(packet.type === 'C' ? "clientbound" : "serverbound", packet.data);
+  });
 
-        for (const entry of entries) {
-          const chunkX = origin.x + entry.dx;
-          const chunkZ = origin.z + entry.dz;
-          const key = `${chunkX},${chunkZ}`;
-          if (!chunkRequestsMap.has(key)) {
-            chunkRequestsMap.set(key, { chunkX, chunkZ });
-          }
-        }
+  // Seeking backwards replays the dump from the start, the state built from it is dropped first
+  packetSimulator.on('reset', () => replaySession.reset());
 
-        const chunkResponses = await chunkService.processChunkRequests(Array.from(chunkRequestsMap.values()));
-        io.emit("chunk-data", chunkResponses);
+  packetSimulator.on('status', (status: ReplayStatus) => {
+    io.emit("replay-status", status);
+  });
 
-        break;
-      case "update_block":
-        worldHandler.on_update_block(des.data.params, async () => {
-          const { x, y, z } = des.data.params.position;
-          const affectedChunks = getAffectedChunks(x, z);
-
-          const chunkRequestsMap = new Map<string, ChunkRequest>();
-          for (const entry of affectedChunks) {
-            const chunkX = entry.x;
-            const chunkZ = entry.z;
-            const key = `${chunkX},${chunkZ}`;
-            if (!chunkRequestsMap.has(key)) {
-              chunkRequestsMap.set(key, { chunkX, chunkZ });
-            }
-          }
-
-          const chunkResponses = await chunkService.processChunkRequests(Array.from(chunkRequestsMap.values()));
-          io.emit("chunk-data", chunkResponses);
-        });
-        break;
-    }
+  packetSimulator.on('complete', () => {
+    console.log("🎬 Replay complete");
   });
 
-  (player as any).on('serverbound', (_:any, des: any) => {
-    if (des.data.name === "player_auth_input") {
-      playerPosition = {
-        x: des.data.params.position.x,
-        y: des.data.params.position.y,
-        z: des.data.params.position.z,
-        pitch: des.data.params.pitch,
-        yaw: des.data.params.yaw,
-      };
-
-      io.emit("player-position", playerPosition);
-    }
+  packetSimulator.start(config.replayFile, config.proxySettings.minecraft.version).catch(error => {
+    console.error("❌ Failed to start replay:", error);
+    shutdown();
+  });
+} else if (relay) {
+  relay.on('connect', (player: any) => {
+    const session = createSession(`session_${++sessionCounter}`);
+    session.packetCapture = createPacketCapture();
+
+    player.on('login', () => {
+      session.playerName = player.profile?.name ?? null;
+      console.log(`👤 ${session.getLabel()} logged in`);
+      emitSessions();
+    });
+    player.on('close', () => {
+      closeSession(session);
+    });
 
-  })
+    player.on('clientbound', (_: any, des: any) => {
+      session.dispatch("clientbound", des);
+    });
+    (player as any).on('serverbound', (_: any, des: any) => {
+      session.dispatch("serverbound", des);
+    });
   });
 
   relay.listen();
   console.log(`✅ Relay listening on ${config.proxySettings.relay.host}:${config.proxySettings.relay.port}`);
 } else {
   console.log("⚠️  Relay is disabled in settings");
-}
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+import type { BlockChange, ChunkBlockChanges } from "@minecraft-bedrock-minimap/shared";
+import { dimensionChunkKey } from "@minecraft-bedrock-minimap/shared";
+
+/**
+ * Collects block changes and sends them once per delay window grouped by chunk column,
+ * so a burst of updates (explosions, /fill) leads to one message instead of one per block.
+ * A block changed several times within the window is only sent with its latest state.
+ */
+export class BlockChangeQueue {
+  private pending = new Map<string, { chunk: ChunkBlockChanges; blocks: Map<string, BlockChange> }>();
+  private timer: NodeJS.Timeout | null = null;
+  private delayMs: number;
+  private onFlush: (changes: ChunkBlockChanges[]) => void;
+
+  constructor(delayMs: number, onFlush: (changes: ChunkBlockChanges[]) => void) {
+    this.delayMs = delayMs;
+    this.onFlush = onFlush;
+  }
+
+  /**
+   * Queue block changes
+   */
+  add(blocks: BlockChange[], dimension: number) {
+    for (const block of blocks) {
+      const chunkX = Math.floor(block.x / 16);
+      const chunkZ = Math.floor(block.z / 16);
+      const key = dimensionChunkKey(dimension, chunkX, chunkZ);
+
+      let entry = this.pending.get(key);
+      if (!entry) {
+        entry = { chunk: { chunkX, chunkZ, dimension, blocks: [] }, blocks: new Map() };
+        this.pending.set(key, entry);
+      }
+      entry.blocks.set(`${block.x},${block.y},${block.z},${block.layer}`, block);
+    }
+
+    if (!this.timer && this.pending.size > 0) {
+      this.timer = setTimeout(() => this.flush(), this.delayMs);
+    }
+  }
+
+  /**
+   * Send all queued changes now
+   */
+  flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending.size === 0) return;
+
+    const changes = Array.from(this.pending.values(), ({ chunk, blocks }) => ({
+      ...chunk,
+      blocks: Array.from(blocks.values())
+    }));
+    this.pending.clear();
+
+    try {
+      this.onFlush(changes);
+    } catch (error) {
+      console.error(`❌ Error sending block changes of ${changes.length} chunks:`, error);
+    }
+  }
+
+  /**
+   * Drop queued changes and stop the timer
+   */
+  clear() {
+    this.pending.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
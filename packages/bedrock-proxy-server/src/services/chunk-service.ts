@@ -16,14 +16,16 @@ export class ChunkService {
     this.world = world ?? new BedrockWorld(null);
   }
 
-  async processChunkRequest(chunkX: number, chunkZ: number): Promise<ChunkResponse> {
+  async processChunkRequest(chunkX: number, chunkZ: number, dimension: number = this.world.dimension): Promise<ChunkResponse> {
     try {
-      let chunk = await this.world.getColumn(chunkX, chunkZ);
+      // Stored columns are read without loading them into the world
+      const chunk = await this.world.readColumn(chunkX, chunkZ, dimension);
 
       if (!chunk) {
         return {
           chunkX,
           chunkZ,
+          dimension,
           data: null,
           success: false,
           error: `Chunk not found at coordinates (${chunkX}, ${chunkZ})`
@@ -34,6 +36,7 @@ export class ChunkService {
       const response: ChunkResponse = {
         chunkX,
         chunkZ,
+        dimension,
         data: chunk.toJson(),
         success: true
       };
@@ -43,6 +46,7 @@ export class ChunkService {
       return {
         chunkX,
         chunkZ,
+        dimension,
         data: null,
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error processing chunk request'
@@ -50,11 +54,20 @@ export class ChunkService {
     }
   }
 
+  /**
+   * Column a chunk response was made from, decoded from its JSON when the world does not have it
+   * loaded, as for stored columns or ones dropped since
+   */
+  getResponseColumn(chunk: ChunkResponse & { data: string }): BedrockChunk {
+    return this.world.getLoadedColumn(chunk.chunkX, chunk.chunkZ, chunk.dimension)
+      ?? this.ChunkColumn.fromJson(chunk.data) as unknown as BedrockChunk;
+  }
+
   // Process multiple chunk requests
   async processChunkRequests(chunks: ChunkRequest[]): Promise<ChunkResponse[]> {
     // Process requests in parallel for performance
-    const chunkPromises = chunks.map(({ chunkX, chunkZ }) =>
-      this.processChunkRequest(chunkX, chunkZ)
+    const chunkPromises = chunks.map(({ chunkX, chunkZ, dimension }) =>
+      this.processChunkRequest(chunkX, chunkZ, dimension)
     );
 
     return Promise.all(chunkPromises);
@@ -0,0 +1,36 @@
+import { deflateSync } from "zlib";
+import type { BedrockChunk } from "prismarine-chunk";
+import { encodeColumnPayload, type BinaryChunkResponse, type ChunkResponse } from "@minecraft-bedrock-minimap/shared";
+
+/**
+ * Encode a column in the network encoding of prismarine-chunk, framed with encodeColumnPayload and deflated
+ */
+export async function encodeColumn(column: BedrockChunk): Promise<Buffer> {
+  const chunk = column as any;
+  const sections: Array<{ y: number; data: Uint8Array }> = [];
+
+  for (let y = chunk.minCY; y < chunk.maxCY; y++) {
+    const section = chunk.getSectionAtIndex(y);
+    if (!section) continue;
+    // The section index is written as an unsigned byte, sections decoded from the network already hold it
+    // that way but the ones created by block updates below Y 0 hold it signed
+    section.y = y & 0xff;
+    sections.push({ y, data: await chunk.networkEncodeSubChunkNoCache(y) });
+  }
+
+  return deflateSync(encodeColumnPayload({ sections, biomes: await chunk.networkEncodeNoCache() }));
+}
+
+/**
+ * Encode chunk responses for binary subscribers from the loaded columns they were made from,
+ * a column dropped from the world since is decoded from the response JSON
+ */
+export function toBinaryChunkResponses(
+  chunks: ChunkResponse[],
+  getColumn: (chunk: ChunkResponse & { data: string }) => BedrockChunk
+): Promise<BinaryChunkResponse[]> {
+  return Promise.all(chunks.map(async ({ data, ...chunk }) => ({
+    ...chunk,
+    data: data !== null ? await encodeColumn(getColumn({ ...chunk, data })) : null
+  })));
+}
@@ -0,0 +1,99 @@
+import type { PacketRouter } from "./packet-router.js";
+import type { EntityTracker } from "./entity-tracker.js";
+import type { PlayerListTracker } from "./player-list-tracker.js";
+import type { SpecialPointTracker } from "./special-point-tracker.js";
+
+/**
+ * Register the packets that keep the entity table up to date
+ */
+export function registerEntityPacketHandlers(router: PacketRouter, entityTracker: EntityTracker) {
+  router.onClientbound("start_game", (params) => {
+    entityTracker.on_start_game(params);
+  });
+
+  router.onClientbound("item_registry", (params) => {
+    entityTracker.on_item_registry(params);
+  });
+
+  router.onClientbound("add_entity", (params) => {
+    entityTracker.on_add_entity(params);
+  });
+
+  router.onClientbound("add_player", (params) => {
+    entityTracker.on_add_player(params);
+  });
+
+  router.onClientbound("add_item_entity", (params) => {
+    entityTracker.on_add_item_entity(params);
+  });
+
+  router.onClientbound("move_entity", (params) => {
+    entityTracker.on_move_entity(params);
+  });
+
+  router.onClientbound("move_entity_delta", (params) => {
+    entityTracker.on_move_entity_delta(params);
+  });
+
+  router.onClientbound("move_player", (params) => {
+    entityTracker.on_move_player(params);
+  });
+
+  router.onClientbound("remove_entity", (params) => {
+    entityTracker.on_remove_entity(params);
+  });
+}
+
+/**
+ * Register the packets that keep the list of other players up to date
+ */
+export function registerPlayerListPacketHandlers(router: PacketRouter, playerListTracker: PlayerListTracker) {
+  router.onClientbound("start_game", (params) => {
+    playerListTracker.on_start_game(params);
+  });
+
+  router.onClientbound("player_list", (params) => {
+    playerListTracker.on_player_list(params);
+  });
+
+  router.onClientbound("add_player", (params) => {
+    playerListTracker.on_add_player(params);
+  });
+
+  router.onClientbound("move_player", (params) => {
+    playerListTracker.on_move_player(params);
+  });
+
+  router.onClientbound("move_entity", (params) => {
+    playerListTracker.on_move_entity(params);
+  });
+
+  router.onClientbound("move_entity_delta", (params) => {
+    playerListTracker.on_move_entity_delta(params);
+  });
+
+  router.onClientbound("remove_entity", (params) => {
+    playerListTracker.on_remove_entity(params);
+  });
+}
+
+/**
+ * Register the packets that move the player's death and spawn points
+ */
+export function registerSpecialPointPacketHandlers(router: PacketRouter, specialPointTracker: SpecialPointTracker) {
+  router.onClientbound("start_game", (params) => {
+    specialPointTracker.on_start_game(params);
+  });
+
+  router.onClientbound("set_spawn_position", (params) => {
+    specialPointTracker.on_set_spawn_position(params);
+  });
+
+  router.onClientbound("set_health", (params) => {
+    specialPointTracker.on_set_health(params);
+  });
+
+  router.onClientbound("respawn", (params) => {
+    specialPointTracker.on_respawn(params);
+  });
+}
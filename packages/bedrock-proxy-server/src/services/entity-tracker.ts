@@ -0,0 +1,184 @@
+import type { EntitiesUpdate, EntityCategory, TrackedEntity } from "@minecraft-bedrock-minimap/shared";
+import { getMobCategory } from "@minecraft-bedrock-minimap/shared";
+
+// Entity changes are collected and sent at most this often
+const ENTITY_UPDATE_INTERVAL_MS = 200;
+
+/**
+ * Keeps a table of the entities around the player (mobs, other players and dropped items)
+ * and reports changes in batches through onUpdate.
+ */
+export class EntityTracker {
+  private entities = new Map<string, TrackedEntity>();
+  // remove_entity only carries the unique id, everything else uses the runtime id
+  private runtimeIds = new Map<string, string>();
+  private itemNames = new Map<number, string>();
+  private localRuntimeId: string | null = null;
+  private changed = new Set<string>();
+  private removed = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private dimension = 0;
+
+  onUpdate?: (update: EntitiesUpdate) => void;
+
+  on_start_game(packet: any) {
+    this.localRuntimeId = String(packet.runtime_entity_id);
+    this.addItemStates(packet.itemstates);
+    this.reset();
+  }
+
+  on_item_registry(packet: any) {
+    this.addItemStates(packet.itemstates);
+  }
+
+  on_add_entity(packet: any) {
+    const category = getMobCategory(packet.entity_type);
+    if (!category) return;
+
+    this.add(packet.unique_id, packet.runtime_id, category, packet.entity_type, packet.position, packet.yaw);
+  }
+
+  on_add_player(packet: any) {
+    this.add(packet.unique_id, packet.runtime_id, 'player', 'minecraft:player', packet.position, packet.yaw, packet.username);
+  }
+
+  on_add_item_entity(packet: any) {
+    const itemName = this.itemNames.get(packet.item?.network_id) ?? 'minecraft:item';
+    this.add(packet.entity_id_self, packet.runtime_entity_id, 'item', itemName, packet.position, 0);
+  }
+
+  on_move_entity(packet: any) {
+    this.move(String(packet.runtime_entity_id), packet.position, packet.rotation?.yaw);
+  }
+
+  on_move_entity_delta(packet: any) {
+    const id = String(packet.runtime_entity_id);
+    const entity = this.entities.get(id);
+    if (!entity) return;
+
+    this.move(id, {
+      x: packet.x ?? entity.x,
+      y: packet.y ?? entity.y,
+      z: packet.z ?? entity.z,
+    // Rotation is sent as a raw byte here
+    }, packet.rot_y !== undefined ? packet.rot_y * 360 / 256 : undefined);
+  }
+
+  on_move_player(packet: any) {
+    const id = String(packet.runtime_id);
+    if (id === this.localRuntimeId) return;
+    this.move(id, packet.position, packet.yaw);
+  }
+
+  on_remove_entity(packet: any) {
+    const uniqueId = String(packet.entity_id_self);
+    const id = this.runtimeIds.get(uniqueId);
+    this.runtimeIds.delete(uniqueId);
+    if (!id || !this.entities.delete(id)) return;
+
+    this.changed.delete(id);
+    this.removed.add(id);
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Entities are per dimension, the server sends the new ones after the switch
+   */
+  setDimension(dimension: number) {
+    if (dimension === this.dimension) return;
+    this.dimension = dimension;
+    this.reset();
+  }
+
+  /**
+   * The whole entity table, for newly connected minimap servers
+   */
+  getSnapshot(): EntitiesUpdate {
+    return { full: true, entities: Array.from(this.entities.values()), removed: [] };
+  }
+
+  /**
+   * Forget all entities and send an empty table
+   */
+  reset() {
+    this.entities.clear();
+    this.runtimeIds.clear();
+    this.changed.clear();
+    this.removed.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.onUpdate?.(this.getSnapshot());
+  }
+
+  cleanup() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.entities.clear();
+    this.runtimeIds.clear();
+    this.onUpdate = undefined;
+  }
+
+  private add(uniqueId: unknown, runtimeId: unknown, category: EntityCategory, type: string, position: any, yaw: number, name?: string) {
+    const id = String(runtimeId);
+    if (id === this.localRuntimeId || !position) return;
+
+    this.runtimeIds.set(String(uniqueId), id);
+    this.entities.set(id, {
+      id,
+      type,
+      category,
+      name,
+      x: position.x,
+      y: position.y,
+      z: position.z,
+      yaw: yaw ?? 0,
+      dimension: this.dimension
+    });
+    this.removed.delete(id);
+    this.changed.add(id);
+    this.scheduleUpdate();
+  }
+
+  private move(id: string, position: any, yaw?: number) {
+    const entity = this.entities.get(id);
+    if (!entity || !position) return;
+
+    entity.x = position.x;
+    entity.y = position.y;
+    entity.z = position.z;
+    if (yaw !== undefined) {
+      entity.yaw = yaw;
+    }
+    this.changed.add(id);
+    this.scheduleUpdate();
+  }
+
+  private addItemStates(itemstates: Array<{ name: string; runtime_id: number }> | undefined) {
+    for (const state of itemstates ?? []) {
+      this.itemNames.set(state.runtime_id, state.name);
+    }
+  }
+
+  private scheduleUpdate() {
+    if (this.timer) return;
+    this.timer = setTimeout(() => this.flush(), ENTITY_UPDATE_INTERVAL_MS);
+  }
+
+  private flush() {
+    this.timer = null;
+    if (this.changed.size === 0 && this.removed.size === 0) return;
+
+    const update: EntitiesUpdate = {
+      full: false,
+      entities: Array.from(this.changed, id => this.entities.get(id)!).filter(Boolean),
+      removed: Array.from(this.removed)
+    };
+    this.changed.clear();
+    this.removed.clear();
+    this.onUpdate?.(update);
+  }
+}
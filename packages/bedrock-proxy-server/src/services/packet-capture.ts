@@ -0,0 +1,106 @@
+import { PackentDumpWriter } from "../utils/packet-dump-writter.js";
+
+// Packets written at the start of every dump so rotated files can be replayed on their own
+const SESSION_PACKETS = ["start_game", "item_registry"];
+
+export interface PacketCaptureOptions {
+  version: string;
+  folder: string;
+  maxFileSizeMb: number;
+  // 0 disables time based rotation
+  maxMinutes: number;
+  // Comma separated packet names to keep, empty keeps every packet
+  packetFilter: string;
+}
+
+/**
+ * Records relay traffic to dump files that PacketDumpReader and the replay mode can read.
+ * A new dump is started when the current one reaches the size or time limit.
+ */
+export class PacketCapture {
+  private options: PacketCaptureOptions;
+  private writer: PackentDumpWriter | null = null;
+  private packetNames: Set<string> | null;
+  private packetCount = 0;
+  private sessionPackets = new Map<string, Buffer>();
+
+  constructor(options: PacketCaptureOptions) {
+    this.options = options;
+    const names = options.packetFilter.split(",").map(name => name.trim()).filter(Boolean);
+    this.packetNames = names.length > 0 ? new Set(names) : null;
+  }
+
+  /**
+   * Record a packet going from the server to the client
+   */
+  captureClientbound(name: string, buffer: Buffer | undefined) {
+    if (!buffer) return;
+    const isSessionPacket = SESSION_PACKETS.includes(name);
+    if (!isSessionPacket && !this.shouldCapture(name)) return;
+
+    this.write("C", buffer);
+    if (isSessionPacket) {
+      this.sessionPackets.set(name, buffer);
+    }
+  }
+
+  /**
+   * Record a packet going from the client to the server
+   */
+  captureServerbound(name: string, buffer: Buffer | undefined) {
+    if (!buffer || !this.shouldCapture(name)) return;
+    this.write("S", buffer);
+  }
+
+  /**
+   * Close the current dump, the next packet starts a new one
+   */
+  close() {
+    if (!this.writer) return;
+
+    this.writer.close();
+    console.log(`📼 Closed packet dump ${this.writer.getFilename()} (${this.packetCount} packets)`);
+    this.writer = null;
+    this.packetCount = 0;
+  }
+
+  private write(type: "S" | "C", buffer: Buffer) {
+    try {
+      const writer = this.getWriter();
+      if (type === "C") {
+        writer.writeClientbound(buffer);
+      } else {
+        writer.writeServerbound(buffer);
+      }
+      this.packetCount++;
+    } catch (error) {
+      console.error("❌ Failed to write packet dump:", error);
+    }
+  }
+
+  private shouldCapture(name: string): boolean {
+    return this.packetNames === null || this.packetNames.has(name);
+  }
+
+  private getWriter(): PackentDumpWriter {
+    if (this.writer && this.needsRotation(this.writer)) {
+      this.close();
+    }
+
+    if (!this.writer) {
+      this.writer = new PackentDumpWriter(this.options.version, this.options.folder);
+      console.log(`📼 Capturing packets to ${this.writer.getFilename()}`);
+      for (const buffer of this.sessionPackets.values()) {
+        this.writer.writeClientbound(buffer);
+        this.packetCount++;
+      }
+    }
+    return this.writer;
+  }
+
+  private needsRotation(writer: PackentDumpWriter): boolean {
+    if (writer.getSize() >= this.options.maxFileSizeMb * 1024 * 1024) return true;
+    if (this.options.maxMinutes > 0 && writer.getElapsed() >= BigInt(this.options.maxMinutes) * 60_000_000_000n) return true;
+    return false;
+  }
+}
@@ -0,0 +1,99 @@
+export type PacketDirection = "clientbound" | "serverbound";
+
+export type PacketHandler = (params: any) => void | Promise<void>;
+
+/**
+ * Decoded packet as produced by the bedrock-protocol deserializer
+ */
+export interface RoutedPacket {
+  data: {
+    name: string;
+    params: any;
+  };
+  // Raw packet bytes, only set for packets from the relay
+  fullBuffer?: Buffer;
+}
+
+/**
+ * Dispatches decoded packets to handlers registered by packet name.
+ * Packet sources (relay, replay simulator, ...) feed packets in, features register handlers.
+ */
+export class PacketRouter {
+  private handlers: Record<PacketDirection, Map<string, PacketHandler[]>> = {
+    clientbound: new Map(),
+    serverbound: new Map()
+  };
+
+  /**
+   * Register a handler for a packet name
+   * @returns Function that removes the handler again
+   */
+  on(direction: PacketDirection, name: string, handler: PacketHandler): () => void {
+    const handlers = this.handlers[direction].get(name) ?? [];
+    handlers.push(handler);
+    this.handlers[direction].set(name, handlers);
+    return () => this.off(direction, name, handler);
+  }
+
+  /**
+   * Register a handler for a packet sent by the server
+   */
+  onClientbound(name: string, handler: PacketHandler): () => void {
+    return this.on("clientbound", name, handler);
+  }
+
+  /**
+   * Register a handler for a packet sent by the client
+   */
+  onServerbound(name: string, handler: PacketHandler): () => void {
+    return this.on("serverbound", name, handler);
+  }
+
+  /**
+   * Remove a previously registered handler
+   */
+  off(direction: PacketDirection, name: string, handler: PacketHandler) {
+    const handlers = this.handlers[direction].get(name);
+    if (!handlers) return;
+
+    const remaining = handlers.filter(h => h !== handler);
+    if (remaining.length > 0) {
+      this.handlers[direction].set(name, remaining);
+    } else {
+      this.handlers[direction].delete(name);
+    }
+  }
+
+  /**
+   * Check if any handler is registered for a packet name
+   */
+  has(direction: PacketDirection, name: string): boolean {
+    return this.handlers[direction].has(name);
+  }
+
+  /**
+   * Run the handlers registered for a packet in registration order.
+   * A failing handler is logged and does not stop the others.
+   */
+  async dispatch(direction: PacketDirection, packet: RoutedPacket): Promise<void> {
+    const { name, params } = packet.data;
+    const handlers = this.handlers[direction].get(name);
+    if (!handlers) return;
+
+    for (const handler of handlers) {
+      try {
+        await handler(params);
+      } catch (error) {
+        console.error(`❌ Error handling ${direction} ${name} packet:`, error);
+      }
+    }
+  }
+
+  /**
+   * Remove all handlers
+   */
+  clear() {
+    this.handlers.clientbound.clear();
+    this.handlers.serverbound.clear();
+  }
+}
@@ -1,5 +1,6 @@
 import { PacketDumpReader } from "../utils/packet-dump-reader.js";
 import EventEmitter from "events";
+import type { ReplayStatus } from "@minecraft-bedrock-minimap/shared";
 
 export interface PacketData {
   time: bigint;
@@ -8,10 +9,31 @@ export interface PacketData {
   data: any;
 }
 
+// Packets replayed between yields to the event loop while fast-forwarding a seek
+const SEEK_BATCH_SIZE = 100;
+
+// Longest single wait, so pause, seek and speed changes apply promptly during gaps in the dump
+const MAX_WAIT_MS = 100;
+
 export class PacketSimulator extends EventEmitter {
   private reader: PacketDumpReader | null = null;
+  private dumpFile = "";
   private running = false;
-  private startTime: bigint | undefined;
+  private paused = false;
+  private speed = 1;
+  private duration: bigint | null = null;
+
+  // Dump time of the last emitted packet (ns)
+  private position = 0n;
+  // Wall clock and dump time the playback clock was last anchored at (ns)
+  private anchorClock = 0n;
+  private anchorPosition = 0n;
+
+  // Pending seek: packets before this dump time are replayed without delay
+  private seekTarget: bigint | null = null;
+  private restartRequested = false;
+  // The whole dump was replayed, playback holds at the end until it is rewound
+  private ended = false;
 
   constructor() {
     super();
@@ -20,8 +42,9 @@ export class PacketSimulator extends EventEmitter {
   /**
    * Start simulating packets from a dump file
    * @param dumpFile Path to the packet dump file
+   * @param expectedVersion Protocol version the proxy is configured for, a mismatch is only warned about
    */
-  async start(dumpFile: string) {
+  async start(dumpFile: string, expectedVersion?: string) {
     await this.sleep(1000n);
     if (this.running) {
       console.warn("⚠️ Packet simulator is already running");
@@ -29,12 +52,19 @@ export class PacketSimulator extends EventEmitter {
     }
 
     try {
+      this.dumpFile = dumpFile;
+      this.duration = PacketDumpReader.getDuration(dumpFile);
       this.reader = new PacketDumpReader(dumpFile);
       this.running = true;
-      this.startTime = undefined;
+      this.position = 0n;
+      this.anchor(0n);
+
+      console.log(`📦 Starting packet simulation from: ${dumpFile} (version ${this.reader.version})`);
+      if (expectedVersion && expectedVersion !== this.reader.version) {
+        console.warn(`⚠️ Dump was recorded with version ${this.reader.version} but the proxy is configured for ${expectedVersion}`);
+      }
+      this.emitStatus();
 
-      console.log(`📦 Starting packet simulation from: ${dumpFile}`);
-      
       await this.simulatePackets();
     } catch (error) {
       console.error("❌ Error starting packet simulator:", error);
@@ -48,45 +78,210 @@ export class PacketSimulator extends EventEmitter {
    */
   stop() {
     this.running = false;
-    
+
     if (this.reader) {
       this.reader.close();
       this.reader = null;
       console.log("📦 Packet simulator stopped");
     }
+    this.emitStatus();
+  }
+
+  /**
+   * Resume playback after a pause
+   */
+  play() {
+    if (!this.paused) return;
+    this.paused = false;
+    // Playing a finished replay starts it over
+    if (this.ended) {
+      this.restartRequested = true;
+    }
+    this.anchor(this.position);
+    this.emitStatus();
+  }
+
+  /**
+   * Pause playback, packets are held until play() is called
+   */
+  pause() {
+    if (this.paused) return;
+    this.paused = true;
+    this.emitStatus();
+  }
+
+  /**
+   * Jump to a position in the dump. Seeking backwards restarts the dump and
+   * fast-forwards to the target so the world state is rebuilt in order.
+   * @param positionMs Target position in milliseconds from the start of the dump
+   */
+  seek(positionMs: number) {
+    const target = BigInt(Math.max(0, Math.floor(positionMs))) * 1000000n;
+    // Nothing is left to replay past the end
+    if (this.ended && target >= this.position) return;
+    if (target < this.position) {
+      this.restartRequested = true;
+    }
+    this.seekTarget = target;
+    console.log(`⏩ Seeking replay to ${(positionMs / 1000).toFixed(1)}s`);
+  }
+
+  /**
+   * Set the playback speed multiplier
+   * @param speed Multiplier, 1 is real time
+   */
+  setSpeed(speed: number) {
+    if (!Number.isFinite(speed) || speed <= 0) return;
+    this.anchor(this.position);
+    this.speed = speed;
+    this.emitStatus();
+  }
+
+  /**
+   * Current playback state
+   */
+  getStatus(): ReplayStatus {
+    return {
+      active: this.running,
+      playing: this.running && !this.paused,
+      file: this.dumpFile,
+      positionMs: Number(this.position / 1000000n),
+      durationMs: this.duration === null ? null : Number(this.duration / 1000000n),
+      speed: this.speed
+    };
   }
 
   /**
    * Main packet simulation loop
    */
   private async simulatePackets() {
-    if (!this.reader) return;
-
     let packet: PacketData | null;
-    
-    while (this.running && (packet = this.reader.read())) {
-      const now = process.hrtime.bigint();
-      
-      if (this.startTime === undefined) {
-        // Initialize start time on the first read
-        this.startTime = now - packet.time;
+    let skipped = 0;
+
+    while (this.running) {
+      if (this.restartRequested) {
+        await this.restart();
       }
-      
-      // Calculate timing difference for realistic playback
-      const timeDiff = (packet.time + this.startTime) - now;
-      
-      if (timeDiff > 0) {
-        await this.sleep(timeDiff / 1000000n);
+
+      packet = this.reader?.read() ?? null;
+      if (!packet) {
+        await this.waitAtEnd();
+        continue;
+      }
+
+      this.finishSeek(packet.time);
+
+      if (this.seekTarget !== null) {
+        // Fast-forwarding, let socket traffic and timers run now and then
+        if (++skipped % SEEK_BATCH_SIZE === 0) {
+          await this.sleep(0n);
+        }
+      } else {
+        await this.waitForPacketTime(packet.time);
+        if (!this.running) break;
+        // A backwards seek came in while waiting, the dump is read again from the start
+        if (this.restartRequested) continue;
+        // A forward seek came in while waiting
+        this.finishSeek(packet.time);
+      }
+
+      this.position = packet.time;
+
+      // Handlers finish each packet before the next one, fast-forwarding included
+      await this.emitAndWait('packet', packet);
+    }
+  }
+
+  /**
+   * Hold at the end of the dump until a backwards seek or play rewinds it.
+   * The reader is closed meanwhile, restart() opens the dump again
+   */
+  private async waitAtEnd() {
+    if (!this.ended) {
+      console.log("✅ Packet simulation complete");
+      this.ended = true;
+      this.seekTarget = null;
+      this.paused = true;
+      this.reader?.close();
+      this.reader = null;
+      this.emitStatus();
+      this.emit('complete');
+    }
+
+    while (this.running && !this.restartRequested) {
+      await this.sleep(BigInt(MAX_WAIT_MS));
+    }
+  }
+
+  /**
+   * Wait until the playback clock reaches the packet's dump time,
+   * honouring pause, speed changes and seeks while waiting
+   */
+  private async waitForPacketTime(packetTime: bigint) {
+    while (this.running && !this.restartRequested && this.seekTarget === null) {
+      if (this.paused) {
+        await this.sleep(BigInt(MAX_WAIT_MS));
+        continue;
       }
-      
-      // Emit packet event for processing
-      this.emit('packet', packet);
+
+      const elapsed = Number(process.hrtime.bigint() - this.anchorClock) * this.speed;
+      const remainingMs = Number(packetTime - this.anchorPosition - BigInt(Math.floor(elapsed))) / 1000000 / this.speed;
+      if (remainingMs <= 0) return;
+
+      await this.sleep(BigInt(Math.ceil(Math.min(remainingMs, MAX_WAIT_MS))));
+    }
+  }
+
+  /**
+   * Clear a pending seek once its target is reached and continue in real time from there
+   */
+  private finishSeek(packetTime: bigint) {
+    if (this.seekTarget === null || packetTime < this.seekTarget) return;
+    this.seekTarget = null;
+    this.position = packetTime;
+    this.anchor(packetTime);
+    this.emitStatus();
+  }
+
+  /**
+   * Reopen the dump from the beginning, once the 'reset' handlers dropped the state built so far
+   */
+  private async restart() {
+    this.restartRequested = false;
+    this.ended = false;
+    this.reader?.close();
+    this.reader = new PacketDumpReader(this.dumpFile);
+    this.position = 0n;
+    this.anchor(0n);
+
+    console.log("⏪ Replaying dump from the start");
+    await this.emitAndWait('reset');
+    // Time spent resetting does not count as playback
+    this.anchor(0n);
+    this.emitStatus();
+  }
+
+  /**
+   * Restart the playback clock at the given dump time
+   */
+  private anchor(position: bigint) {
+    this.anchorClock = process.hrtime.bigint();
+    this.anchorPosition = position;
+  }
+
+  private emitStatus() {
+    this.emit('status', this.getStatus());
+  }
+
+  /**
+   * Call the listeners of an event and wait for the promises they return
+   */
+  private async emitAndWait(event: 'packet' | 'reset', ...args: unknown[]) {
+    try {
+      await Promise.all(this.listeners(event).map(listener => listener(...args)));
+    } catch (error) {
+      console.error(`❌ Error in replay ${event} handler:`, error);
     }
-    
-    // Simulation complete
-    console.log("✅ Packet simulation complete");
-    this.stop();
-    this.emit('complete');
   }
 
   /**
@@ -102,4 +297,4 @@ export class PacketSimulator extends EventEmitter {
   isRunning(): boolean {
     return this.running;
   }
-}
\ No newline at end of file
+}
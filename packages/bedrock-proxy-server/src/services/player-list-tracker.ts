@@ -0,0 +1,165 @@
+import type { PlayerInfo } from "@minecraft-bedrock-minimap/shared";
+
+// The player list is sent at most this often, positions of far away players do not need to be live
+const PLAYER_UPDATE_INTERVAL_MS = 1000;
+
+/**
+ * Keeps the list of other players in the session with their last known positions.
+ * Names come from player_list, positions from the movement packets while a player is in render distance.
+ */
+export class PlayerListTracker {
+  private players = new Map<string, PlayerInfo>();
+  // Movement packets use runtime ids, player_list and remove_entity use unique ids
+  private uuidByRuntimeId = new Map<string, string>();
+  private uuidByUniqueId = new Map<string, string>();
+  private localUniqueId: string | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private dimension = 0;
+
+  onUpdate?: (players: PlayerInfo[]) => void;
+
+  on_start_game(packet: any) {
+    this.localUniqueId = String(packet.entity_id);
+    this.players.clear();
+    this.uuidByRuntimeId.clear();
+    this.uuidByUniqueId.clear();
+    this.scheduleUpdate();
+  }
+
+  on_player_list(packet: any) {
+    const { type, records } = packet.records;
+    for (const record of records) {
+      if (type === 'add') {
+        const uniqueId = String(record.entity_unique_id);
+        if (uniqueId === this.localUniqueId) continue;
+
+        this.uuidByUniqueId.set(uniqueId, record.uuid);
+        const player = this.players.get(record.uuid);
+        if (player) {
+          player.name = record.username;
+        } else {
+          this.players.set(record.uuid, { uuid: record.uuid, name: record.username, position: null, inRange: false, lastSeen: null });
+        }
+      } else if (type === 'remove') {
+        this.players.delete(record.uuid);
+      }
+    }
+    this.scheduleUpdate();
+  }
+
+  on_add_player(packet: any) {
+    const uniqueId = String(packet.unique_id);
+    if (uniqueId === this.localUniqueId) return;
+
+    this.uuidByRuntimeId.set(String(packet.runtime_id), packet.uuid);
+    this.uuidByUniqueId.set(uniqueId, packet.uuid);
+
+    // add_player can arrive before the player list entry
+    let player = this.players.get(packet.uuid);
+    if (!player) {
+      player = { uuid: packet.uuid, name: packet.username, position: null, inRange: false, lastSeen: null };
+      this.players.set(packet.uuid, player);
+    }
+    player.inRange = true;
+    this.setPosition(player, packet.position);
+  }
+
+  on_move_player(packet: any) {
+    this.move(packet.runtime_id, packet.position);
+  }
+
+  on_move_entity(packet: any) {
+    this.move(packet.runtime_entity_id, packet.position);
+  }
+
+  on_move_entity_delta(packet: any) {
+    const player = this.getByRuntimeId(packet.runtime_entity_id);
+    if (!player?.position) return;
+
+    this.setPosition(player, {
+      x: packet.x ?? player.position.x,
+      y: packet.y ?? player.position.y,
+      z: packet.z ?? player.position.z
+    });
+  }
+
+  /**
+   * A player left render distance, keep the last known position
+   */
+  on_remove_entity(packet: any) {
+    const uuid = this.uuidByUniqueId.get(String(packet.entity_id_self));
+    const player = uuid ? this.players.get(uuid) : undefined;
+    if (!player || !player.inRange) return;
+
+    player.inRange = false;
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Players in range are sent again by the server after a dimension change
+   */
+  setDimension(dimension: number) {
+    if (dimension === this.dimension) return;
+    this.dimension = dimension;
+
+    for (const player of this.players.values()) {
+      player.inRange = false;
+    }
+    this.uuidByRuntimeId.clear();
+    this.scheduleUpdate();
+  }
+
+  getPlayers(): PlayerInfo[] {
+    return Array.from(this.players.values());
+  }
+
+  /**
+   * Forget all players and send an empty list
+   */
+  reset() {
+    this.localUniqueId = null;
+    this.players.clear();
+    this.uuidByRuntimeId.clear();
+    this.uuidByUniqueId.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.onUpdate?.(this.getPlayers());
+  }
+
+  cleanup() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.players.clear();
+    this.onUpdate = undefined;
+  }
+
+  private getByRuntimeId(runtimeId: unknown): PlayerInfo | undefined {
+    const uuid = this.uuidByRuntimeId.get(String(runtimeId));
+    return uuid ? this.players.get(uuid) : undefined;
+  }
+
+  private move(runtimeId: unknown, position: any) {
+    const player = this.getByRuntimeId(runtimeId);
+    if (!player || !position) return;
+    this.setPosition(player, position);
+  }
+
+  private setPosition(player: PlayerInfo, position: any) {
+    if (!position) return;
+    player.position = { x: position.x, y: position.y, z: position.z, dimension: this.dimension };
+    player.lastSeen = Date.now();
+    this.scheduleUpdate();
+  }
+
+  private scheduleUpdate() {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.onUpdate?.(this.getPlayers());
+    }, PLAYER_UPDATE_INTERVAL_MS);
+  }
+}
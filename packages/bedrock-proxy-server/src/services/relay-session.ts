@@ -0,0 +1,215 @@
+import EventEmitter from "events";
+import type {
+  BedrockClient,
+  BinaryChunkResponse,
+  ChunkCoordinate,
+  ChunkResponse,
+  PlayerPosition,
+  ProxyToMinimapEvents,
+  SessionInfo
+} from "@minecraft-bedrock-minimap/shared";
+import { BedrockWorld } from "../world/BedrockWorld.ts";
+import { WorldHandler } from "../world/WorldHandler.ts";
+import type { RegionStorageProvider } from "../world/RegionStorageProvider.ts";
+import { ChunkService } from "./chunk-service.js";
+import { toBinaryChunkResponses } from "./chunk-transport.js";
+import { PacketRouter, type PacketDirection, type RoutedPacket } from "./packet-router.js";
+import type { PacketCapture } from "./packet-capture.js";
+import { registerWorldPacketHandlers } from "./world-packet-handlers.js";
+import type { BlockChangeQueue } from "./block-change-queue.js";
+import { EntityTracker } from "./entity-tracker.js";
+import { PlayerListTracker } from "./player-list-tracker.js";
+import { SpecialPointTracker } from "./special-point-tracker.js";
+import {
+  registerEntityPacketHandlers,
+  registerPlayerListPacketHandlers,
+  registerSpecialPointPacketHandlers
+} from "./entity-packet-handlers.js";
+
+// Number of requested chunks sent per chunk-data event
+const REQUESTED_CHUNK_BATCH_SIZE = 64;
+
+const INITIAL_POSITION: PlayerPosition = { x: 0, y: 64, z: 0, pitch: 0, yaw: 0, dimension: 0 };
+
+/**
+ * Sends a proxy event to the minimap servers following a session
+ */
+export type SessionEmitter = <E extends keyof ProxyToMinimapEvents>(
+  event: E,
+  ...args: Parameters<ProxyToMinimapEvents[E]>
+) => void;
+
+export interface RelaySessionOptions {
+  version: string;
+  // Shared by all sessions, they play on the same server
+  storageProvider: RegionStorageProvider | null;
+  worldSaveInterval: number;
+  emit: SessionEmitter;
+}
+
+/**
+ * State of one player connected through the relay (or of the replayed dump):
+ * its own world, world handler, position, entities, player list and death/spawn points.
+ */
+export class RelaySession {
+  readonly id: string;
+  readonly connectedAt = Date.now();
+  readonly version: string;
+  playerName: string | null = null;
+  packetCapture: PacketCapture | null = null;
+  playerPosition: PlayerPosition = { ...INITIAL_POSITION };
+
+  private world: BedrockWorld;
+  private worldHandler: WorldHandler;
+  private chunkService: ChunkService;
+  private blockChangeQueue: BlockChangeQueue;
+  private packetRouter = new PacketRouter();
+  private entityTracker = new EntityTracker();
+  private playerListTracker = new PlayerListTracker();
+  private specialPointTracker = new SpecialPointTracker(() => this.playerPosition);
+  private emit: SessionEmitter;
+
+  constructor(id: string, options: RelaySessionOptions) {
+    this.id = id;
+    this.version = options.version;
+    this.emit = options.emit;
+
+    this.world = new BedrockWorld(null, options.storageProvider, options.worldSaveInterval);
+    this.chunkService = new ChunkService(options.version, this.world);
+    this.worldHandler = new WorldHandler(
+      new EventEmitter() as BedrockClient,
+      this.world,
+      options.version,
+      async (chunkX: number, chunkZ: number, dimension: number) => {
+        try {
+          const chunkResponses = await this.chunkService.processChunkRequests([{ chunkX, chunkZ, dimension }]);
+          this.emit("chunk-data", chunkResponses);
+        }
+        catch (error) {
+          console.error(`❌ Error getting column ${chunkX},${chunkZ}:`, error);
+        }
+      }
+    );
+
+    this.blockChangeQueue = registerWorldPacketHandlers(this.packetRouter, {
+      worldHandler: this.worldHandler,
+      chunkService: this.chunkService,
+      emitChunks: (chunks) => this.emit("chunk-data", chunks),
+      emitBlockChanges: (changes) => this.emit("block-changes", changes),
+      onPlayerMove: (position) => {
+        this.playerPosition = position;
+        this.emit("player-position", position);
+      }
+    });
+
+    this.entityTracker.onUpdate = (update) => this.emit("entities-update", update);
+    registerEntityPacketHandlers(this.packetRouter, this.entityTracker);
+
+    this.playerListTracker.onUpdate = (players) => this.emit("players-update", players);
+    registerPlayerListPacketHandlers(this.packetRouter, this.playerListTracker);
+
+    this.specialPointTracker.onUpdate = (points) => this.emit("special-points", points);
+    registerSpecialPointPacketHandlers(this.packetRouter, this.specialPointTracker);
+
+    // Let minimap servers switch dimension right away instead of waiting for the next movement packet
+    this.worldHandler.onDimensionChange = (dimension: number) => {
+      console.log(`🌀 ${this.getLabel()} changed dimension to ${dimension}`);
+      this.playerPosition = { ...this.playerPosition, dimension };
+      this.emit("player-position", this.playerPosition);
+      this.entityTracker.setDimension(dimension);
+      this.playerListTracker.setDimension(dimension);
+    };
+  }
+
+  /**
+   * Feed a decoded relay or replay packet to this session's handlers
+   */
+  dispatch(direction: PacketDirection, packet: RoutedPacket): Promise<void> {
+    if (direction === "clientbound") {
+      this.packetCapture?.captureClientbound(packet.data.name, packet.fullBuffer);
+    } else {
+      this.packetCapture?.captureServerbound(packet.data.name, packet.fullBuffer);
+    }
+    return this.packetRouter.dispatch(direction, packet);
+  }
+
+  /**
+   * Send the current state to a minimap server that just subscribed
+   */
+  sendSnapshot(emit: SessionEmitter) {
+    emit("player-position", this.playerPosition);
+    emit("entities-update", this.entityTracker.getSnapshot());
+    emit("players-update", this.playerListTracker.getPlayers());
+    emit("special-points", this.specialPointTracker.getPoints());
+  }
+
+  /**
+   * Drop the world, position, entities, players and points built so far and tell the
+   * minimap servers to clear theirs, for a replay that is read again from the start
+   */
+  async reset() {
+    await this.world.clear();
+    this.playerPosition = { ...INITIAL_POSITION };
+    this.emit("world-reset");
+    this.emit("player-position", this.playerPosition);
+    this.entityTracker.reset();
+    this.playerListTracker.reset();
+    this.specialPointTracker.reset();
+  }
+
+  getInfo(): SessionInfo {
+    return { id: this.id, playerName: this.playerName, connectedAt: this.connectedAt, version: this.version };
+  }
+
+  getLabel(): string {
+    return this.playerName ? `${this.playerName} (${this.id})` : this.id;
+  }
+
+  /**
+   * Send the requested chunks this session has loaded or saved on disk, so the map explored in
+   * previous sessions shows up where minimap servers look before the server sends those chunks again.
+   * Chunks that were never explored are answered with unsuccessful responses, so they can be asked for again
+   */
+  async sendRequestedChunks(chunks: ChunkCoordinate[], emit: (chunks: ChunkResponse[]) => void) {
+    try {
+      for (let i = 0; i < chunks.length; i += REQUESTED_CHUNK_BATCH_SIZE) {
+        const requests = chunks
+          .slice(i, i + REQUESTED_CHUNK_BATCH_SIZE)
+          .map(({ x, z, dimension }) => ({ chunkX: x, chunkZ: z, dimension: dimension ?? this.worldHandler.dimension }));
+        emit(await this.chunkService.processChunkRequests(requests));
+      }
+    } catch (error) {
+      console.error(`❌ Error sending requested chunks:`, error);
+    }
+  }
+
+  /**
+   * Encode chunk responses of this session for minimap servers that negotiated binary chunks
+   */
+  toBinaryChunkResponses(chunks: ChunkResponse[]): Promise<BinaryChunkResponse[]> {
+    return toBinaryChunkResponses(chunks, chunk => this.chunkService.getResponseColumn(chunk));
+  }
+
+  /**
+   * Save the session's world to another storage, null stops saving it
+   */
+  setStorageProvider(storageProvider: RegionStorageProvider | null): Promise<void> {
+    return this.world.setStorageProvider(storageProvider);
+  }
+
+  /**
+   * Stop handling packets and save the session's world
+   */
+  async cleanup() {
+    this.packetRouter.clear();
+    // Changes queued before the disconnect are not sent for a session that is gone
+    this.blockChangeQueue.clear();
+    this.packetCapture?.close();
+    this.packetCapture = null;
+    this.entityTracker.cleanup();
+    this.playerListTracker.cleanup();
+    this.specialPointTracker.cleanup();
+    this.worldHandler.cleanup();
+    await this.world.cleanup();
+  }
+}
@@ -0,0 +1,91 @@
+import type { PlayerPosition, SpecialPoint, SpecialPoints } from "@minecraft-bedrock-minimap/shared";
+
+// respawn packet states
+const RESPAWN_STATE_SERVER_READY = 1;
+
+/**
+ * Records where the session's player last died and where they will respawn.
+ * Deaths come from set_health, the spawn point from start_game and set_spawn_position.
+ */
+export class SpecialPointTracker {
+  private death: SpecialPoint | null = null;
+  private worldSpawn: SpecialPoint | null = null;
+  private playerSpawn: SpecialPoint | null = null;
+  // set_health is sent repeatedly while dead, only the first one is a new death
+  private dead = false;
+  private getPlayerPosition: () => PlayerPosition;
+
+  onUpdate?: (points: SpecialPoints) => void;
+
+  constructor(getPlayerPosition: () => PlayerPosition) {
+    this.getPlayerPosition = getPlayerPosition;
+  }
+
+  on_start_game(packet: any) {
+    this.dead = false;
+    this.playerSpawn = null;
+    this.worldSpawn = packet.spawn_position ? this.toPoint(packet.spawn_position, 0) : null;
+    this.update();
+  }
+
+  on_set_spawn_position(packet: any) {
+    if (packet.spawn_type === 'player') {
+      this.playerSpawn = this.toPoint(packet.player_position, packet.dimension);
+    } else {
+      this.worldSpawn = this.toPoint(packet.world_position, packet.dimension);
+    }
+    this.update();
+  }
+
+  on_set_health(packet: any) {
+    if (packet.health > 0) {
+      this.dead = false;
+      return;
+    }
+    if (this.dead) return;
+
+    this.dead = true;
+    const { x, y, z, dimension = 0 } = this.getPlayerPosition();
+    const death = { x: Math.floor(x), y: Math.floor(y), z: Math.floor(z), dimension, time: Date.now() };
+    this.death = death;
+    console.log(`💀 Player died at ${death.x}, ${death.y}, ${death.z} in dimension ${dimension}`);
+    this.update();
+  }
+
+  on_respawn(packet: any) {
+    if (packet.state === RESPAWN_STATE_SERVER_READY) {
+      this.dead = false;
+    }
+  }
+
+  getPoints(): SpecialPoints {
+    return {
+      death: this.death,
+      spawn: this.playerSpawn ?? this.worldSpawn,
+      spawnIsBed: this.playerSpawn !== null
+    };
+  }
+
+  /**
+   * Forget the death and spawn points and send the empty points
+   */
+  reset() {
+    this.death = null;
+    this.worldSpawn = null;
+    this.playerSpawn = null;
+    this.dead = false;
+    this.update();
+  }
+
+  cleanup() {
+    this.onUpdate = undefined;
+  }
+
+  private toPoint(position: { x: number; y: number; z: number }, dimension: number): SpecialPoint {
+    return { x: position.x, y: position.y, z: position.z, dimension, time: Date.now() };
+  }
+
+  private update() {
+    this.onUpdate?.(this.getPoints());
+  }
+}
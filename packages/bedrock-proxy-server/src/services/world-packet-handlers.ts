@@ -0,0 +1,111 @@
+import type { BlockChange, ChunkBlockChanges, ChunkCoordinate, ChunkRequest, ChunkResponse, PlayerPosition } from "@minecraft-bedrock-minimap/shared";
+import { dimensionChunkKey } from "@minecraft-bedrock-minimap/shared";
+import type { PacketRouter } from "./packet-router.js";
+import { BlockChangeQueue } from "./block-change-queue.js";
+import type { ChunkService } from "./chunk-service.js";
+import type { WorldHandler } from "../world/WorldHandler.js";
+
+// Block changes arriving within this window are sent together, grouped by chunk
+const BLOCK_CHANGE_DELAY_MS = 50;
+
+export interface WorldPacketHandlerContext {
+  worldHandler: WorldHandler;
+  chunkService: ChunkService;
+  // Send processed chunks to the minimap servers
+  emitChunks: (chunks: ChunkResponse[]) => void;
+  // Send block changes of loaded columns to the minimap servers
+  emitBlockChanges: (changes: ChunkBlockChanges[]) => void;
+  // Called with the player's position from each movement packet
+  onPlayerMove: (position: PlayerPosition) => void;
+}
+
+/**
+ * Build one chunk request per distinct chunk column, coordinates without a dimension are in the given one
+ */
+export function uniqueChunkRequests(chunks: ChunkCoordinate[], dimension: number): ChunkRequest[] {
+  const chunkRequestsMap = new Map<string, ChunkRequest>();
+  for (const { x: chunkX, z: chunkZ, dimension: chunkDimension = dimension } of chunks) {
+    const key = dimensionChunkKey(chunkDimension, chunkX, chunkZ);
+    if (!chunkRequestsMap.has(key)) {
+      chunkRequestsMap.set(key, { chunkX, chunkZ, dimension: chunkDimension });
+    }
+  }
+  return Array.from(chunkRequestsMap.values());
+}
+
+/**
+ * Register the packets that keep the proxy's world and player position up to date
+ * @returns The queue of block changes not sent yet, to be cleared when the session ends
+ */
+export function registerWorldPacketHandlers(router: PacketRouter, context: WorldPacketHandlerContext): BlockChangeQueue {
+  const { worldHandler, chunkService, emitChunks, emitBlockChanges, onPlayerMove } = context;
+
+  const sendChunks = async (requests: ChunkRequest[]) => {
+    const chunkResponses = await chunkService.processChunkRequests(requests);
+    emitChunks(chunkResponses);
+  };
+
+  const blockChangeQueue = new BlockChangeQueue(BLOCK_CHANGE_DELAY_MS, emitBlockChanges);
+  const queueBlockChanges = (blocks: BlockChange[]) => {
+    blockChangeQueue.add(blocks, worldHandler.dimension);
+  };
+
+  router.onClientbound("join", () => {
+    worldHandler.handle_join_packet();
+  });
+
+  router.onClientbound("start_game", (params) => {
+    worldHandler.on_start_game(params);
+  });
+
+  router.onClientbound("change_dimension", (params) => {
+    worldHandler.on_change_dimension(params);
+  });
+
+  router.onClientbound("client_cache_miss_response", async (params) => {
+    await worldHandler.on_client_cache_miss_response(params);
+  });
+
+  router.onClientbound("level_chunk", async (params) => {
+    await worldHandler.on_level_chunk(params);
+  });
+
+  router.onClientbound("subchunk", async (params) => {
+    await worldHandler.on_subchunk(params);
+
+    const { entries, origin } = params;
+    const dimension = params.dimension ?? worldHandler.dimension;
+    const chunks = entries.map((entry: any) => ({ x: origin.x + entry.dx, z: origin.z + entry.dz }));
+    await sendChunks(uniqueChunkRequests(chunks, dimension));
+  });
+
+  router.onClientbound("update_block", (params) => {
+    worldHandler.on_update_block(params, queueBlockChanges);
+  });
+
+  router.onClientbound("update_block_synced", (params) => {
+    worldHandler.on_update_block_synced(params, queueBlockChanges);
+  });
+
+  router.onClientbound("update_subchunk_blocks", (params) => {
+    worldHandler.on_update_subchunk_blocks(params, queueBlockChanges);
+  });
+
+  // Block entities (signs, chests) do not change the map, they are only kept in the proxy's world
+  router.onClientbound("block_entity_data", (params) => {
+    worldHandler.on_block_entity_data(params);
+  });
+
+  router.onServerbound("player_auth_input", (params) => {
+    onPlayerMove({
+      x: params.position.x,
+      y: params.position.y,
+      z: params.position.z,
+      pitch: params.pitch,
+      yaw: params.yaw,
+      dimension: worldHandler.dimension,
+    });
+  });
+
+  return blockChangeQueue;
+}
@@ -81,6 +81,11 @@ export class SettingsLoader {
         advanced: {
           profilesFolder: process.env.PROFILES_FOLDER || DEFAULT_PROXY_SETTINGS.advanced.profilesFolder,
           enableDebugLogging: parseBoolean(process.env.ENABLE_DEBUG_LOGGING, DEFAULT_PROXY_SETTINGS.advanced.enableDebugLogging),
+          replayFile: process.env.REPLAY_FILE || DEFAULT_PROXY_SETTINGS.advanced.replayFile,
+          enablePacketCapture: parseBoolean(process.env.ENABLE_PACKET_CAPTURE, DEFAULT_PROXY_SETTINGS.advanced.enablePacketCapture),
+          captureMaxFileSizeMb: parseInt(process.env.CAPTURE_MAX_FILE_SIZE_MB || String(DEFAULT_PROXY_SETTINGS.advanced.captureMaxFileSizeMb), 10),
+          captureMaxMinutes: parseInt(process.env.CAPTURE_MAX_MINUTES || String(DEFAULT_PROXY_SETTINGS.advanced.captureMaxMinutes), 10),
+          capturePacketFilter: process.env.CAPTURE_PACKET_FILTER || DEFAULT_PROXY_SETTINGS.advanced.capturePacketFilter,
           autoReconnect: parseBoolean(process.env.AUTO_RECONNECT, DEFAULT_PROXY_SETTINGS.advanced.autoReconnect),
           reconnectInterval: parseInt(process.env.RECONNECT_INTERVAL || String(DEFAULT_PROXY_SETTINGS.advanced.reconnectInterval), 10)
         }
@@ -145,10 +150,15 @@ export class SettingsLoader {
     console.log(`    - Listen: ${this.settings.relay.host}:${this.settings.relay.port}`);
     console.log("  Performance:");
     console.log(`    - Chunk Caching: ${this.settings.performance.enableChunkCaching}`);
+    console.log(`    - World Save Interval: ${this.settings.performance.worldSaveInterval}ms`);
     console.log(`    - Max Chunks: ${this.settings.performance.maxLoadedChunks}`);
     console.log("  Advanced:");
     console.log(`    - Debug Logging: ${this.settings.advanced.enableDebugLogging}`);
     console.log(`    - Auto Reconnect: ${this.settings.advanced.autoReconnect}`);
+    console.log(`    - Packet Capture: ${this.settings.advanced.enablePacketCapture}`);
+    if (this.settings.advanced.replayFile) {
+      console.log(`    - Replay File: ${this.settings.advanced.replayFile}`);
+    }
   }
 }
 
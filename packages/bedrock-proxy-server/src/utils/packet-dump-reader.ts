@@ -21,6 +21,32 @@ export class PacketDumpReader {
         this.deserializer.proto.setVariable('ShieldItemID', 380 as any);
     }
 
+    /**
+     * Scan a dump without parsing packets and return the time of the last packet (ns)
+     */
+    static getDuration(filename: string): bigint | null {
+        const file = File(fs.openSync(filename, "r"));
+        const reader = new BinaryReader(file);
+        let duration: bigint | null = null;
+        try {
+            reader.readString();
+            // Reading past the end of the dump throws, which ends the scan
+            while (true) {
+                reader.readChar();
+                const time = reader.readInt64();
+                const length = reader.readInt32();
+                if (reader.readBytes(length).length < length) break;
+                duration = time;
+            }
+        } catch (e) {
+            // End of dump
+        } finally {
+            file.close();
+            reader.close();
+        }
+        return duration;
+    }
+
     canRead() {
         return this.file.canRead;
     }
@@ -1,18 +1,42 @@
 import * as fs from "fs";
+import path from "path";
 import { BinaryWriter, File, type IFile } from "csbinary";
 
+// Type char, int64 time and int32 length written before each packet
+const PACKET_HEADER_SIZE = 13;
+
 export class PackentDumpWriter {
     private filename: string;
     private file: IFile;
     private writer: BinaryWriter;
     private startTime = process.hrtime.bigint();
+    private bytesWritten = 0;
 
-    constructor(version: string) {
-        this.filename = `dumps/${version}-${Date.now()}.bin`;
+    constructor(version: string, folder: string = "dumps") {
+        fs.mkdirSync(folder, { recursive: true });
+        this.filename = path.join(folder, `${version}-${Date.now()}.bin`);
         this.file = File(fs.openSync(`${this.filename}`, "w"));
         this.writer = new BinaryWriter(this.file);
         this.writer.writeString(version);
     }
+
+    getFilename() {
+        return this.filename;
+    }
+
+    /**
+     * Approximate size of the dump so far, excluding the version header
+     */
+    getSize() {
+        return this.bytesWritten;
+    }
+
+    /**
+     * Time since the dump was opened (ns)
+     */
+    getElapsed() {
+        return process.hrtime.bigint() - this.startTime;
+    }
     writeServerbound(buffer: Buffer) {
         const time = process.hrtime.bigint() - this.startTime;
         this.writer.writeChar("S");
@@ -20,6 +44,7 @@ export class PackentDumpWriter {
         this.writer.writeInt32(buffer.length);
         this.writer.writeBuffer(buffer);
         this.writer.flush();
+        this.bytesWritten += PACKET_HEADER_SIZE + buffer.length;
     }
 
     writeClientbound(buffer: Buffer) {
@@ -29,6 +54,7 @@ export class PackentDumpWriter {
         this.writer.writeInt32(buffer.length);
         this.writer.writeBuffer(buffer);
         this.writer.flush();
+        this.bytesWritten += PACKET_HEADER_SIZE + buffer.length;
     }
 
     flush() {
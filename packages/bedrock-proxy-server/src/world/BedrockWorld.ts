@@ -2,10 +2,11 @@ import EventEmitter, { once } from "events";
 import { type BedrockChunk, type ExtendedBlock } from "prismarine-chunk";
 import { Vec3 } from "vec3";
 import { type Biome } from "prismarine-biome";
+import { dimensionChunkKey, parseDimensionChunkKey, type StorageProvider } from "@minecraft-bedrock-minimap/shared";
 
 
-function columnKeyXZ(chunkX: number, chunkZ: number): string {
-  return `${chunkX},${chunkZ}`;
+function columnKeyXZ(chunkX: number, chunkZ: number, dimension: number): string {
+  return dimensionChunkKey(dimension, chunkX, chunkZ);
 }
 
 function posInChunk(pos: Vec3): Vec3 {
@@ -18,14 +19,15 @@ export class BedrockWorld extends EventEmitter {
   finishedSaving!: Promise<any>;
   currentlySaving!: boolean;
   columns: { [key: string]: BedrockChunk } = {};
+  dimension = 0;
   chunkGenerator: any | null;
-  storageProvider: any | null;
+  storageProvider: StorageProvider | null;
   savingInterval: number;
   savingInt: any;
 
   constructor(
     chunkGenerator: any | null,
-    storageProvider = null,
+    storageProvider: StorageProvider | null = null,
     savingInterval = 1000
   ) {
     super();
@@ -71,22 +73,28 @@ export class BedrockWorld extends EventEmitter {
     return Promise.all(ps)
   }
 
-  getLoadedColumn(chunkX: number, chunkZ: number) {
-    const key = columnKeyXZ(chunkX, chunkZ);
+  /**
+   * Switch the dimension used by calls that don't pass one explicitly.
+   * Columns of other dimensions stay loaded.
+   */
+  setDimension(dimension: number) {
+    this.dimension = dimension;
+  }
+
+  getLoadedColumn(chunkX: number, chunkZ: number, dimension = this.dimension) {
+    const key = columnKeyXZ(chunkX, chunkZ, dimension);
     return this.columns[key];
   }
 
 
-  async getColumn(chunkX: number, chunkZ: number) {
+  async getColumn(chunkX: number, chunkZ: number, dimension = this.dimension) {
     await Promise.resolve();
-    const key = columnKeyXZ(chunkX, chunkZ);
+    const key = columnKeyXZ(chunkX, chunkZ, dimension);
 
     if (!this.columns[key]) {
       let chunk = null;
-      // TODO: Future integration with bedrock-provider for persistent storage
-      // See: https://github.com/PrismarineJS/bedrock-provider/tree/master
       if (this.storageProvider != null) {
-        const data = await this.storageProvider.load(chunkX, chunkZ);
+        const data = await this.storageProvider.load(key);
         if (data != null) {
           chunk = data;
         }
@@ -96,13 +104,26 @@ export class BedrockWorld extends EventEmitter {
         chunk = this.chunkGenerator(chunkX, chunkZ);
       }
       if (chunk != null) {
-        await this.setColumn(chunkX, chunkZ, chunk, !loaded);
+        await this.setColumn(chunkX, chunkZ, chunk, !loaded, dimension);
       }
     }
 
     return this.columns[key];
   }
 
+  /**
+   * Loaded column, or the stored one without loading it, so that answering requests for stored
+   * chunks does not keep them in memory
+   */
+  async readColumn(chunkX: number, chunkZ: number, dimension = this.dimension): Promise<BedrockChunk | null> {
+    const loaded = this.getLoadedColumn(chunkX, chunkZ, dimension);
+    if (loaded) return loaded;
+    if (!this.storageProvider) return null;
+
+    const stored = await this.storageProvider.load(columnKeyXZ(chunkX, chunkZ, dimension));
+    return (stored as BedrockChunk | null) ?? null;
+  }
+
   _emitBlockUpdate(oldBlock: ExtendedBlock, newBlock: ExtendedBlock, position: Vec3) {
     oldBlock.position = position.floored();
     newBlock.position = oldBlock.position;
@@ -110,66 +131,85 @@ export class BedrockWorld extends EventEmitter {
     this.emit(`blockUpdate:${position}`, oldBlock, newBlock);
   }
 
-  setLoadedColumn(chunkX: number, chunkZ: number, chunk: BedrockChunk, save = true) {
-    const key = columnKeyXZ(chunkX, chunkZ);
+  setLoadedColumn(chunkX: number, chunkZ: number, chunk: BedrockChunk, save = true, dimension = this.dimension) {
+    const key = columnKeyXZ(chunkX, chunkZ, dimension);
     this.columns[key] = chunk;
 
     const columnCorner = new Vec3(chunkX * 16, 0, chunkZ * 16);
-    this.emit("chunkColumnLoad", columnCorner);
+    this.emit("chunkColumnLoad", columnCorner, dimension);
 
-    // TODO: Future integration with bedrock-provider for persistent storage
-    // See: https://github.com/PrismarineJS/bedrock-provider/tree/master
     if (this.storageProvider && save) {
-      this.queueSaving(chunkX, chunkZ);
+      this.queueSaving(chunkX, chunkZ, dimension);
     }
   }
 
-  async setColumn(chunkX: number, chunkZ: number, chunk: BedrockChunk, save = true) {
+  async setColumn(chunkX: number, chunkZ: number, chunk: BedrockChunk, save = true, dimension = this.dimension) {
     await Promise.resolve();
-    this.setLoadedColumn(chunkX, chunkZ, chunk, save);
+    this.setLoadedColumn(chunkX, chunkZ, chunk, save, dimension);
   }
 
-  unloadColumn(chunkX: number, chunkZ: number) {
-    const key = columnKeyXZ(chunkX, chunkZ);
+  unloadColumn(chunkX: number, chunkZ: number, dimension = this.dimension) {
+    const key = columnKeyXZ(chunkX, chunkZ, dimension);
     if (this.storageProvider && this.savingQueue.has(key)) {
-      this.unloadQueue.set(key, { chunkX, chunkZ });
+      this.unloadQueue.set(key, { chunkX, chunkZ, dimension });
     } else {
-      this.forceUnloadColumn(key, chunkX, chunkZ);
+      this.forceUnloadColumn(key, chunkX, chunkZ, dimension);
     }
   }
 
-  forceUnloadColumn(key: string, chunkX: number, chunkZ: number) {
+  forceUnloadColumn(key: string, chunkX: number, chunkZ: number, dimension = this.dimension) {
     if (this.unloadQueue.has(key)) {
       this.unloadQueue.delete(key);
     }
     delete this.columns[key];
     const columnCorner = new Vec3(chunkX * 16, 0, chunkZ * 16);
-    this.emit("chunkColumnUnload", columnCorner);
+    this.emit("chunkColumnUnload", columnCorner, dimension);
   }
 
-  // TODO: Future integration with bedrock-provider for persistent storage
-  // See: https://github.com/PrismarineJS/bedrock-provider/tree/master
-  // Storage functionality preserved for future use
   async saveNow() {
     if (this.savingQueue.size === 0) {
       return;
     }
     // We could set a limit on the number of chunks to save at each
     // interval. The set structure is maintaining the order of insertion
-    for (const [key, { chunkX, chunkZ }] of this.savingQueue.entries()) {
-      this.finishedSaving = Promise.all([
-        this.finishedSaving,
-        this.storageProvider.save(chunkX, chunkZ, this.columns[key]),
-      ]);
+    for (const key of this.savingQueue.keys()) {
+      // A column that cannot be saved, e.g. because its region file is unreadable, is skipped
+      const saved = this.storageProvider!.save(key, this.columns[key]).catch(error => {
+        console.error(`❌ Failed to save chunk ${key}:`, error);
+      });
+      this.finishedSaving = Promise.all([this.finishedSaving, saved]);
     }
     await this.finishedSaving;
+    if (this.storageProvider?.flush) {
+      this.finishedSaving = this.storageProvider.flush();
+      await this.finishedSaving;
+    }
     this.savingQueue.clear();
-    for (const [key, { chunkX, chunkZ }] of this.unloadQueue.entries()) {
-      this.forceUnloadColumn(key, chunkX, chunkZ);
+    for (const [key, { chunkX, chunkZ, dimension }] of this.unloadQueue.entries()) {
+      this.forceUnloadColumn(key, chunkX, chunkZ, dimension);
     }
     this.emit("doneSaving");
   }
 
+  /**
+   * Switch the storage, columns queued for the previous one are saved to it first. Columns loaded
+   * so far are saved to a new storage as well
+   */
+  async setStorageProvider(storageProvider: StorageProvider | null) {
+    this.stopSaving();
+    if (this.storageProvider) {
+      await this.waitSaving();
+    }
+
+    this.storageProvider = storageProvider;
+    if (!storageProvider) return;
+    for (const key of Object.keys(this.columns)) {
+      const { dimension, x, z } = parseDimensionChunkKey(key);
+      this.queueSaving(x, z, dimension);
+    }
+    if (this.savingInterval !== 0) this.startSaving();
+  }
+
   startSaving() {
     this.savingInt = setInterval(async () => {
       if (this.currentlySaving === false) {
@@ -192,8 +232,8 @@ export class BedrockWorld extends EventEmitter {
     clearInterval(this.savingInt);
   }
 
-  queueSaving(chunkX: number, chunkZ: number) {
-    this.savingQueue.set(columnKeyXZ(chunkX, chunkZ), { chunkX, chunkZ });
+  queueSaving(chunkX: number, chunkZ: number, dimension = this.dimension) {
+    this.savingQueue.set(columnKeyXZ(chunkX, chunkZ, dimension), { chunkX, chunkZ, dimension });
   }
 
   saveAt(pos: Vec3) {
@@ -206,10 +246,11 @@ export class BedrockWorld extends EventEmitter {
 
   getColumns() {
     return Object.entries(this.columns).map(([key, column]) => {
-      const parts = key.split(",");
+      const { dimension, x, z } = parseDimensionChunkKey(key);
       return {
-        chunkX: parts[0],
-        chunkZ: parts[1],
+        chunkX: x,
+        chunkZ: z,
+        dimension,
         column,
       };
     });
@@ -298,6 +339,20 @@ export class BedrockWorld extends EventEmitter {
     this._emitBlockUpdate(oldBlock, chunk.getBlock(pInChunk), pos);
   }
 
+  /**
+   * Save pending columns and forget every loaded one
+   */
+  async clear() {
+    if (this.storageProvider) {
+      await this.waitSaving();
+    }
+    for (const key in this.columns) {
+      delete this.columns[key];
+    }
+    this.savingQueue.clear();
+    this.unloadQueue.clear();
+  }
+
   /**
    * Clean up all resources and pending operations
    */
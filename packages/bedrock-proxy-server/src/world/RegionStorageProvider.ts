@@ -0,0 +1,182 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import PrismarineRegistry from 'prismarine-registry';
+import PrismarineChunk, { type BedrockChunk } from 'prismarine-chunk';
+import { parseDimensionChunkKey, type StorageProvider } from '@minecraft-bedrock-minimap/shared';
+
+// Number of chunks along each side of a region file
+const REGION_SIZE = 32;
+
+// Region files kept in memory for loads, least recently used ones are dropped past this
+const MAX_CACHED_REGIONS = 16;
+
+type RegionData = { [chunkKey: string]: string };
+
+/**
+ * Stores chunk columns on disk, grouped into region files of 32x32 chunks.
+ * Each region file is a JSON object mapping "x,z" to the chunk's toJson() blob.
+ *
+ * Layout: <folder>/<server>/<dimension>/r.<regionX>.<regionZ>.json
+ *
+ * save() only updates the region in memory, flush() writes each changed region once.
+ */
+export class RegionStorageProvider implements StorageProvider {
+    private folder: string;
+    private ChunkColumn: typeof BedrockChunk;
+    // Ordered from least to most recently used
+    private regions = new Map<string, RegionData>();
+    private reads = new Map<string, Promise<RegionData>>();
+    // Regions changed since the last flush, kept in memory until written
+    private dirty = new Set<string>();
+    private writes = new Map<string, Promise<void>>();
+
+    constructor(baseFolder: string, serverHost: string, serverPort: number, version: string) {
+        const serverName = `${serverHost}_${serverPort}`.replace(/[^a-zA-Z0-9._-]/g, '_');
+        this.folder = path.resolve(baseFolder, 'worlds', serverName);
+        this.ChunkColumn = (PrismarineChunk as any)(PrismarineRegistry(`bedrock_${version}`)) as typeof BedrockChunk;
+    }
+
+    /**
+     * Folder holding the region files of this server
+     */
+    getFolder(): string {
+        return this.folder;
+    }
+
+    async load(key: string): Promise<BedrockChunk | null> {
+        const { dimension, x, z } = parseDimensionChunkKey(key);
+        const region = await this.getRegion(this.regionFile(dimension, x, z));
+        const data = region[`${x},${z}`];
+        if (!data) return null;
+
+        try {
+            return this.ChunkColumn.fromJson(data) as unknown as BedrockChunk;
+        } catch (error) {
+            console.error(`❌ Failed to decode stored chunk ${key}:`, error);
+            return null;
+        }
+    }
+
+    async save(key: string, column: unknown): Promise<void> {
+        if (!column) return;
+        const { dimension, x, z } = parseDimensionChunkKey(key);
+        const file = this.regionFile(dimension, x, z);
+        const region = await this.getRegion(file);
+        region[`${x},${z}`] = (column as BedrockChunk).toJson();
+        this.dirty.add(file);
+        // Other reads may have evicted it while this save waited
+        this.regions.set(file, region);
+    }
+
+    /**
+     * Write every region changed since the last flush, once each. Written regions are dropped
+     * from memory, the next save to them reads the file again
+     */
+    async flush(): Promise<void> {
+        const files = Array.from(this.dirty);
+        this.dirty.clear();
+
+        await Promise.all(files.map(async file => {
+            const region = this.regions.get(file);
+            if (!region) return;
+            await this.writeRegion(file, region);
+            // Saved to again while writing, the next flush writes it
+            if (!this.dirty.has(file)) {
+                this.regions.delete(file);
+            }
+        }));
+    }
+
+    private regionFile(dimension: number, chunkX: number, chunkZ: number): string {
+        const regionX = Math.floor(chunkX / REGION_SIZE);
+        const regionZ = Math.floor(chunkZ / REGION_SIZE);
+        return path.join(this.folder, String(dimension), `r.${regionX}.${regionZ}.json`);
+    }
+
+    private async getRegion(file: string): Promise<RegionData> {
+        const cached = this.regions.get(file);
+        if (cached) {
+            // Most recently used last
+            this.regions.delete(file);
+            this.regions.set(file, cached);
+            return cached;
+        }
+
+        let read = this.reads.get(file);
+        if (!read) {
+            // A write still in progress is read back once done
+            read = (this.writes.get(file) ?? Promise.resolve())
+                .then(() => this.readRegion(file))
+                .finally(() => this.reads.delete(file))
+                .then(region => {
+                    // A save put the region back while it was read again
+                    const current = this.regions.get(file);
+                    if (current) return current;
+                    this.regions.set(file, region);
+                    this.evictRegions();
+                    return region;
+                });
+            this.reads.set(file, read);
+        }
+        return read;
+    }
+
+    /**
+     * Read a region file, a missing one is an empty region. A file that does not parse is moved
+     * to <file>.corrupt before starting a fresh region, other errors are thrown so that the
+     * file is never written over with an empty region
+     */
+    private async readRegion(file: string): Promise<RegionData> {
+        let content: string;
+        try {
+            content = await fs.readFile(file, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+            throw error;
+        }
+
+        try {
+            const region = JSON.parse(content);
+            if (region && typeof region === 'object' && !Array.isArray(region)) {
+                return region as RegionData;
+            }
+        } catch (error) {
+            console.error(`❌ Failed to parse region file ${file}:`, error);
+        }
+
+        const corruptFile = `${file}.corrupt`;
+        await fs.rename(file, corruptFile);
+        console.warn(`⚠️ Moved corrupt region file to ${corruptFile}`);
+        return {};
+    }
+
+    /**
+     * Drop the least recently used regions past MAX_CACHED_REGIONS, changed ones stay until flushed
+     */
+    private evictRegions() {
+        for (const file of this.regions.keys()) {
+            if (this.regions.size <= MAX_CACHED_REGIONS) break;
+            if (!this.dirty.has(file)) {
+                this.regions.delete(file);
+            }
+        }
+    }
+
+    /**
+     * Writes are chained per file so concurrent saves never interleave.
+     * The file is written to a temp path first and renamed into place.
+     */
+    private writeRegion(file: string, region: RegionData): Promise<void> {
+        const previous = this.writes.get(file) ?? Promise.resolve();
+        const next = previous.then(async () => {
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            const tmpFile = `${file}.tmp`;
+            await fs.writeFile(tmpFile, JSON.stringify(region));
+            await fs.rename(tmpFile, file);
+        }).catch(error => {
+            console.error(`❌ Failed to write region file ${file}:`, error);
+        });
+        this.writes.set(file, next);
+        return next;
+    }
+}
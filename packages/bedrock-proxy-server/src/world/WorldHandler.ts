@@ -2,12 +2,44 @@ import PrismarineRegistry, { type RegistryBedrock } from 'prismarine-registry';
 import PrismarineChunk, { BlobEntry, type BedrockChunk } from 'prismarine-chunk';
 import { BedrockWorld } from './BedrockWorld.ts';
 import assert from 'assert';
+import type { BlockChange, Position3D } from '@minecraft-bedrock-minimap/shared';
 
 const BlobType = {
     ChunkSection: 0,
     Biomes: 1,
 }
 
+// start_game maps the dimension to a name, change_dimension and level_chunk send the raw id
+const DimensionIds: Record<string, number> = {
+    overworld: 0,
+    nether: 1,
+    end: 2,
+}
+
+function toDimensionId(dimension: number | string | undefined): number | undefined {
+    if (typeof dimension === 'string') return DimensionIds[dimension];
+    return dimension;
+}
+
+// Fields read from update_block and update_block_synced
+interface UpdateBlockPacket {
+    position: Position3D;
+    block_runtime_id: number;
+    layer?: number;
+}
+
+// Fields read from update_subchunk_blocks, blocks are layer 0 and extra is layer 1
+interface UpdateSubchunkBlocksPacket {
+    blocks?: Array<{ position: Position3D; runtime_id: number }>;
+    extra?: Array<{ position: Position3D; runtime_id: number }>;
+}
+
+// Fields read from block_entity_data
+interface BlockEntityDataPacket {
+    position: Position3D;
+    nbt: BedrockChunk['blockEntities'][string];
+}
+
 export class WorldHandler {
     world: BedrockWorld;
     protected cachingEnabled = false;
@@ -26,9 +58,11 @@ export class WorldHandler {
 
     states: Record<number, string> = {};
     client: any;
-    onData?: (chunkX: number, chunkZ: number) => void;
+    dimension = 0;
+    onData?: (chunkX: number, chunkZ: number, dimension: number) => void;
+    onDimensionChange?: (dimension: number) => void;
 
-    constructor(client: any, world: BedrockWorld, version: string, onData?: (chunkX: number, chunkZ: number) => void) {
+    constructor(client: any, world: BedrockWorld, version: string, onData?: (chunkX: number, chunkZ: number, dimension: number) => void) {
         this.world = world;
         this.client = client;
         this.onData = onData;
@@ -42,19 +76,82 @@ export class WorldHandler {
         this.client.queue("client_cache_status", { enabled: this.cachingEnabled });
     }
 
-    on_update_block(packet: any, fn: (block: any) => void) {
-        const chunk = this.world.getLoadedColumnAt(packet.position);
-        const newBlock = this.registry.blocksByStateId[packet.block_runtime_id];
-        if (chunk) {
-            chunk.setBlock(packet.position, {
-                ...(newBlock as any),
-                stateId: packet.block_runtime_id,
-            });
-            fn(newBlock);
+    on_start_game(packet: any) {
+        this.registry.handleStartGame({ ...packet, itemstates: [] });
+        this.setDimension(toDimensionId(packet.dimension) ?? 0);
+    }
+
+    on_change_dimension(packet: any) {
+        this.setDimension(toDimensionId(packet.dimension) ?? 0);
+    }
+
+    /**
+     * Switch the active dimension. Chunks already loaded for other dimensions are kept.
+     */
+    setDimension(dimension: number) {
+        if (dimension === this.dimension) return;
+        this.dimension = dimension;
+        this.world.setDimension(dimension);
+        this.onDimensionChange?.(dimension);
+    }
+
+    on_update_block(packet: UpdateBlockPacket, fn: (changes: BlockChange[]) => void) {
+        const layer = packet.layer ?? 0;
+        if (this.setBlock(packet.position, packet.block_runtime_id, layer)) {
+            fn([{ ...packet.position, stateId: packet.block_runtime_id, layer }]);
         }
     }
 
+    /**
+     * Same as update_block, sent when a block turns into a falling block entity or back
+     */
+    on_update_block_synced(packet: UpdateBlockPacket, fn: (changes: BlockChange[]) => void) {
+        this.on_update_block(packet, fn);
+    }
+
+    /**
+     * Many block changes at once (explosions, /fill, structures). Blocks are layer 0, extra is layer 1.
+     * fn is called once with the changes that were applied to a loaded column.
+     */
+    on_update_subchunk_blocks(packet: UpdateSubchunkBlocksPacket, fn: (changes: BlockChange[]) => void) {
+        const changes: BlockChange[] = [];
+        for (const [entries, layer] of [[packet.blocks, 0], [packet.extra, 1]] as const) {
+            for (const entry of entries ?? []) {
+                if (this.setBlock(entry.position, entry.runtime_id, layer)) {
+                    changes.push({ ...entry.position, stateId: entry.runtime_id, layer });
+                }
+            }
+        }
+        if (changes.length > 0) {
+            fn(changes);
+        }
+    }
+
+    on_block_entity_data(packet: BlockEntityDataPacket, fn?: () => void) {
+        const { x, y, z } = packet.position;
+        const chunk = this.world.getLoadedColumn(x >> 4, z >> 4);
+        if (!chunk) return;
+
+        // Keyed like prismarine-chunk's setBlockEntity, which its typings leave out
+        chunk.blockEntities[`${x & 0xf},${y},${z & 0xf}`] = packet.nbt;
+        fn?.();
+    }
+
+    /**
+     * Apply a block change to the loaded column of the current dimension
+     * @returns The new block, or undefined when the column is not loaded or the runtime id is unknown
+     */
+    private setBlock(position: Position3D, runtimeId: number, layer = 0) {
+        const chunk = this.world.getLoadedColumn(position.x >> 4, position.z >> 4);
+        const newBlock = this.registry.blocksByStateId[runtimeId];
+        if (!chunk || !newBlock) return undefined;
+
+        chunk.setBlockStateId({ x: position.x & 0xf, y: position.y, z: position.z & 0xf, l: layer }, runtimeId);
+        return newBlock;
+    }
+
     async on_level_chunk(packet: any) {
+        const dimension = toDimensionId(packet.dimension) ?? this.dimension;
         const cc = new this.ChunkColumn({ x: packet.x, z: packet.z });
         if (!this.cachingEnabled) {
             await cc.networkDecodeNoCache(packet.payload, packet.sub_chunk_count);
@@ -126,7 +223,7 @@ export class WorldHandler {
                 this.client?.queue?.("subchunk_request", {
                     origin: { x: packet.x, z: packet.z, y: 0 },
                     requests,
-                    dimension: 0,
+                    dimension,
                 });
             } else if (this.registry.version[">="]("1.18")) {
                 for (let i = 1; i < Math.min(maxSubChunkCount, 5); i++) {
@@ -134,25 +231,26 @@ export class WorldHandler {
                         x: packet.x,
                         z: packet.z,
                         y: i,
-                        dimension: 0,
+                        dimension,
                     });
                 }
             }
         }
 
-        await this.world.setColumn(packet.x, packet.z, cc);
+        await this.world.setColumn(packet.x, packet.z, cc, true, dimension);
         // Notify about new chunk
-        this.onData?.(packet.x, packet.z);
+        this.onData?.(packet.x, packet.z, dimension);
     }
 
     async on_subchunk(packet: any) {
+        const dimension = toDimensionId(packet.dimension) ?? this.dimension;
         if (packet.entries) {
             // 1.18.10+ handling
             for (const entry of packet.entries) {
                 const x = packet.origin.x + entry.dx;
                 const y = packet.origin.y + entry.dy;
                 const z = packet.origin.z + entry.dz;
-                const cc = this.world.getLoadedColumn(x, z);
+                const cc = this.world.getLoadedColumn(x, z, dimension);
                 if (entry.result === "success") {
                     this.foundSubChunks++;
 
@@ -161,7 +259,7 @@ export class WorldHandler {
                     } else {
                         await cc.networkDecodeSubChunkNoCache(y, entry.payload);
 
-                        this.onData?.(cc.x, cc.z);
+                        this.onData?.(cc.x, cc.z, dimension);
                     }
                 } else {
                     this.lostSubChunks++;
@@ -173,7 +271,7 @@ export class WorldHandler {
                 return;
             }
             this.foundSubChunks++;
-            const cc = this.world.getLoadedColumn(packet.x, packet.z);
+            const cc = this.world.getLoadedColumn(packet.x, packet.z, dimension);
             if (packet.cache_enabled) {
                 await this.loadCached(
                     cc,
@@ -185,7 +283,7 @@ export class WorldHandler {
                 );
             } else {
                 await cc.networkDecodeSubChunkNoCache(packet.y, packet.data);
-                this.onData?.(cc.x, cc.z);
+                this.onData?.(cc.x, cc.z, dimension);
             }
         }
     }
@@ -265,6 +363,7 @@ export class WorldHandler {
         if (this.onData) {
             this.onData = undefined;
         }
+        this.onDimensionChange = undefined;
         
         // Clear client reference
         this.client = null;
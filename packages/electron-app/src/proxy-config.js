@@ -21,6 +21,11 @@ const defaultProxyConfig = {
   advanced: {
     profilesFolder: './profiles',
     enableDebugLogging: false,
+    replayFile: '',
+    enablePacketCapture: false,
+    captureMaxFileSizeMb: 64,
+    captureMaxMinutes: 30,
+    capturePacketFilter: '',
     autoReconnect: true,
     reconnectInterval: 5000
   }
@@ -105,6 +110,11 @@ export class ProxyConfig {
           properties: {
             profilesFolder: { type: 'string' },
             enableDebugLogging: { type: 'boolean' },
+            replayFile: { type: 'string' },
+            enablePacketCapture: { type: 'boolean' },
+            captureMaxFileSizeMb: { type: 'number', minimum: 1, maximum: 1024 },
+            captureMaxMinutes: { type: 'number', minimum: 0, maximum: 1440 },
+            capturePacketFilter: { type: 'string' },
             autoReconnect: { type: 'boolean' },
             reconnectInterval: { type: 'number', minimum: 1000, maximum: 30000 }
           }
@@ -211,6 +221,11 @@ export class ProxyConfig {
       MAX_LOADED_CHUNKS: config.performance.maxLoadedChunks.toString(),
       PROFILES_FOLDER: config.advanced.profilesFolder,
       ENABLE_DEBUG_LOGGING: config.advanced.enableDebugLogging.toString(),
+      REPLAY_FILE: config.advanced.replayFile || '',
+      ENABLE_PACKET_CAPTURE: String(config.advanced.enablePacketCapture ?? false),
+      CAPTURE_MAX_FILE_SIZE_MB: String(config.advanced.captureMaxFileSizeMb ?? 64),
+      CAPTURE_MAX_MINUTES: String(config.advanced.captureMaxMinutes ?? 30),
+      CAPTURE_PACKET_FILTER: config.advanced.capturePacketFilter || '',
       AUTO_RECONNECT: config.advanced.autoReconnect.toString(),
       RECONNECT_INTERVAL: config.advanced.reconnectInterval.toString()
     };
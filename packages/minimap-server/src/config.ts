@@ -1,6 +1,6 @@
 import { config as dotenvConfig } from "dotenv";
 import type { OreDetectionConfig } from "@minecraft-bedrock-minimap/shared";
-import { OreType, DEFAULT_ORE_DETECTION_CONFIG } from "@minecraft-bedrock-minimap/shared";
+import { OreType, DEFAULT_ORE_DETECTION_CONFIG, getChunkEncoding } from "@minecraft-bedrock-minimap/shared";
 
 // Load environment variables
 dotenvConfig();
@@ -13,14 +13,25 @@ export const config = {
   // Proxy server connection
   proxyUrl: process.env.PROXY_URL || "http://localhost:3001",
 
+  // Name of the player whose relay session is followed, empty follows the first session
+  followPlayer: process.env.FOLLOW_PLAYER || "",
+
   // Connection options
   reconnection: process.env.RECONNECTION !== "false",
   reconnectionDelay: parseInt(process.env.RECONNECTION_DELAY || "1000", 10),
 
+  // Chunk encoding asked of the proxy, json keeps the plain column JSON
+  chunkEncoding: getChunkEncoding({ chunkEncoding: process.env.CHUNK_ENCODING || "binary" }),
+  // Binary chunk batches sent to web clients are deflated from this many bytes, 0 always deflates
+  chunkDeflateThreshold: parseInt(process.env.CHUNK_DEFLATE_THRESHOLD || "1024", 10),
+
   // Logging
   logLevel: process.env.LOG_LEVEL || "info",
   environment: process.env.NODE_ENV || "development",
 
+  // File the shared waypoints are saved to
+  waypointsFile: process.env.WAYPOINTS_FILE || "data/waypoints.json",
+
   // Cache configuration
   cacheSize: parseInt(process.env.CHUNK_CACHE_SIZE || "100000", 10),
 };
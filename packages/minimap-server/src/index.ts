@@ -1,17 +1,32 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
 import { io as ioClient } from "socket.io-client";
-import { Server } from "socket.io";
+import { Server, type Socket } from "socket.io";
 import type {
   WebToMinimapEvents,
   MinimapToWebEvents,
   SocketData,
   ChunkData,
+  ChunkCoordinate,
   ChunkResponse,
+  ChunkBlockChanges,
+  ChunkDelta,
   InvalidateChunksData,
   BatchUpdateData,
+  BinaryBatchUpdateData,
+  BinaryChunkResponse,
   ChunkUpdateEntry,
   ChunkOreData,
-  PlayerPosition
+  MapLayer,
+  MapLayerSetting,
+  PlayerPosition,
+  ReplayStatus,
+  EntitiesUpdate,
+  TrackedEntity,
+  PlayerInfo,
+  SessionInfo,
+  SpecialPoints
 } from "@minecraft-bedrock-minimap/shared";
+import { dimensionChunkKey, parseDimensionChunkKey, getChunkEncoding, getChunkVersion, SURFACE_LAYER } from "@minecraft-bedrock-minimap/shared";
 import PrismarineRegistry from 'prismarine-registry';
 import PrismarineChunk, { type BedrockChunk } from 'prismarine-chunk';
 import { config } from "./config.js";
@@ -19,6 +34,9 @@ import { ChunkCacheService } from "./services/chunk-cache.js";
 import { ChunkProcessor } from "./services/chunk-processor.js";
 import { ChunkUpdateBatcher } from "./services/chunk-update-batcher.js";
 import { ClientStateManager } from "./services/client-state-manager.js";
+import { WaypointStore } from "./services/waypoint-store.js";
+import { TileRenderer } from "./services/tile-renderer.js";
+import { fromBinaryChunkResponses, toBinaryChunkBatch } from "./services/chunk-transport.js";
 import { PerformanceMonitor } from "./utils/performance-monitor.js";
 import { BedrockWorld } from "./world/BedrockWorld.ts";
 
@@ -29,7 +47,8 @@ const proxySocket = ioClient(config.proxyUrl, {
   autoConnect: true,
   reconnection: true,
   reconnectionDelay: 1000,
-  reconnectionAttempts: Infinity
+  reconnectionAttempts: Infinity,
+  auth: { chunkEncoding: config.chunkEncoding }
 });
 
 // Health check for connection status
@@ -43,8 +62,6 @@ const healthCheckInterval = setInterval(() => {
 
     if (currentState) {
       console.log(`✅ Connected to proxy server`);
-      // Subscribe to player updates
-      proxySocket.emit("subscribe", "player_1");
     } else {
       console.log(`❌ Disconnected from proxy server`);
     }
@@ -57,13 +74,17 @@ const healthCheckInterval = setInterval(() => {
   }
 }, 1000); // Check every second
 
-// Create server for web clients
-const webServer = new Server<WebToMinimapEvents, MinimapToWebEvents, {}, SocketData>(config.port, {
+// Create server for web clients, Socket.io shares the port with the HTTP tile endpoint
+type WebSocket = Socket<WebToMinimapEvents, MinimapToWebEvents, {}, SocketData>;
+
+const httpServer = createServer(handleHttpRequest);
+const webServer = new Server<WebToMinimapEvents, MinimapToWebEvents, {}, SocketData>(httpServer, {
   cors: {
     origin: config.corsOrigins,
     credentials: true
   }
 });
+httpServer.listen(config.port);
 
 // Track socket cleanup functions
 const socketCleanup = new Map<string, () => void>();
@@ -74,7 +95,7 @@ const world = new BedrockWorld(null, null);
 // Initialize chunk cache service
 const chunkCache = new ChunkCacheService(config.cacheSize || 1000, world);
 // Initialize chunk processor
-const chunkProcessor = new ChunkProcessor();
+const chunkProcessor = new ChunkProcessor(world);
 // Initialize chunk update batcher
 const chunkUpdateBatcher = new ChunkUpdateBatcher();
 // Initialize client state manager
@@ -82,21 +103,344 @@ const clientStateManager = new ClientStateManager();
 // Initialize performance monitor
 const performanceMonitor = new PerformanceMonitor(chunkUpdateBatcher, clientStateManager, chunkCache);
 
+// Renders the explored map as PNG tiles for slippy map viewers
+const tileRenderer = new TileRenderer(chunkCache, chunkProcessor);
+
+// Waypoints are shared by all web clients and the overlay
+const waypointStore = new WaypointStore(config.waypointsFile);
+waypointStore.load().then(() => webServer.emit("waypoints-update", waypointStore.getAll()));
+
 // Start performance logging (every 60 seconds)
 const stopPerfLogging = performanceMonitor.startPeriodicLogging(60000);
 console.log("📊 Performance monitoring started (logs every 60 seconds)");
 
+// Largest number of chunks answered per request-chunks event
+const MAX_REQUESTED_CHUNKS = 1024;
+
+// Chunks the proxy did not answer within this time are asked for again
+const REQUESTED_CHUNK_TTL_MS = 30 * 1000;
+
+// Chunk updates sent to a web client per batch-update
+const CHUNK_BATCH_SIZE = parseInt(process.env.CHUNK_BATCH_SIZE || '50');
+
+// Delay between the batches of chunks in a new viewport, player movement sends them sooner
+const VIEWPORT_DRAIN_DELAY_MS = 50;
+
+// Auto cave view starts scanning at least this many blocks above the player position, on a grid of
+// steps so small climbs and drops keep the layer
+const AUTO_CAVE_HEADROOM = 1;
+const AUTO_CAVE_STEP = 16;
+
+// Auto view only switches between surface and caves once the player stayed under or out from a roof this long
+const AUTO_LAYER_DWELL_MS = 1500;
+
 // Minimap state
-let currentPlayerPosition: PlayerPosition = { x: 0, y: 64, z: 0, pitch: 0, yaw: 0 };
+let currentPlayerPosition: PlayerPosition = { x: 0, y: 64, z: 0, pitch: 0, yaw: 0, dimension: 0 };
+let playerUnderRoof = false;
+// Roof state at the last position and since when, playerUnderRoof follows it after AUTO_LAYER_DWELL_MS
+let roofSeen = false;
+let roofSeenSince = 0;
 // Legacy minimapData removed
 
+// Chunks asked from the proxy and not answered yet, by when they were asked. Each is asked for
+// once until the proxy answers or REQUESTED_CHUNK_TTL_MS passes
+const requestedChunks = new Map<string, number>();
+
 // Chunk storage for minimap generation
 const chunkStorage = new Map<string, ChunkData>();
 const oreChunkStorage = new Map<string, ChunkOreData>();
 
 // Helper function to get chunk key
-function getChunkKey(x: number, z: number): string {
-  return `${x},${z}`;
+function getChunkKey(x: number, z: number, dimension: number): string {
+  return dimensionChunkKey(dimension, x, z);
+}
+
+// Helper function to get the colors, biomes, spawnable columns, ores and version of a cached chunk in a map layer
+function getCachedChunkData(x: number, z: number, dimension: number, layer: MapLayer = SURFACE_LAYER): ChunkData | null {
+  const cached = chunkCache.get(x, z, dimension);
+  if (!cached || !cached.success) return null;
+
+  const processed = chunkProcessor.processChunkComplete(cached);
+  if (!processed.chunkData) return null;
+
+  const layerData = layer.mode === 'cave' ? chunkProcessor.processLayer(cached, layer.y) : processed.chunkData;
+  if (!layerData) return null;
+
+  const chunkData: ChunkData = {
+    x: layerData.chunkX,
+    z: layerData.chunkZ,
+    dimension: layerData.dimension,
+    colors: layerData.colors,
+    heights: layerData.heights,
+    biomes: processed.chunkData.biomes,
+    spawnable: layerData.spawnable,
+    ores: processed.oreData?.ores || []
+  };
+  chunkData.version = getChunkVersion(chunkData);
+  return chunkData;
+}
+
+// Helper function to convert a batch update for binary web clients
+function toBinaryBatchUpdate({ updates, ...batch }: BatchUpdateData): BinaryBatchUpdateData {
+  const chunks: ChunkData[] = [];
+  const deltas: ChunkDelta[] = [];
+  for (const update of updates) {
+    if (update.updateType === 'full') {
+      chunks.push(update.chunk);
+    } else {
+      deltas.push(update.delta);
+    }
+  }
+
+  return {
+    ...batch,
+    ...toBinaryChunkBatch(chunks, config.chunkDeflateThreshold),
+    deltas
+  };
+}
+
+// Helper function to queue the border columns of the chunks east and south of a chunk, their
+// hill shading depends on its heights, and the columns around it its light sources make spawnable or not
+function queueNeighbourShading(chunkX: number, chunkZ: number, dimension: number) {
+  const neighbours = [
+    ...chunkProcessor.reshadeNeighbours(chunkX, chunkZ, dimension),
+    ...chunkProcessor.relightNeighbours(chunkX, chunkZ, dimension)
+  ];
+  for (const neighbour of neighbours) {
+    tileRenderer.invalidateChunk(neighbour.chunkX, neighbour.chunkZ, dimension);
+    const version = getCachedChunkData(neighbour.chunkX, neighbour.chunkZ, dimension)?.version;
+    chunkUpdateBatcher.addDelta(getChunkKey(neighbour.chunkX, neighbour.chunkZ, dimension), {
+      x: neighbour.chunkX,
+      z: neighbour.chunkZ,
+      dimension,
+      columns: neighbour.columns,
+      version
+    });
+  }
+}
+
+// Helper function to turn chunk updates into whole chunks of a cave layer, surface updates are kept
+function toLayerUpdates(updates: ChunkUpdateEntry[], layer: MapLayer): ChunkUpdateEntry[] {
+  if (layer.mode === 'surface') return updates;
+
+  const layerUpdates: ChunkUpdateEntry[] = [];
+  for (const update of updates) {
+    const { x, z, dimension } = update.updateType === 'full' ? update.chunk : update.delta;
+    const chunk = getCachedChunkData(x, z, dimension ?? 0, layer);
+    if (chunk) {
+      layerUpdates.push({ chunk, timestamp: update.timestamp, updateType: 'full' });
+    }
+  }
+  return layerUpdates;
+}
+
+// Helper function to check if a block other than foliage is above the player
+function isUnderRoof(position: PlayerPosition): boolean {
+  const blockX = Math.floor(position.x);
+  const blockZ = Math.floor(position.z);
+  const chunkX = Math.floor(blockX / 16);
+  const chunkZ = Math.floor(blockZ / 16);
+  const column = world.getLoadedColumn(chunkX, chunkZ, position.dimension ?? 0);
+  if (!column) return false;
+
+  return chunkProcessor.hasRoof(column, blockX - chunkX * 16, Math.floor(position.y), blockZ - chunkZ * 16);
+}
+
+// Helper function to update whether the player is under a roof, a change only counts once it held
+// for AUTO_LAYER_DWELL_MS so walking under overhangs and trees does not switch the auto view
+function updatePlayerUnderRoof(now: number): boolean {
+  const underRoof = isUnderRoof(currentPlayerPosition);
+  if (underRoof !== roofSeen) {
+    roofSeen = underRoof;
+    roofSeenSince = now;
+  }
+  if (roofSeen === playerUnderRoof || now - roofSeenSince < AUTO_LAYER_DWELL_MS) return false;
+
+  playerUnderRoof = roofSeen;
+  return true;
+}
+
+// Helper function to pick the layer for a layer setting, auto keeps its cave start while the player
+// stays within the step below it
+function resolveMapLayer(setting: MapLayerSetting, current: MapLayer): MapLayer {
+  if (setting.mode !== 'auto') return setting;
+  if (!playerUnderRoof) return SURFACE_LAYER;
+
+  const y = Math.floor(currentPlayerPosition.y) + AUTO_CAVE_HEADROOM;
+  if (current.mode === 'cave' && y <= current.y && y > current.y - AUTO_CAVE_STEP) return current;
+  return { mode: 'cave', y: Math.ceil(y / AUTO_CAVE_STEP) * AUTO_CAVE_STEP };
+}
+
+// Helper function to switch a web client to the layer its setting resolves to, the client is told
+// and the chunks in its view are sent again
+function updateClientLayer(socket: WebSocket): boolean {
+  const client = clientStateManager.getClient(socket.id);
+  if (!client) return false;
+
+  const layer = resolveMapLayer(client.layerSetting, client.layer);
+  if (!clientStateManager.setLayer(socket.id, layer)) return false;
+
+  socket.emit("map-layer", layer);
+  sendViewportChunks(socket);
+  return true;
+}
+
+// Cached chunks in view each web client was not sent yet, closest first. Their colours are only
+// computed when their batch goes out, so a new viewport or layer costs a bounded amount per batch
+const viewportQueues = new Map<string, string[]>();
+
+// Drain timers of web clients with queued chunks in view left to send
+const viewportDrainTimers = new Map<string, NodeJS.Timeout>();
+
+// Helper function to queue the cached chunks in view a web client was not sent yet, the closest batch
+// goes out on the next turn of the event loop and the rest drain on later ticks
+function sendViewportChunks(socket: WebSocket) {
+  const area = clientStateManager.getViewportArea(socket.id);
+  if (!area) return;
+
+  const centerX = (area.minChunkX + area.maxChunkX) / 2;
+  const centerZ = (area.minChunkZ + area.maxChunkZ) / 2;
+  const distance = (chunk: ChunkCoordinate) => (chunk.x - centerX) ** 2 + (chunk.z - centerZ) ** 2;
+  const needed: ChunkCoordinate[] = [];
+  const missing: ChunkCoordinate[] = [];
+
+  for (let x = area.minChunkX; x <= area.maxChunkX; x++) {
+    for (let z = area.minChunkZ; z <= area.maxChunkZ; z++) {
+      // Chunks in view that are not cached may have been explored in a previous session
+      if (!chunkCache.has(x, z, area.dimension)) {
+        missing.push({ x, z, dimension: area.dimension });
+      } else if (clientStateManager.needsChunk(socket.id, getChunkKey(x, z, area.dimension))) {
+        needed.push({ x, z, dimension: area.dimension });
+      }
+    }
+  }
+
+  needed.sort((a, b) => distance(a) - distance(b));
+  viewportQueues.set(socket.id, needed.map(chunk => getChunkKey(chunk.x, chunk.z, area.dimension)));
+  scheduleViewportBatch(socket, 0);
+
+  missing.sort((a, b) => distance(a) - distance(b));
+  requestChunksFromProxy(missing);
+}
+
+// Helper function to send the next batch of a web client's viewport queue after a delay
+function scheduleViewportBatch(socket: WebSocket, delay: number) {
+  clearTimeout(viewportDrainTimers.get(socket.id));
+  viewportDrainTimers.set(socket.id, setTimeout(() => sendViewportBatch(socket), delay));
+}
+
+// Helper function to send the next CHUNK_BATCH_SIZE chunks in view, closest first, and schedule the
+// next batch while more are left
+function sendViewportBatch(socket: WebSocket) {
+  viewportDrainTimers.delete(socket.id);
+  const queue = viewportQueues.get(socket.id);
+  if (!socket.connected || !queue) return;
+
+  const layer = clientStateManager.getClient(socket.id)?.layer ?? SURFACE_LAYER;
+  let queued = 0;
+  while (queue.length > 0 && queued < CHUNK_BATCH_SIZE) {
+    const key = queue.shift()!;
+    // The view may have moved or the chunk arrived with a tick since it was queued
+    if (!clientStateManager.needsChunk(socket.id, key)) continue;
+
+    const { dimension, x, z } = parseDimensionChunkKey(key);
+    const chunkData = getCachedChunkData(x, z, dimension, layer);
+    if (chunkData) {
+      clientStateManager.addPendingUpdate(socket.id, key, {
+        chunk: chunkData,
+        timestamp: Date.now(),
+        updateType: 'full'
+      });
+      queued++;
+    }
+  }
+
+  const updates = toLayerUpdates(clientStateManager.takeUpdates(socket.id, CHUNK_BATCH_SIZE), layer);
+  if (updates.length > 0) {
+    sendBatchUpdate(socket, {
+      updates,
+      playerPosition: currentPlayerPosition,
+      batchId: generateBatchId(),
+      timestamp: Date.now()
+    });
+  }
+
+  if (queue.length > 0 || updates.length === CHUNK_BATCH_SIZE) {
+    scheduleViewportBatch(socket, VIEWPORT_DRAIN_DELAY_MS);
+  } else {
+    viewportQueues.delete(socket.id);
+  }
+}
+
+// Helper function to ask the proxy for chunks it may have loaded or saved on disk, chunks asked for
+// within REQUESTED_CHUNK_TTL_MS and not answered yet are skipped
+function requestChunksFromProxy(chunks: ChunkCoordinate[]) {
+  const now = Date.now();
+  for (const [key, requestedAt] of requestedChunks) {
+    if (now - requestedAt >= REQUESTED_CHUNK_TTL_MS) {
+      requestedChunks.delete(key);
+    }
+  }
+
+  const requests: ChunkCoordinate[] = [];
+  for (const chunk of chunks) {
+    if (requests.length >= MAX_REQUESTED_CHUNKS) break;
+
+    const key = getChunkKey(chunk.x, chunk.z, chunk.dimension ?? 0);
+    if (requestedChunks.has(key)) continue;
+    requestedChunks.set(key, now);
+    requests.push({ x: chunk.x, z: chunk.z, dimension: chunk.dimension ?? 0 });
+  }
+
+  if (requests.length > 0) {
+    proxySocket.emit("request-chunks", requests);
+  }
+}
+
+// Helper function to send a batch update to a web client in the chunk encoding it negotiated
+function sendBatchUpdate(socket: WebSocket, batch: BatchUpdateData) {
+  if (socket.data.chunkEncoding === "binary") {
+    socket.emit('batch-update-binary', toBinaryBatchUpdate(batch));
+  } else {
+    socket.emit('batch-update', batch);
+  }
+  clientStateManager.setLastBatchId(socket.id, batch.batchId);
+
+  // Track performance metrics
+  if (batch.updates.length > 0) {
+    const estimatedBytes = JSON.stringify(batch).length;
+    const savedBytes = batch.updates.length * 500; // Estimate 500 bytes per individual chunk event
+    performanceMonitor.recordBatchSent(batch.updates.length, savedBytes - estimatedBytes);
+  }
+}
+
+// Map tiles are served at /tiles/{dimension}/{zoom}/{x}/{z}.png
+const TILE_PATH = /^\/tiles\/(-?\d+)\/(-?\d+)\/(-?\d+)\/(-?\d+)\.png$/;
+
+// Helper function to answer HTTP requests that are not for Socket.io, tiles without explored chunks are 404
+async function handleHttpRequest(req: IncomingMessage, res: ServerResponse) {
+  const match = req.method === "GET" ? TILE_PATH.exec(new URL(req.url ?? "/", "http://localhost").pathname) : null;
+  const [dimension, zoom, x, z] = match ? match.slice(1).map(Number) : [];
+  let tile: Buffer | null = null;
+  try {
+    tile = match ? await tileRenderer.renderTile(dimension, zoom, x, z) : null;
+  } catch (error) {
+    console.error(`❌ Error rendering tile ${req.url}:`, error);
+  }
+
+  if (!tile) {
+    res.writeHead(404, { "Content-Type": "text/plain" });
+    res.end("Not found");
+    return;
+  }
+
+  // Tiles change while the world is explored
+  res.writeHead(200, {
+    "Content-Type": "image/png",
+    "Content-Length": tile.length,
+    "Cache-Control": "no-cache"
+  });
+  res.end(tile);
 }
 
 // Helper function to generate batch IDs
@@ -116,7 +460,8 @@ proxySocket.on("player-position", (data) => {
     Math.abs(currentPlayerPosition.y - data.y) > epsilon ||
     Math.abs(currentPlayerPosition.z - data.z) > epsilon ||
     Math.abs(currentPlayerPosition.pitch - data.pitch) > epsilon ||
-    Math.abs(currentPlayerPosition.yaw - data.yaw) > epsilon;
+    Math.abs(currentPlayerPosition.yaw - data.yaw) > epsilon ||
+    (data.dimension ?? 0) !== currentPlayerPosition.dimension;
 
   if (positionChanged) {
     // Update current position with all coordinates
@@ -125,55 +470,120 @@ proxySocket.on("player-position", (data) => {
       y: data.y,
       z: data.z,
       pitch: data.pitch,
-      yaw: data.yaw
+      yaw: data.yaw,
+      dimension: data.dimension ?? 0
     };
   }
+  // Checked on every tick, the dwell time also runs out while the player stands still
+  const roofChanged = updatePlayerUnderRoof(Date.now());
 
-  // Get pending chunk updates from batcher
-  const batchSize = parseInt(process.env.CHUNK_BATCH_SIZE || '50');
-  const updates = chunkUpdateBatcher.getBatch(batchSize);
-
-  // If we have updates or position changed, broadcast to all clients
-  if (updates.length > 0 || positionChanged) {
-    const batchData: BatchUpdateData = {
-      updates: updates,
-      playerPosition: {
-        x: data.x,
-        y: data.y,
-        z: data.z,
-        pitch: data.pitch,
-        yaw: data.yaw
-      },
-      batchId: generateBatchId(),
-      timestamp: Date.now()
-    };
+  // Hand pending chunk updates from the batcher to the clients that hold or see the chunks
+  for (const update of chunkUpdateBatcher.getBatch(chunkUpdateBatcher.getPendingCount())) {
+    const chunk = update.updateType === 'full' ? update.chunk : update.delta;
+    clientStateManager.queueUpdate(getChunkKey(chunk.x, chunk.z, chunk.dimension ?? 0), update);
+  }
 
-    // Broadcast to all connected clients
-    webServer.emit('batch-update', batchData);
+  // Each client gets the updates in or near its viewport, closest first
+  const playerPosition: PlayerPosition = {
+    x: data.x,
+    y: data.y,
+    z: data.z,
+    pitch: data.pitch,
+    yaw: data.yaw,
+    dimension: data.dimension ?? 0
+  };
+  webServer.sockets.sockets.forEach(socket => {
+    // Clients on auto switch between surface and caves as the player moves, the chunks of a new
+    // layer are sent in batches after this tick
+    if (positionChanged || roofChanged) {
+      updateClientLayer(socket);
+    }
 
-    // Track performance metrics
-    if (updates.length > 0) {
-      const estimatedBytes = JSON.stringify(batchData).length;
-      const savedBytes = updates.length * 500; // Estimate 500 bytes per individual chunk event
-      performanceMonitor.recordBatchSent(updates.length, savedBytes - estimatedBytes);
+    const layer = clientStateManager.getClient(socket.id)?.layer ?? SURFACE_LAYER;
+    const updates = toLayerUpdates(clientStateManager.takeUpdates(socket.id, CHUNK_BATCH_SIZE), layer);
+    if (updates.length > 0 || positionChanged) {
+      sendBatchUpdate(socket, {
+        updates,
+        playerPosition,
+        batchId: generateBatchId(),
+        timestamp: Date.now()
+      });
     }
-  }
+  });
 });
 
 // Legacy chunkUpdate handler removed - chunks now come through chunk-data event
 
+// Relay session this server follows, the proxy sends the session list on connect and whenever it changes
+let followedSessionId: string | null = null;
+// Minecraft version the followed session's binary chunks are encoded with
+let followedSessionVersion: string | null = null;
+
+/**
+ * Follow the configured player when they are connected, otherwise keep the
+ * current session or fall back to the oldest one
+ */
+function pickSession(sessions: SessionInfo[]): SessionInfo | null {
+  const preferred = config.followPlayer
+    ? sessions.find(session => session.playerName === config.followPlayer)
+    : undefined;
+  return preferred ?? sessions.find(session => session.id === followedSessionId) ?? sessions[0] ?? null;
+}
+
+proxySocket.on("sessions-update", (sessions: SessionInfo[]) => {
+  const session = pickSession(sessions);
+  if ((session?.id ?? null) === followedSessionId) return;
+
+  followedSessionId = session?.id ?? null;
+  followedSessionVersion = session?.version ?? null;
+  requestedChunks.clear();
+  if (!session) {
+    console.log(`⏳ No relay session to follow`);
+    return;
+  }
+
+  console.log(`🎯 Following session ${session.playerName ?? session.id}`);
+
+  // Sessions play on the same server so chunks are kept, only the player specific state is replaced
+  entities.clear();
+  players = [];
+  webServer.emit("entities-update", { full: true, entities: [], removed: [] });
+  webServer.emit("players-update", players);
+  webServer.emit("special-points", getSpecialPoints());
+  proxySocket.emit("subscribe", session.id);
+});
+
+proxySocket.on("disconnect", () => {
+  // Subscriptions are lost with the connection, pick a session again from the next session list
+  followedSessionId = null;
+  followedSessionVersion = null;
+  requestedChunks.clear();
+});
+
 proxySocket.on("world-reset", () => {
   console.log(`🔄 World reset received`);
 
   // Clear all caches
   chunkCache.clear();
+  requestedChunks.clear();
+  tileRenderer.clearCache();
   chunkProcessor.clearCache();
+  chunkUpdateBatcher.clear();
+  clientStateManager.clearChunkState();
 
   // Reset minimap state
-  currentPlayerPosition = { x: 0, y: 64, z: 0, pitch: 0, yaw: 0 };
+  currentPlayerPosition = { x: 0, y: 64, z: 0, pitch: 0, yaw: 0, dimension: 0 };
   chunkStorage.clear();
+  entities.clear();
+  players = [];
+  if (followedSessionId) {
+    specialPointsBySession.delete(followedSessionId);
+  }
   // Notify web clients
+  webServer.emit("world-reset");
   webServer.emit("player-move", currentPlayerPosition);
+  webServer.emit("entities-update", { full: true, entities: [], removed: [] });
+  webServer.emit("players-update", players);
 });
 
 proxySocket.on("connection-status", (status) => {
@@ -188,15 +598,84 @@ proxySocket.on("connection-status", (status) => {
   });
 });
 
+// Last replay status from the proxy, null unless it is replaying a packet dump
+let replayStatus: ReplayStatus | null = null;
+
+proxySocket.on("replay-status", (status: ReplayStatus) => {
+  replayStatus = status;
+  webServer.emit("replay-status", status);
+});
+
+// Entity table mirrored from the proxy, so new web clients get the current entities right away
+const entities = new Map<string, TrackedEntity>();
+
+proxySocket.on("entities-update", (update: EntitiesUpdate) => {
+  if (update.full) {
+    entities.clear();
+  }
+  for (const entity of update.entities) {
+    entities.set(entity.id, entity);
+  }
+  for (const id of update.removed) {
+    entities.delete(id);
+  }
+  webServer.emit("entities-update", update);
+});
+
+// Last player list from the proxy
+let players: PlayerInfo[] = [];
+
+proxySocket.on("players-update", (update: PlayerInfo[]) => {
+  players = update;
+  webServer.emit("players-update", players);
+});
+
+// Death and spawn points recorded per relay session, kept when switching to another session
+const specialPointsBySession = new Map<string, SpecialPoints>();
+
+function getSpecialPoints(): SpecialPoints {
+  const points = followedSessionId ? specialPointsBySession.get(followedSessionId) : undefined;
+  return points ?? { death: null, spawn: null, spawnIsBed: false };
+}
+
+proxySocket.on("special-points", (points: SpecialPoints) => {
+  if (!followedSessionId) return;
+
+  specialPointsBySession.set(followedSessionId, points);
+  webServer.emit("special-points", getSpecialPoints());
+});
+
 // Handle chunk data responses from proxy
 proxySocket.on("chunk-data", (chunks: ChunkResponse[]) => {
-  for (const chunk of chunks) {
-    chunkProcessor.invalidateChunks([{ x: chunk.chunkX, z: chunk.chunkZ }])
-    chunkCache.set(chunk.chunkX, chunk.chunkZ, chunk);
+  handleChunkResponses(chunks, chunks.map(chunk =>
+    chunk.success && chunk.data ? ChunkColumn.fromJson(chunk.data) as unknown as BedrockChunk : null
+  ));
+});
+proxySocket.on("chunk-data-binary", async (chunks: BinaryChunkResponse[]) => {
+  if (!followedSessionVersion) return;
+
+  try {
+    handleChunkResponses(chunks.map(({ data, ...chunk }) => ({ ...chunk, data: null })), await fromBinaryChunkResponses(chunks, followedSessionVersion));
+  } catch (error) {
+    console.error("❌ Failed to decode binary chunks:", error);
+  }
+});
+
+// Helper function to load chunk responses with their decoded columns, the columns are kept live in the world
+// and the chunk cache only holds the responses without their JSON. Unsuccessful responses, for chunks the
+// proxy does not have, only end their request
+function handleChunkResponses(chunks: ChunkResponse[], columns: Array<BedrockChunk | null>) {
+  for (const [i, chunk] of chunks.entries()) {
+    requestedChunks.delete(getChunkKey(chunk.chunkX, chunk.chunkZ, chunk.dimension));
+    if (!chunk.success) continue;
+
+    tileRenderer.invalidateChunk(chunk.chunkX, chunk.chunkZ, chunk.dimension);
+    chunkProcessor.invalidateChunks([{ x: chunk.chunkX, z: chunk.chunkZ, dimension: chunk.dimension }])
+    chunkCache.set(chunk.chunkX, chunk.chunkZ, { ...chunk, data: null });
 
-    if (chunk.success && chunk.data) {
-      const chunkJson = ChunkColumn.fromJson(chunk.data) as unknown as BedrockChunk;
-      world.setColumn(chunk.chunkX, chunk.chunkZ, chunkJson);
+    const chunkJson = columns[i];
+    if (chunk.success && chunkJson) {
+      world.setLoadedColumn(chunk.chunkX, chunk.chunkZ, chunkJson, true, chunk.dimension);
 
       // Process chunk completely (colors + ores in one pass)
       const processed = chunkProcessor.processChunkComplete(chunk);
@@ -205,48 +684,102 @@ proxySocket.on("chunk-data", (chunks: ChunkResponse[]) => {
         const processedData: ChunkData = {
           x: processed.chunkData.chunkX,
           z: processed.chunkData.chunkZ,
+          dimension: processed.chunkData.dimension,
           colors: processed.chunkData.colors,
           heights: processed.chunkData.heights,
+          biomes: processed.chunkData.biomes,
+          spawnable: processed.chunkData.spawnable,
           ores: processed.oreData?.ores || []
         };
+        processedData.version = getChunkVersion(processedData);
 
         // Always add to update batcher for proactive sending
-        const chunkKey = getChunkKey(processed.chunkData.chunkX, processed.chunkData.chunkZ);
-        chunkUpdateBatcher.addUpdate(chunkKey, processedData, 'full');
+        const chunkKey = getChunkKey(processed.chunkData.chunkX, processed.chunkData.chunkZ, processed.chunkData.dimension);
+        chunkUpdateBatcher.addUpdate(chunkKey, processedData);
+        queueNeighbourShading(chunk.chunkX, chunk.chunkZ, chunk.dimension);
 
         // Store ore data separately for quick lookup if needed
         if (processed.oreData) {
-          oreChunkStorage.set(getChunkKey(chunk.chunkX, chunk.chunkZ), processed.oreData);
+          oreChunkStorage.set(getChunkKey(chunk.chunkX, chunk.chunkZ, chunk.dimension), processed.oreData);
         }
       } else if (chunkJson && (chunkJson as any).sections && (chunkJson as any).sections.length == 0) {
-        const chunkKey = getChunkKey(chunk.chunkX, chunk.chunkZ);
-        chunkCache.invalidate([{x: chunk.chunkX, z: chunk.chunkZ}])
-        chunkProcessor.invalidateChunks([{ x: chunk.chunkX, z: chunk.chunkZ }])
+        const chunkKey = getChunkKey(chunk.chunkX, chunk.chunkZ, chunk.dimension);
+        chunkCache.invalidate([{x: chunk.chunkX, z: chunk.chunkZ, dimension: chunk.dimension}])
+        chunkProcessor.invalidateChunks([{ x: chunk.chunkX, z: chunk.chunkZ, dimension: chunk.dimension }])
         oreChunkStorage.delete(chunkKey);
         chunkUpdateBatcher.addUpdate(chunkKey, {
           x: chunk.chunkX,
           z: chunk.chunkZ,
+          dimension: chunk.dimension,
           colors: [],
           heights: [],
           ores: []
-        }, 'full');
+        });
       }
     }
   }
+}
+
+// Handle block changes from proxy, only the changed columns are processed and sent to web clients
+proxySocket.on("block-changes", (changes: ChunkBlockChanges[]) => {
+  for (const { chunkX, chunkZ, dimension, blocks } of changes) {
+    const column = world.getLoadedColumn(chunkX, chunkZ, dimension);
+    const cached = chunkCache.get(chunkX, chunkZ, dimension);
+    // Unknown columns arrive whole with the next chunk-data
+    if (!column || !cached) continue;
+
+    const columns = new Map<number, { x: number; z: number }>();
+    for (const block of blocks) {
+      const x = block.x - chunkX * 16;
+      const z = block.z - chunkZ * 16;
+      column.setBlockStateId({ x, y: block.y, z, l: block.layer }, block.stateId);
+      columns.set(x * 16 + z, { x, z });
+    }
+    tileRenderer.invalidateChunk(chunkX, chunkZ, dimension);
+
+    const chunkKey = getChunkKey(chunkX, chunkZ, dimension);
+    const updates = chunkProcessor.processColumns(column, chunkX, chunkZ, dimension, Array.from(columns.values()));
+    if (updates) {
+      const version = getCachedChunkData(chunkX, chunkZ, dimension)?.version;
+      chunkUpdateBatcher.addDelta(chunkKey, { x: chunkX, z: chunkZ, dimension, columns: updates, version });
+      queueNeighbourShading(chunkX, chunkZ, dimension);
+      continue;
+    }
+
+    // Chunks that were empty so far have not been sent, send them whole
+    chunkProcessor.invalidateChunks([{ x: chunkX, z: chunkZ, dimension }]);
+    const chunkData = getCachedChunkData(chunkX, chunkZ, dimension);
+    if (chunkData) {
+      chunkUpdateBatcher.addUpdate(chunkKey, chunkData);
+      queueNeighbourShading(chunkX, chunkZ, dimension);
+    }
+  }
 });
 
 // Handle web client connections
 webServer.on("connection", (socket) => {
   console.log(`✅ Web client connected: ${socket.id}`);
 
-  // Add client to state manager for performance tracking
-  clientStateManager.addClient(socket.id, socket.id);
+  socket.data.chunkEncoding = getChunkEncoding(socket.handshake.auth);
+  socket.data.clientId = typeof socket.handshake.auth.clientId === "string" ? socket.handshake.auth.clientId : socket.id;
+
+  // Track the client in the state manager, a client reconnecting within the grace period after its
+  // old socket disconnected keeps its viewport, layer and pending updates
+  const previousState = clientStateManager.getClientByClientId(socket.data.clientId);
+  if (previousState) {
+    console.log(`🔁 Web client ${socket.id} takes over the state of ${previousState.socketId}`);
+  }
+  clientStateManager.handleReconnection(socket.id, socket.data.clientId);
 
   // Define cleanup function for this socket
   const cleanup = () => {
     socket.removeAllListeners();
     socketCleanup.delete(socket.id);
-    clientStateManager.removeClient(socket.id);
+    clientStateManager.disconnectClient(socket.id);
+    chunkProcessor.setSpawnOverlay(clientStateManager.isSpawnOverlayShown());
+    clearTimeout(viewportDrainTimers.get(socket.id));
+    viewportDrainTimers.delete(socket.id);
+    viewportQueues.delete(socket.id);
   };
   socketCleanup.set(socket.id, cleanup);
 
@@ -259,53 +792,112 @@ webServer.on("connection", (socket) => {
   // Always emit player position
   socket.emit("player-move", currentPlayerPosition);
 
-  // Send all cached chunks to new client as a batch update
-  const allChunks: ChunkUpdateEntry[] = [];
+  if (replayStatus) {
+    socket.emit("replay-status", replayStatus);
+  }
+
+  socket.emit("entities-update", { full: true, entities: Array.from(entities.values()), removed: [] });
+  socket.emit("players-update", players);
+  socket.emit("special-points", getSpecialPoints());
 
-  chunkCache.getCachedChunkKeys().forEach(key => {
-    const [x, z] = key.split(',').map(Number);
-    const cached = chunkCache.get(x, z);
+  // Handle client events
+  socket.on("minimap-click", (position) => {
+    console.log(`🖱️  Minimap clicked at ${position.x}, ${position.y} by ${socket.id}`);
 
-    if (cached && cached.success && cached.data) {
-      const processed = chunkProcessor.processChunkComplete(cached);
+    // In a real implementation, this might teleport or focus the player
+    // For now, just log it
+  });
 
-      if (processed.chunkData) {
-        const chunkData: ChunkData = {
-          x: processed.chunkData.chunkX,
-          z: processed.chunkData.chunkZ,
-          colors: processed.chunkData.colors,
-          heights: processed.chunkData.heights,
-          ores: processed.oreData?.ores || []
-        };
+  // A reconnected client reports the chunks it kept, only new and changed chunks are sent again
+  socket.on("resync-chunks", (chunks) => {
+    const held = new Map<string, number>();
+    for (const chunk of chunks) {
+      held.set(getChunkKey(chunk.x, chunk.z, chunk.dimension), chunk.version);
+    }
 
-        allChunks.push({
-          chunk: chunkData,
-          timestamp: Date.now(),
-          updateType: 'full'
-        });
+    const layer = clientStateManager.getClient(socket.id)?.layer ?? SURFACE_LAYER;
+    const upToDate = clientStateManager.resyncChunks(socket.id, held, (key) => {
+      const { dimension, x, z } = parseDimensionChunkKey(key);
+      return getCachedChunkData(x, z, dimension, layer)?.version;
+    });
+    console.log(`🔄 Client ${socket.id} resynced, ${upToDate} of ${held.size} held chunks are up to date`);
+  });
+
+  // The client is always told the resolved layer, a changed layer also resends the chunks in view
+  socket.on("map-layer-setting", (setting) => {
+    clientStateManager.setLayerSetting(socket.id, setting);
+    if (!updateClientLayer(socket)) {
+      socket.emit("map-layer", clientStateManager.getClient(socket.id)?.layer ?? SURFACE_LAYER);
+    }
+  });
+
+  // Spawnable columns are only found while a client shows the spawn overlay, a client turning
+  // it on is sent the chunks in view again with theirs
+  socket.on("spawn-overlay", (enabled) => {
+    const changed = clientStateManager.setSpawnOverlay(socket.id, enabled);
+    chunkProcessor.setSpawnOverlay(clientStateManager.isSpawnOverlayShown());
+    if (changed && enabled) {
+      sendViewportChunks(socket);
+    }
+  });
+
+  // Cached chunks that came into view are sent right away closest first, later updates of
+  // the view follow with the player position ticks
+  socket.on("viewport-update", (viewport) => {
+    clientStateManager.setViewport(socket.id, viewport);
+    sendViewportChunks(socket);
+  });
+
+  // Chunks a client panned to on the world map, chunks that are not cached are asked from the proxy and arrive with later batch updates
+  socket.on("request-chunks", (chunks) => {
+    const layer = clientStateManager.getClient(socket.id)?.layer ?? SURFACE_LAYER;
+    const found: ChunkData[] = [];
+    const missing: ChunkCoordinate[] = [];
+    for (const chunk of chunks.slice(0, MAX_REQUESTED_CHUNKS)) {
+      const chunkData = getCachedChunkData(chunk.x, chunk.z, chunk.dimension ?? 0, layer);
+      if (chunkData) {
+        found.push(chunkData);
+        clientStateManager.markChunkSent(socket.id, getChunkKey(chunkData.x, chunkData.z, chunkData.dimension ?? 0), Date.now());
+      } else {
+        missing.push(chunk);
+      }
+    }
+    requestChunksFromProxy(missing);
+
+    if (found.length > 0) {
+      if (socket.data.chunkEncoding === "binary") {
+        socket.emit("chunk-data-binary", toBinaryChunkBatch(found, config.chunkDeflateThreshold));
+      } else {
+        socket.emit("chunk-data", found);
       }
     }
   });
 
-  if (allChunks.length > 0) {
-    // Send initial chunks as a batch update
-    const initialBatch: BatchUpdateData = {
-      updates: allChunks,
-      playerPosition: currentPlayerPosition,
-      batchId: generateBatchId(),
-      timestamp: Date.now()
-    };
+  socket.emit("waypoints-update", waypointStore.getAll());
 
-    socket.emit('batch-update', initialBatch);
-    console.log(`✅ Sent ${allChunks.length} cached chunks to new client ${socket.id}`);
-  }
+  // Waypoint changes are applied by the server and the full list is sent to every client
+  socket.on("waypoint-add", (waypoint) => {
+    const added = waypointStore.add(waypoint);
+    if (!added) return;
+    console.log(`📍 Waypoint "${added.name}" added at ${added.x}, ${added.y}, ${added.z}`);
+    webServer.emit("waypoints-update", waypointStore.getAll());
+  });
 
-  // Handle client events
-  socket.on("minimap-click", (position) => {
-    console.log(`🖱️  Minimap clicked at ${position.x}, ${position.y} by ${socket.id}`);
+  socket.on("waypoint-update", (waypoint) => {
+    if (waypointStore.update(waypoint)) {
+      webServer.emit("waypoints-update", waypointStore.getAll());
+    }
+  });
 
-    // In a real implementation, this might teleport or focus the player
-    // For now, just log it
+  socket.on("waypoint-remove", (id) => {
+    if (waypointStore.remove(id)) {
+      webServer.emit("waypoints-update", waypointStore.getAll());
+    }
+  });
+
+  // Forward replay controls to the proxy
+  socket.on("replay-control", (command) => {
+    proxySocket.emit("replay-control", command);
   });
 
   // Handle disconnect
@@ -343,6 +935,9 @@ async function shutdown() {
   // Disconnect from proxy
   proxySocket.disconnect();
 
+  // Finish writing waypoints
+  await waypointStore.flush();
+
   // Close web server
   await new Promise<void>((resolve) => {
     webServer.close(() => {
@@ -354,4 +949,5 @@ async function shutdown() {
   process.exit(0);
 }
 
-console.log(`✅ Minimap Server ready - Web clients can connect on port ${config.port}`);
\ No newline at end of file
+console.log(`✅ Minimap Server ready - Web clients can connect on port ${config.port}`);
+console.log(`🗺️  Map tiles at http://localhost:${config.port}/tiles/{dimension}/{zoom}/{x}/{z}.png`);
\ No newline at end of file
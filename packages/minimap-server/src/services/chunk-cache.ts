@@ -1,6 +1,7 @@
-import { type ChunkResponse, type ChunkCoordinate, type ChunkUpdateEntry, type ChunkData, chunkCoordsToKey } from "@minecraft-bedrock-minimap/shared";import type { BedrockWorld } from "../world/BedrockWorld.ts";
+import { type ChunkResponse, type ChunkCoordinate, type ChunkUpdateEntry, type ChunkData, dimensionChunkKey } from "@minecraft-bedrock-minimap/shared";import type { BedrockWorld } from "../world/BedrockWorld.ts";
 ;
 
+// Responses are cached without their column JSON, the live column is kept in the world and dropped with the entry
 interface ChunkCacheEntry {
   data: ChunkResponse;
   timestamp: number;
@@ -23,10 +24,11 @@ export class ChunkCacheService {
    * Get a chunk from the cache
    * @param chunkX Chunk X coordinate
    * @param chunkZ Chunk Z coordinate
+   * @param dimension Dimension ID
    * @returns ChunkResponse if found, null otherwise
    */
-  get(chunkX: number, chunkZ: number): ChunkResponse | null {
-    const key = chunkCoordsToKey(chunkX, chunkZ);
+  get(chunkX: number, chunkZ: number, dimension: number): ChunkResponse | null {
+    const key = dimensionChunkKey(dimension, chunkX, chunkZ);
     const entry = this.cache.get(key);
 
     if (entry) {
@@ -43,10 +45,11 @@ export class ChunkCacheService {
    * Check if a chunk is stale
    * @param chunkX Chunk X coordinate
    * @param chunkZ Chunk Z coordinate
+   * @param dimension Dimension ID
    * @returns True if chunk is stale, false otherwise
    */
-  isStale(chunkX: number, chunkZ: number): boolean {
-    const key = chunkCoordsToKey(chunkX, chunkZ);
+  isStale(chunkX: number, chunkZ: number, dimension: number): boolean {
+    const key = dimensionChunkKey(dimension, chunkX, chunkZ);
     const entry = this.cache.get(key);
     return entry?.isStale ?? false;
   }
@@ -55,10 +58,10 @@ export class ChunkCacheService {
    * Set a chunk in the cache
    * @param chunkX Chunk X coordinate
    * @param chunkZ Chunk Z coordinate
-   * @param data Chunk response data
+   * @param data Chunk response data, keyed by its dimension
    */
   set(chunkX: number, chunkZ: number, data: ChunkResponse): void {
-    const key = chunkCoordsToKey(chunkX, chunkZ);
+    const key = dimensionChunkKey(data.dimension, chunkX, chunkZ);
 
     // Check if we need to evict entries
     if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
@@ -76,23 +79,19 @@ export class ChunkCacheService {
   }
 
   /**
-   * Invalidate specific chunks
+   * Invalidate specific chunks, their entries are marked stale and their live columns stay in the
+   * world so the chunks can be processed again
    * @param chunks Array of chunk coordinates to invalidate
    */
   invalidate(chunks: ChunkCoordinate[]): void {
     for (const chunk of chunks) {
-      const key = chunkCoordsToKey(chunk.x, chunk.z);
+      const key = dimensionChunkKey(chunk.dimension ?? 0, chunk.x, chunk.z);
       
       // Mark as stale instead of removing
       const cached = this.cache.get(key);
       if (cached) {
         cached.isStale = true;
       }
-
-      // Still need to invalidate in BedrockWorld for consistency
-      if (this.world && this.world.columns) {
-        delete this.world.columns[key];
-      }
     }
   }
 
@@ -142,7 +141,7 @@ export class ChunkCacheService {
   }
 
   /**
-   * Evict least recently used entry
+   * Evict least recently used entry together with its live column
    */
   private evictLRU(): void {
     let lruKey: string | null = null;
@@ -168,7 +167,7 @@ export class ChunkCacheService {
   }
 
   /**
-   * Get all cached chunk keys
+   * Get all cached chunk keys (format "dimension:x:z")
    */
   getCachedChunkKeys(): string[] {
     return Array.from(this.cache.keys());
@@ -177,8 +176,8 @@ export class ChunkCacheService {
   /**
    * Check if a chunk is cached
    */
-  has(chunkX: number, chunkZ: number): boolean {
-    const key = chunkCoordsToKey(chunkX, chunkZ);
+  has(chunkX: number, chunkZ: number, dimension: number): boolean {
+    const key = dimensionChunkKey(dimension, chunkX, chunkZ);
     return this.cache.has(key);
   }
 
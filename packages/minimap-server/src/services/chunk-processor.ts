@@ -1,17 +1,27 @@
-import type { ChunkResponse, ChunkData as ProcessedChunkData, ChunkOreData, OreLocation } from "@minecraft-bedrock-minimap/shared";
+import type { ChunkResponse, ChunkData as ProcessedChunkData, ChunkColumnUpdate, ChunkOreData, OreLocation } from "@minecraft-bedrock-minimap/shared";
 import {
   getBlockColorWithFallback,
   isOreBlock,
-  getOreType
+  getOreType,
+  dimensionChunkKey,
+  getBiomeInfo,
+  Dimension
 } from "@minecraft-bedrock-minimap/shared";
 import PrismarineRegistry, { type RegistryBedrock } from 'prismarine-registry';
 import PrismarineChunk, { type BedrockChunk } from 'prismarine-chunk';
+import { Vec3 } from 'vec3';
+import { getBiomeTint, getTintType, mixColors, WATER_BLOCKS } from '../utils/biome-tints.js';
+import { SpawnLightMapper } from './spawn-light.js';
+import type { BedrockWorld } from "../world/BedrockWorld.ts";
 
 interface ChunkColorData {
   chunkX: number;
   chunkZ: number;
+  dimension: number;
   colors: string[][];
   heights?: number[][];
+  biomes?: number[][];
+  spawnable?: number[];
 }
 
 export interface ProcessedChunkWithOres {
@@ -19,31 +29,147 @@ export interface ProcessedChunkWithOres {
   oreData: ChunkOreData | null;
 }
 
+// Cave layers kept per chunk, the oldest is dropped first
+const MAX_CACHED_LAYERS = 4;
+
+// Columns without a floor below the cave start are solid rock
+const SOLID_COLOR = '#1c1c1c';
+
+// Blocks a player can stand under without being underground
+const ROOF_IGNORED_BLOCKS = /leaves|_log|vine|glass|snow_layer/;
+
+// Height of columns without blocks
+const VOID_HEIGHT = -64;
+
+// Brightness change per block of slope towards the north west, and its limit
+const SLOPE_SHADE = 0.06;
+const MAX_SLOPE_SHADE = 0.25;
+
+// Share of the biome colour in tinted grass, foliage and water
+const TINT_WEIGHT = 0.6;
+
+// Water shows the floor below it up to this opacity at one block deep, deeper water is darker
+const SHALLOW_WATER_OPACITY = 0.5;
+const MAX_WATER_DARKENING = 0.5;
+
+// Top of the Nether, its surface is the first floor below the bedrock ceiling
+const NETHER_CEILING_Y = 127;
+
+// Nether blocks share few map colours, these keep netherrack, soul sand, basalt and lava apart
+const NETHER_BLOCK_COLORS: Record<string, string> = {
+  netherrack: '#7a3434ff',
+  nether_gold_ore: '#8a4a2cff',
+  quartz_ore: '#a5807aff',
+  soul_sand: '#5b4535ff',
+  soul_soil: '#4a3a2eff',
+  basalt: '#56565cff',
+  polished_basalt: '#66666cff',
+  smooth_basalt: '#48484eff',
+  blackstone: '#2c2529ff',
+  gilded_blackstone: '#3d3026ff',
+  lava: '#e8621aff',
+  flowing_lava: '#e8621aff',
+  magma: '#9c4a1cff',
+  crimson_nylium: '#931f1fff',
+  warped_nylium: '#2b7468ff',
+  nether_wart_block: '#7c0d0dff',
+  warped_wart_block: '#16837dff',
+  crimson_stem: '#5c1d2dff',
+  warped_stem: '#3b3a52ff',
+  glowstone: '#f4cf7aff',
+  shroomlight: '#f19b4cff',
+  gravel: '#6e625eff',
+  bone_block: '#d6d0b8ff'
+};
+
 export class ChunkProcessor {
   private registry: RegistryBedrock;
   private ChunkColumn: typeof BedrockChunk;
   private chunkColorCache: Map<string, ChunkColorData>;
   private processedChunkCache: Map<string, ProcessedChunkWithOres>;
-
-  constructor() {
+  // Cave colour grids per chunk, keyed by the Y the cave scan starts at
+  private layerCache: Map<string, Map<number, ChunkColorData>>;
+  // Surface colours before hill shading, border columns are shaded again when a neighbour arrives
+  private baseColorCache: Map<string, string[][]>;
+  private world: BedrockWorld;
+  private spawnLightMapper: SpawnLightMapper;
+  // Chunks whose light sources changed, the spawnable columns around them are found again
+  private relightPending: Set<string>;
+  // Spawnable columns are only found while a web client shows the spawn overlay
+  private spawnOverlay: boolean;
+
+  constructor(world: BedrockWorld) {
     this.registry = PrismarineRegistry(`bedrock_1.21.93`) as any;
     this.ChunkColumn = (PrismarineChunk as any)(this.registry as any) as typeof BedrockChunk;
     this.chunkColorCache = new Map();
     this.processedChunkCache = new Map();
+    this.layerCache = new Map();
+    this.baseColorCache = new Map();
+    this.world = world;
+    this.spawnLightMapper = new SpawnLightMapper(this.registry, world);
+    this.relightPending = new Set();
+    this.spawnOverlay = false;
+  }
+
+  /**
+   * Turn finding spawnable columns on or off. Turned off, the spawnable columns and light sources
+   * found so far are dropped as they are no longer kept up to date; turned on, chunks processed
+   * in the meantime find theirs the next time they are read
+   */
+  setSpawnOverlay(enabled: boolean): void {
+    if (enabled === this.spawnOverlay) return;
+    this.spawnOverlay = enabled;
+
+    if (!enabled) {
+      for (const [cacheKey, cached] of this.processedChunkCache) {
+        if (!cached.chunkData?.spawnable) continue;
+        const chunkData: ChunkColorData = { ...cached.chunkData, spawnable: undefined };
+        this.processedChunkCache.set(cacheKey, { ...cached, chunkData });
+        this.chunkColorCache.set(cacheKey, chunkData);
+      }
+      this.relightPending.clear();
+      this.spawnLightMapper.clearCache();
+    }
+    // Cave layers find their spawnable columns with their floors
+    this.layerCache.clear();
+  }
+
+  /**
+   * Whether the column of a chunk response can be read, from the world or the response JSON
+   */
+  private hasColumn(chunk: ChunkResponse): boolean {
+    return !!chunk.data || !!this.world.getLoadedColumn(chunk.chunkX, chunk.chunkZ, chunk.dimension);
+  }
+
+  /**
+   * Column of a chunk response: the live one in the world, which block changes are applied to,
+   * or decoded from the response JSON when the world does not have it
+   */
+  private getColumn(chunk: ChunkResponse): BedrockChunk {
+    return this.world.getLoadedColumn(chunk.chunkX, chunk.chunkZ, chunk.dimension)
+      ?? this.ChunkColumn.fromJson(chunk.data!) as unknown as BedrockChunk;
   }
 
   /**
    * Process a chunk completely - returns both chunk colors and ore data in one pass
    */
   processChunkComplete(chunk: ChunkResponse): ProcessedChunkWithOres {
-    if (!chunk.success || !chunk.data) {
+    if (!chunk.success || !this.hasColumn(chunk)) {
       return { chunkData: null, oreData: null };
     }
 
-    const cacheKey = `${chunk.chunkX},${chunk.chunkZ}`;
+    const cacheKey = dimensionChunkKey(chunk.dimension, chunk.chunkX, chunk.chunkZ);
 
     // Check cache first
-    const cached = this.processedChunkCache.get(cacheKey);
+    let cached = this.processedChunkCache.get(cacheKey);
+    if (cached?.chunkData?.heights && this.spawnOverlay && !cached.chunkData.spawnable) {
+      // Processed while no client showed the spawn overlay
+      const spawnable = this.getSpawnable(chunk.dimension, chunk.chunkX, chunk.chunkZ, cached.chunkData.heights);
+      const chunkData: ChunkColorData = { ...cached.chunkData, spawnable };
+      cached = { ...cached, chunkData };
+      this.processedChunkCache.set(cacheKey, cached);
+      this.chunkColorCache.set(cacheKey, chunkData);
+    }
     if (cached && cached.chunkData) {
       // For cached chunks, just update ore data with current player Y
       if (cached.oreData) {
@@ -58,72 +184,38 @@ export class ChunkProcessor {
     // Initialize arrays
     const colors: string[][] = Array(16).fill(null).map(() => Array(16).fill('#000000'));
     const heights: number[][] = Array(16).fill(null).map(() => Array(16).fill(-64));
+    const biomes: number[][] = Array(16).fill(null).map(() => Array(16).fill(0));
     const ores: OreLocation[] = [];
 
     try {
-      const chunkJson = this.ChunkColumn.fromJson(chunk.data) as unknown as BedrockChunk;
+      const chunkJson = this.getColumn(chunk);
       const sections = (chunkJson as any).sections;
 
       if (!sections || sections.length === 0) {
         return { chunkData: null, oreData: null };
       }
 
+      // Sort sections by Y coordinate (descending) to find surface
+      const sortedSections = [...sections].filter(s => s).sort((a, b) => b.y - a.y);
+
       // Single pass through all blocks
       for (let x = 0; x < 16; x++) {
         for (let z = 0; z < 16; z++) {
-          let foundSurface = false;
-
-          // Sort sections by Y coordinate (descending) to find surface
-          const sortedSections = [...sections].filter(s => s).sort((a, b) => b.y - a.y);
-
-          for (const subchunk of sortedSections) {
-            if (!subchunk) continue;
-
-
-            // Process blocks in this subchunk
-            for (let y = 15; y >= 0; y--) {
-              try {
-                const blockY = subchunk.y * 16 + y;
-                const stateId = subchunk.getBlockStateId(0, x, y, z);
-                const state = this.registry.blocksByStateId[stateId];
-
-                if (state && state.name && state.name !== 'air' && !state.name.includes('void_air')) {
-                  // Surface detection
-                  if (!foundSurface) {
-                    const baseColor = this.getBlockColor(state.name);
-                    heights[x][z] = blockY;
-                    colors[x][z] = this.applyHeightShading(baseColor, blockY);
-                    foundSurface = true;
-                  }
-
-                  // Ore detection (only in scan range)
-                  if (isOreBlock(state.name)) {
-                    const oreType = getOreType(state.name);
-                    if (oreType) {
-                      ores.push({
-                        x: chunk.chunkX * 16 + x,
-                        z: chunk.chunkZ * 16 + z,
-                        y: blockY,
-                        oreType,
-                        chunkX: chunk.chunkX,
-                        chunkZ: chunk.chunkZ
-                      });
-                    }
-                  }
-                }
-              } catch (err) {
-                continue;
-              }
-            }
-          }
+          const column = this.scanColumn(sortedSections, chunkJson, chunk.chunkX, chunk.chunkZ, chunk.dimension, x, z);
+          colors[x][z] = column.color;
+          heights[x][z] = column.height;
+          biomes[x][z] = column.biome;
+          ores.push(...column.ores);
         }
       }
 
       const processedData: ChunkColorData = {
         chunkX: chunk.chunkX,
         chunkZ: chunk.chunkZ,
-        colors,
-        heights
+        dimension: chunk.dimension,
+        colors: this.shadeChunk(colors, heights, chunk.dimension, chunk.chunkX, chunk.chunkZ),
+        heights,
+        biomes
       };
 
       // Check if chunk is empty
@@ -134,16 +226,22 @@ export class ChunkProcessor {
       const oreData: ChunkOreData = {
         chunkX: chunk.chunkX,
         chunkZ: chunk.chunkZ,
-        dimension: 0, // TODO: Get actual dimension
+        dimension: chunk.dimension,
         ores,
-        surfaceColors: colors
+        surfaceColors: processedData.colors
       };
 
       const result = { chunkData: processedData, oreData };
 
+      if (this.spawnOverlay && this.spawnLightMapper.updateLightSources(chunk.dimension, chunk.chunkX, chunk.chunkZ)) {
+        this.relightPending.add(cacheKey);
+      }
+      processedData.spawnable = this.getSpawnable(chunk.dimension, chunk.chunkX, chunk.chunkZ, heights);
+
       // Cache the result
       this.processedChunkCache.set(cacheKey, result);
       this.chunkColorCache.set(cacheKey, processedData);
+      this.baseColorCache.set(cacheKey, colors);
 
       return result;
     } catch (error) {
@@ -152,16 +250,546 @@ export class ChunkProcessor {
     }
   }
 
+  /**
+   * Recompute block columns of a processed chunk after block changes, the cached result is replaced
+   * @param column Chunk column with the changes applied
+   * @returns The new columns and the columns whose slope changed with them, null when the chunk
+   * was not processed yet or was empty
+   */
+  processColumns(
+    column: BedrockChunk,
+    chunkX: number,
+    chunkZ: number,
+    dimension: number,
+    columns: Array<{ x: number; z: number }>
+  ): ChunkColumnUpdate[] | null {
+    const cacheKey = dimensionChunkKey(dimension, chunkX, chunkZ);
+    const cached = this.processedChunkCache.get(cacheKey);
+    if (!cached?.chunkData?.heights) {
+      return null;
+    }
+
+    const sections: any[] = (column as any).sections ?? [];
+    const sortedSections = sections.filter(s => s).sort((a, b) => b.y - a.y);
+    const scanned = columns.map(({ x, z }) => ({
+      x,
+      z,
+      ...this.scanColumn(sortedSections, column, chunkX, chunkZ, dimension, x, z)
+    }));
+
+    // Patch copies, the previous result may still be queued for sending
+    const baseColors = (this.baseColorCache.get(cacheKey) ?? cached.chunkData.colors).map(row => [...row]);
+    const colors = cached.chunkData.colors.map(row => [...row]);
+    const heights = cached.chunkData.heights.map(row => [...row]);
+    for (const column of scanned) {
+      baseColors[column.x][column.z] = column.color;
+      heights[column.x][column.z] = column.height;
+    }
+
+    const changed = new Set(columns.map(({ x, z }) => x * 16 + z));
+    const ores = (cached.oreData?.ores ?? [])
+      .filter(ore => !changed.has((ore.x - chunkX * 16) * 16 + (ore.z - chunkZ * 16)))
+      .concat(scanned.flatMap(column => column.ores));
+
+    // The slopes of the columns east and south of a changed column change with it
+    const shaded = new Map<number, { x: number; z: number }>();
+    for (const { x, z } of columns) {
+      shaded.set(x * 16 + z, { x, z });
+      if (x < 15) shaded.set((x + 1) * 16 + z, { x: x + 1, z });
+      if (z < 15) shaded.set(x * 16 + z + 1, { x, z: z + 1 });
+    }
+
+    // Placed or removed light sources change columns anywhere in the chunk
+    if (this.spawnOverlay && this.spawnLightMapper.updateLightSources(dimension, chunkX, chunkZ)) {
+      this.relightPending.add(cacheKey);
+    }
+    const spawnable = this.getSpawnable(dimension, chunkX, chunkZ, heights);
+    for (const { x, z } of this.getChangedSpawnColumns(cached.chunkData.spawnable, spawnable)) {
+      shaded.set(x * 16 + z, { x, z });
+    }
+
+    const west = this.getProcessedHeights(dimension, chunkX - 1, chunkZ);
+    const north = this.getProcessedHeights(dimension, chunkX, chunkZ - 1);
+    const updates: ChunkColumnUpdate[] = [];
+    for (const { x, z } of shaded.values()) {
+      colors[x][z] = this.shadeColumn(baseColors[x][z], heights, x, z, dimension, west, north);
+      updates.push({
+        x,
+        z,
+        color: colors[x][z],
+        height: heights[x][z],
+        ores: this.getColumnOres(ores, chunkX, chunkZ, x, z),
+        spawnable: this.isSpawnable(spawnable, x, z)
+      });
+    }
+
+    const chunkData: ChunkColorData = { ...cached.chunkData, colors, heights, spawnable };
+    this.processedChunkCache.set(cacheKey, {
+      chunkData,
+      oreData: { chunkX, chunkZ, dimension, ores, surfaceColors: colors }
+    });
+    this.chunkColorCache.set(cacheKey, chunkData);
+    this.baseColorCache.set(cacheKey, baseColors);
+    this.layerCache.delete(cacheKey);
+
+    return updates;
+  }
+
+  /**
+   * Shade the border columns of the processed chunks east and south of a chunk again,
+   * their slopes depend on its heights
+   * @returns The columns whose colour changed, per neighbouring chunk
+   */
+  reshadeNeighbours(
+    chunkX: number,
+    chunkZ: number,
+    dimension: number
+  ): Array<{ chunkX: number; chunkZ: number; columns: ChunkColumnUpdate[] }> {
+    const neighbours = [
+      { chunkX: chunkX + 1, chunkZ, border: Array.from({ length: 16 }, (_, z) => ({ x: 0, z })) },
+      { chunkX, chunkZ: chunkZ + 1, border: Array.from({ length: 16 }, (_, x) => ({ x, z: 0 })) }
+    ];
+
+    const results: Array<{ chunkX: number; chunkZ: number; columns: ChunkColumnUpdate[] }> = [];
+    for (const neighbour of neighbours) {
+      const cacheKey = dimensionChunkKey(dimension, neighbour.chunkX, neighbour.chunkZ);
+      const cached = this.processedChunkCache.get(cacheKey);
+      const baseColors = this.baseColorCache.get(cacheKey);
+      const heights = cached?.chunkData?.heights;
+      if (!cached?.chunkData || !heights || !baseColors) continue;
+
+      const west = this.getProcessedHeights(dimension, neighbour.chunkX - 1, neighbour.chunkZ);
+      const north = this.getProcessedHeights(dimension, neighbour.chunkX, neighbour.chunkZ - 1);
+      const colors = cached.chunkData.colors.map(row => [...row]);
+      const ores = cached.oreData?.ores ?? [];
+      const columns: ChunkColumnUpdate[] = [];
+      for (const { x, z } of neighbour.border) {
+        const color = this.shadeColumn(baseColors[x][z], heights, x, z, dimension, west, north);
+        if (color === colors[x][z]) continue;
+
+        colors[x][z] = color;
+        columns.push({
+          x,
+          z,
+          color,
+          height: heights[x][z],
+          ores: this.getColumnOres(ores, neighbour.chunkX, neighbour.chunkZ, x, z),
+          spawnable: this.isSpawnable(cached.chunkData.spawnable, x, z)
+        });
+      }
+      if (columns.length === 0) continue;
+
+      const chunkData: ChunkColorData = { ...cached.chunkData, colors };
+      this.processedChunkCache.set(cacheKey, {
+        chunkData,
+        oreData: cached.oreData && { ...cached.oreData, surfaceColors: colors }
+      });
+      this.chunkColorCache.set(cacheKey, chunkData);
+      results.push({ chunkX: neighbour.chunkX, chunkZ: neighbour.chunkZ, columns });
+    }
+
+    return results;
+  }
+
+  /**
+   * Find the spawnable columns of the processed chunks around a chunk again when its light
+   * sources changed, its light reaches into them
+   * @returns The columns whose spawnability changed, per neighbouring chunk
+   */
+  relightNeighbours(
+    chunkX: number,
+    chunkZ: number,
+    dimension: number
+  ): Array<{ chunkX: number; chunkZ: number; columns: ChunkColumnUpdate[] }> {
+    if (!this.relightPending.delete(dimensionChunkKey(dimension, chunkX, chunkZ))) {
+      return [];
+    }
+
+    const results: Array<{ chunkX: number; chunkZ: number; columns: ChunkColumnUpdate[] }> = [];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        if (dx === 0 && dz === 0) continue;
+
+        const neighbourX = chunkX + dx;
+        const neighbourZ = chunkZ + dz;
+        const cacheKey = dimensionChunkKey(dimension, neighbourX, neighbourZ);
+        const cached = this.processedChunkCache.get(cacheKey);
+        const heights = cached?.chunkData?.heights;
+        if (!cached?.chunkData || !heights) continue;
+
+        const spawnable = this.getSpawnable(dimension, neighbourX, neighbourZ, heights);
+        const changed = this.getChangedSpawnColumns(cached.chunkData.spawnable, spawnable);
+        if (changed.length === 0) continue;
+
+        const ores = cached.oreData?.ores ?? [];
+        const columns: ChunkColumnUpdate[] = changed.map(({ x, z }) => ({
+          x,
+          z,
+          color: cached.chunkData!.colors[x][z],
+          height: heights[x][z],
+          ores: this.getColumnOres(ores, neighbourX, neighbourZ, x, z),
+          spawnable: this.isSpawnable(spawnable, x, z)
+        }));
+
+        const chunkData: ChunkColorData = { ...cached.chunkData, spawnable };
+        this.processedChunkCache.set(cacheKey, { ...cached, chunkData });
+        this.chunkColorCache.set(cacheKey, chunkData);
+        // Cave layers find their own spawnable columns
+        this.layerCache.delete(cacheKey);
+        results.push({ chunkX: neighbourX, chunkZ: neighbourZ, columns });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Process the cave layer of a chunk, every column shows the first floor below startY:
+   * blocks from startY down are skipped until air, the next block below the air is the floor
+   * @returns Cached colours and floor heights, null when the chunk has no data
+   */
+  processLayer(chunk: ChunkResponse, startY: number): ChunkColorData | null {
+    if (!chunk.success || !this.hasColumn(chunk)) {
+      return null;
+    }
+
+    const cacheKey = dimensionChunkKey(chunk.dimension, chunk.chunkX, chunk.chunkZ);
+    const layers = this.layerCache.get(cacheKey) ?? new Map<number, ChunkColorData>();
+    const cached = layers.get(startY);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const chunkJson = this.getColumn(chunk);
+      const sections: any[] = (chunkJson as any).sections ?? [];
+      const sortedSections = sections.filter(s => s).sort((a, b) => b.y - a.y);
+
+      const colors: string[][] = Array(16).fill(null).map(() => Array(16).fill(SOLID_COLOR));
+      const heights: number[][] = Array(16).fill(null).map(() => Array(16).fill(startY));
+      const floors: Array<Array<number | null>> = Array(16).fill(null).map(() => Array(16).fill(null));
+      for (let x = 0; x < 16; x++) {
+        for (let z = 0; z < 16; z++) {
+          const floor = this.scanCaveColumn(sortedSections, chunk.dimension, x, z, startY);
+          if (floor) {
+            colors[x][z] = floor.color;
+            heights[x][z] = floor.height;
+            floors[x][z] = floor.height;
+          }
+        }
+      }
+
+      const layerData: ChunkColorData = {
+        chunkX: chunk.chunkX,
+        chunkZ: chunk.chunkZ,
+        dimension: chunk.dimension,
+        colors,
+        heights,
+        spawnable: this.spawnOverlay
+          ? this.spawnLightMapper.getSpawnable(chunk.dimension, chunk.chunkX, chunk.chunkZ, floors)
+          : undefined
+      };
+
+      layers.set(startY, layerData);
+      if (layers.size > MAX_CACHED_LAYERS) {
+        layers.delete(layers.keys().next().value!);
+      }
+      this.layerCache.set(cacheKey, layers);
+
+      return layerData;
+    } catch (error) {
+      console.error(`Error processing cave layer of chunk ${chunk.chunkX},${chunk.chunkZ}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check if a block other than foliage is above a position, the player is then underground
+   * @param column Chunk column the position is in
+   */
+  hasRoof(column: BedrockChunk, x: number, y: number, z: number): boolean {
+    const sections: any[] = (column as any).sections ?? [];
+
+    for (const subchunk of sections) {
+      if (!subchunk || subchunk.y * 16 + 15 <= y) continue;
+
+      for (let sy = 0; sy < 16; sy++) {
+        if (subchunk.y * 16 + sy <= y) continue;
+        try {
+          const state = this.registry.blocksByStateId[subchunk.getBlockStateId(0, x, sy, z)];
+          if (this.isSolidBlock(state?.name) && !ROOF_IGNORED_BLOCKS.test(state.name)) {
+            return true;
+          }
+        } catch (err) {
+          continue;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Find the first floor below startY in one block column, sections missing from the column are air
+   * @param sortedSections Sections of the chunk column sorted from the top down
+   */
+  private scanCaveColumn(
+    sortedSections: any[],
+    dimension: number,
+    x: number,
+    z: number,
+    startY: number
+  ): { color: string; height: number } | null {
+    let passedAir = false;
+    let nextY = startY;
+
+    for (const subchunk of sortedSections) {
+      const top = Math.min(subchunk.y * 16 + 15, startY);
+      if (top < subchunk.y * 16) continue;
+      // A gap between sections is air
+      if (top < nextY) passedAir = true;
+
+      for (let blockY = top; blockY >= subchunk.y * 16; blockY--) {
+        let name: string | undefined;
+        try {
+          name = this.registry.blocksByStateId[subchunk.getBlockStateId(0, x, blockY - subchunk.y * 16, z)]?.name;
+        } catch (err) {
+          continue;
+        }
+
+        if (!this.isSolidBlock(name)) {
+          passedAir = true;
+        } else if (passedAir) {
+          // Deeper floors are drawn darker
+          const depthShade = 1 - Math.min(0.6, (startY - blockY) / 40);
+          return { color: this.adjustColorBrightness(this.getBlockColor(name!, dimension), depthShade), height: blockY };
+        }
+      }
+
+      nextY = subchunk.y * 16 - 1;
+    }
+
+    return null;
+  }
+
+  /**
+   * Check if a block is anything but air
+   */
+  private isSolidBlock(name: string | undefined): name is string {
+    return !!name && name !== 'air' && !name.includes('void_air') && name !== 'cave_air';
+  }
+
+  /**
+   * Find the surface block and the ores of one block column, in the Nether the surface is the
+   * first floor below the ceiling and columns solid up to the ceiling are drawn as rock.
+   * Water is looked through down to its floor
+   * @param sortedSections Sections of the chunk column sorted from the top down
+   * @param column Chunk column the biomes are read from
+   * @returns Colour before hill shading, height, surface biome ID and ores of the column
+   */
+  private scanColumn(
+    sortedSections: any[],
+    column: BedrockChunk,
+    chunkX: number,
+    chunkZ: number,
+    dimension: number,
+    x: number,
+    z: number
+  ): { color: string; height: number; biome: number; ores: OreLocation[] } {
+    let color = '#000000';
+    let height = VOID_HEIGHT;
+    let biome: number | null = null;
+    let foundSurface = false;
+    let belowCeiling = dimension !== Dimension.NETHER;
+    let ceilingY: number | null = null;
+    let waterColor: string | null = null;
+    const ores: OreLocation[] = [];
+
+    for (const subchunk of sortedSections) {
+      // Process blocks in this subchunk
+      for (let y = 15; y >= 0; y--) {
+        try {
+          const blockY = subchunk.y * 16 + y;
+          const stateId = subchunk.getBlockStateId(0, x, y, z);
+          const state = this.registry.blocksByStateId[stateId];
+
+          if (state && state.name && state.name !== 'air' && !state.name.includes('void_air')) {
+            ceilingY ??= blockY;
+
+            // Surface detection, the height of water is its surface and the colour shows its depth
+            if (!foundSurface && belowCeiling) {
+              biome ??= this.getBiomeId(column, x, blockY, z);
+              const blockColor = this.getSurfaceColor(state.name, biome, dimension);
+              if (WATER_BLOCKS.test(state.name)) {
+                if (waterColor === null) {
+                  waterColor = blockColor;
+                  height = blockY;
+                }
+              } else {
+                color = waterColor === null ? blockColor : this.getWaterColor(waterColor, blockColor, height - blockY);
+                height = waterColor === null ? blockY : height;
+                foundSurface = true;
+              }
+            }
+
+            // Ore detection
+            if (isOreBlock(state.name)) {
+              const oreType = getOreType(state.name);
+              if (oreType) {
+                ores.push({
+                  x: chunkX * 16 + x,
+                  z: chunkZ * 16 + z,
+                  y: blockY,
+                  oreType,
+                  chunkX,
+                  chunkZ
+                });
+              }
+            }
+          } else if (blockY <= NETHER_CEILING_Y) {
+            belowCeiling = true;
+          }
+        } catch (err) {
+          continue;
+        }
+      }
+    }
+
+    if (!foundSurface && waterColor !== null) {
+      // Water down to the bottom of the world
+      color = this.getWaterColor(waterColor, waterColor, Infinity);
+    } else if (!foundSurface && ceilingY !== null) {
+      color = SOLID_COLOR;
+      height = ceilingY;
+    }
+
+    return { color, height, biome: biome ?? this.getBiomeId(column, x, height, z), ores };
+  }
+
+  /**
+   * Biome ID of a block, read from the chunk column like BedrockWorld.getBiome does, 0 when unknown.
+   * The IDs are the game's, the registry numbers its biomes differently so BEDROCK_BIOMES names them
+   */
+  private getBiomeId(column: BedrockChunk, x: number, y: number, z: number): number {
+    try {
+      return (column as any).getBiomeId(new Vec3(x, y, z)) ?? 0;
+    } catch (err) {
+      return 0;
+    }
+  }
+
+  /**
+   * Colour of a surface block, grass, foliage and water blend in the colour of their biome
+   */
+  private getSurfaceColor(blockName: string, biomeId: number, dimension: number): string {
+    const color = this.getBlockColor(blockName, dimension);
+    const tintType = getTintType(blockName);
+    const biome = getBiomeInfo(biomeId);
+    if (!tintType || !biome) {
+      return color;
+    }
+
+    return mixColors(color, getBiomeTint(biome, tintType), TINT_WEIGHT);
+  }
+
+  /**
+   * Colour of water over its floor, shallow water shows the floor and deep water is darker
+   * @param depth Water blocks above the floor
+   */
+  private getWaterColor(waterColor: string, floorColor: string, depth: number): string {
+    const opacity = Math.min(1, SHALLOW_WATER_OPACITY + (depth - 1) * 0.1);
+    const darkening = Math.min(MAX_WATER_DARKENING, depth / 32);
+    return this.adjustColorBrightness(mixColors(waterColor, floorColor, 1 - opacity), 1 - darkening);
+  }
+
+  /**
+   * Hill shade every column of a chunk, the border columns use the heights of the processed
+   * chunks to the west and north
+   */
+  private shadeChunk(baseColors: string[][], heights: number[][], dimension: number, chunkX: number, chunkZ: number): string[][] {
+    const west = this.getProcessedHeights(dimension, chunkX - 1, chunkZ);
+    const north = this.getProcessedHeights(dimension, chunkX, chunkZ - 1);
+    return baseColors.map((row, x) => row.map((color, z) => this.shadeColumn(color, heights, x, z, dimension, west, north)));
+  }
+
+  /**
+   * Shade a column by its height and by its slope, lit from the north west like in-game maps
+   * @param west Heights of the chunk to the west, without them the border has no slope
+   * @param north Heights of the chunk to the north
+   */
+  private shadeColumn(
+    color: string,
+    heights: number[][],
+    x: number,
+    z: number,
+    dimension: number,
+    west?: number[][],
+    north?: number[][]
+  ): string {
+    const height = heights[x][z];
+    const neighbourHeight = (neighbour: number | undefined) => {
+      return neighbour === undefined || neighbour <= VOID_HEIGHT ? height : neighbour;
+    };
+    const westHeight = neighbourHeight(x > 0 ? heights[x - 1][z] : west?.[15]?.[z]);
+    const northHeight = neighbourHeight(z > 0 ? heights[x][z - 1] : north?.[x]?.[15]);
+
+    const slope = (height - westHeight) + (height - northHeight);
+    const slopeShade = Math.max(1 - MAX_SLOPE_SHADE, Math.min(1 + MAX_SLOPE_SHADE, 1 + slope * SLOPE_SHADE));
+    return this.adjustColorBrightness(this.applyHeightShading(color, height, dimension), slopeShade);
+  }
+
+  /**
+   * Heights of a processed chunk, undefined when it was not processed
+   */
+  private getProcessedHeights(dimension: number, chunkX: number, chunkZ: number): number[][] | undefined {
+    return this.processedChunkCache.get(dimensionChunkKey(dimension, chunkX, chunkZ))?.chunkData?.heights;
+  }
+
+  /**
+   * Spawnable columns of a chunk's surface, columns without blocks have no floor. Undefined while
+   * no client shows the spawn overlay
+   */
+  private getSpawnable(dimension: number, chunkX: number, chunkZ: number, heights: number[][]): number[] | undefined {
+    if (!this.spawnOverlay) return undefined;
+    const floors = heights.map(row => row.map(height => height > VOID_HEIGHT ? height : null));
+    return this.spawnLightMapper.getSpawnable(dimension, chunkX, chunkZ, floors);
+  }
+
+  private isSpawnable(spawnable: number[] | undefined, x: number, z: number): boolean {
+    return !!spawnable && ((spawnable[x] >> z) & 1) === 1;
+  }
+
+  /**
+   * Columns whose spawn flag differs between two bitmaps
+   */
+  private getChangedSpawnColumns(previous: number[] | undefined, current: number[] | undefined): Array<{ x: number; z: number }> {
+    const changed: Array<{ x: number; z: number }> = [];
+    for (let x = 0; x < 16; x++) {
+      const diff = (previous?.[x] ?? 0) ^ (current?.[x] ?? 0);
+      for (let z = 0; z < 16; z++) {
+        if ((diff >> z) & 1) changed.push({ x, z });
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Ores of one block column of a chunk
+   */
+  private getColumnOres(ores: OreLocation[], chunkX: number, chunkZ: number, x: number, z: number): OreLocation[] {
+    return ores.filter(ore => ore.x === chunkX * 16 + x && ore.z === chunkZ * 16 + z);
+  }
+
   /**
    * Process a chunk response and convert it to color array format
    * (Legacy method - kept for compatibility)
    */
   processChunk(chunk: ChunkResponse): ChunkColorData | null {
-    if (!chunk.success || !chunk.data) {
+    if (!chunk.success || !this.hasColumn(chunk)) {
       return null;
     }
 
-    const cacheKey = `${chunk.chunkX},${chunk.chunkZ}`;
+    const cacheKey = dimensionChunkKey(chunk.dimension, chunk.chunkX, chunk.chunkZ);
 
     // Check cache first
     const cached = this.chunkColorCache.get(cacheKey);
@@ -178,7 +806,7 @@ export class ChunkProcessor {
       .map(() => Array(16).fill(-64));
 
     try {
-      const chunkJson = this.ChunkColumn.fromJson(chunk.data) as unknown as BedrockChunk;
+      const chunkJson = this.getColumn(chunk);
       // Find the highest non-air block for each x,z position
       for (let x = 0; x < 16; x++) {
         for (let z = 0; z < 16; z++) {
@@ -222,6 +850,7 @@ export class ChunkProcessor {
       const processedData: ChunkColorData = {
         chunkX: chunk.chunkX,
         chunkZ: chunk.chunkZ,
+        dimension: chunk.dimension,
         colors,
         heights
       };
@@ -246,7 +875,7 @@ export class ChunkProcessor {
    * Process a chunk specifically for ore detection - scans Y-range based on player position and offsets
    */
   processChunkForOres(chunk: ChunkResponse): ChunkOreData | null {
-    if (!chunk.success || !chunk.data) {
+    if (!chunk.success || !this.hasColumn(chunk)) {
       return null;
     }
 
@@ -256,7 +885,7 @@ export class ChunkProcessor {
       .map(() => Array(16).fill('#000000'));
 
     try {
-      const chunkJson = this.ChunkColumn.fromJson(chunk.data) as unknown as BedrockChunk;
+      const chunkJson = this.getColumn(chunk);
 
       // First pass: Find surface colors for context using subchunk iteration
       const sections = (chunkJson as any).sections;
@@ -338,7 +967,7 @@ export class ChunkProcessor {
       return {
         chunkX: chunk.chunkX,
         chunkZ: chunk.chunkZ,
-        dimension: 0, // Default to overworld, TODO: get from chunk data
+        dimension: chunk.dimension,
         ores,
         surfaceColors
       };
@@ -383,10 +1012,14 @@ export class ChunkProcessor {
   /**
    * Get block color with fallback
    */
-  private getBlockColor(blockName: string): string {
+  private getBlockColor(blockName: string, dimension: number = Dimension.OVERWORLD): string {
     // Remove minecraft: prefix if present
     const cleanName = blockName.replace('minecraft:', '');
 
+    if (dimension === Dimension.NETHER && NETHER_BLOCK_COLORS[cleanName]) {
+      return NETHER_BLOCK_COLORS[cleanName];
+    }
+
     // Use the shared utility function for consistent colors
     return getBlockColorWithFallback(cleanName);
   }
@@ -394,9 +1027,9 @@ export class ChunkProcessor {
   /**
    * Apply simple height-based shading
    */
-  private applyHeightShading(color: string, y: number): string {
-    // Normalize height from -64 to 320 range to 0-1
-    const normalizedHeight = (y + 64) / 384;
+  private applyHeightShading(color: string, y: number, dimension: number = Dimension.OVERWORLD): string {
+    // Normalize height from -64 to 320 range to 0-1, the Nether only spans 0 to 127
+    const normalizedHeight = dimension === Dimension.NETHER ? y / (NETHER_CEILING_Y + 1) : (y + 64) / 384;
 
     // Apply subtle shading based on absolute height
     // Higher = brighter, lower = darker
@@ -449,12 +1082,15 @@ export class ChunkProcessor {
   /**
    * Invalidate cached chunks
    */
-  invalidateChunks(chunks: Array<{ x: number, z: number }>): void {
+  invalidateChunks(chunks: Array<{ x: number, z: number, dimension: number }>): void {
     for (const chunk of chunks) {
-      const cacheKey = `${chunk.x},${chunk.z}`;
+      const cacheKey = dimensionChunkKey(chunk.dimension, chunk.x, chunk.z);
       this.chunkColorCache.delete(cacheKey);
       this.processedChunkCache.delete(cacheKey);
+      this.layerCache.delete(cacheKey);
+      this.baseColorCache.delete(cacheKey);
     }
+    this.spawnLightMapper.invalidateChunks(chunks);
   }
 
   /**
@@ -463,6 +1099,10 @@ export class ChunkProcessor {
   clearCache(): void {
     this.chunkColorCache.clear();
     this.processedChunkCache.clear();
+    this.layerCache.clear();
+    this.baseColorCache.clear();
+    this.relightPending.clear();
+    this.spawnLightMapper.clearCache();
   }
 
   /**
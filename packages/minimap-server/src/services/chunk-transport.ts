@@ -0,0 +1,59 @@
+import { deflateSync, inflateSync } from "zlib";
+import PrismarineRegistry from "prismarine-registry";
+import PrismarineChunk, { type BedrockChunk } from "prismarine-chunk";
+import type { BinaryChunkBatch, BinaryChunkResponse, ChunkData } from "@minecraft-bedrock-minimap/shared";
+import { decodeColumnPayload, encodeChunkBatch } from "@minecraft-bedrock-minimap/shared";
+
+// Chunk column classes by Minecraft version
+const chunkColumns = new Map<string, typeof BedrockChunk>();
+
+/**
+ * Chunk column class decoding the columns of a Minecraft version. The proxy writes block state IDs
+ * where the network encoding has runtime IDs, so they map one to one in a registry of the same version
+ */
+function getChunkColumn(version: string): typeof BedrockChunk {
+  let ChunkColumn = chunkColumns.get(version);
+  if (!ChunkColumn) {
+    const registry = PrismarineRegistry(`bedrock_${version}`) as any;
+    registry.handleStartGame({ itemstates: [], block_network_ids_are_hashes: false });
+    ChunkColumn = (PrismarineChunk as any)(registry) as typeof BedrockChunk;
+    chunkColumns.set(version, ChunkColumn);
+  }
+  return ChunkColumn;
+}
+
+/**
+ * Decode a column sent by the proxy, see encodeColumnPayload for the format
+ */
+async function decodeColumn(ChunkColumn: typeof BedrockChunk, chunkX: number, chunkZ: number, data: Uint8Array): Promise<BedrockChunk> {
+  const column = new ChunkColumn({ x: chunkX, z: chunkZ }) as any;
+  const { sections, biomes } = decodeColumnPayload(inflateSync(data));
+
+  for (const { y, data: section } of sections) {
+    await column.networkDecodeSubChunkNoCache(y, Buffer.from(section.buffer, section.byteOffset, section.byteLength));
+    // The index is read back as an unsigned byte, chunk processing expects sections below Y 0 to be negative
+    column.getSectionAtIndex(y).y = y;
+  }
+  column.networkDecodeNoCache(Buffer.from(biomes.buffer, biomes.byteOffset, biomes.byteLength), -1);
+  return column as BedrockChunk;
+}
+
+/**
+ * Decode the columns of binary chunk responses from the proxy, null for chunks without data
+ * @param version Minecraft version of the session the chunks come from
+ */
+export function fromBinaryChunkResponses(chunks: BinaryChunkResponse[], version: string): Promise<Array<BedrockChunk | null>> {
+  const ChunkColumn = getChunkColumn(version);
+  return Promise.all(chunks.map(chunk => chunk.data ? decodeColumn(ChunkColumn, chunk.chunkX, chunk.chunkZ, chunk.data) : null));
+}
+
+/**
+ * Encode processed chunks for binary web clients, batches of at least deflateThreshold bytes are deflated
+ */
+export function toBinaryChunkBatch(chunks: ChunkData[], deflateThreshold: number): BinaryChunkBatch {
+  const encoded = encodeChunkBatch(chunks);
+  if (encoded.byteLength < deflateThreshold) {
+    return { chunks: encoded, deflated: false };
+  }
+  return { chunks: deflateSync(encoded), deflated: true };
+}
@@ -1,8 +1,10 @@
-import type { ChunkData, ChunkUpdateEntry } from "@minecraft-bedrock-minimap/shared";
+import type { ChunkData, ChunkDelta, ChunkUpdateEntry } from "@minecraft-bedrock-minimap/shared";
+import { applyChunkDelta, mergeChunkDeltas } from "@minecraft-bedrock-minimap/shared";
 
 /**
  * Batches chunk updates to reduce network traffic
- * Deduplicates updates for the same chunk keeping only the latest
+ * Deduplicates updates for the same chunk keeping only the latest, deltas are merged into
+ * the pending update of their chunk
  */
 export class ChunkUpdateBatcher {
   private updates = new Map<string, ChunkUpdateEntry>();
@@ -13,9 +15,8 @@ export class ChunkUpdateBatcher {
    * If an update for this chunk already exists, it will be replaced with the newer one
    * @param chunkKey Unique identifier for the chunk (e.g., "0,0" or "0:0:0")
    * @param chunk The chunk data
-   * @param updateType Whether this is a full chunk update or delta
    */
-  addUpdate(chunkKey: string, chunk: ChunkData, updateType: 'full' | 'delta' = 'full'): void {
+  addUpdate(chunkKey: string, chunk: ChunkData): void {
     // If update exists, keep the latest
     if (this.updates.has(chunkKey)) {
       // Remove from order to re-add at end
@@ -25,7 +26,43 @@ export class ChunkUpdateBatcher {
     this.updates.set(chunkKey, {
       chunk,
       timestamp: Date.now(),
-      updateType
+      updateType: 'full'
+    });
+    this.updateOrder.push(chunkKey);
+  }
+
+  /**
+   * Add changed columns of a chunk
+   * A pending full update gets the columns applied, a pending delta is merged with this one,
+   * both keep their place in the queue
+   * @param chunkKey Unique identifier for the chunk
+   * @param delta The changed columns
+   */
+  addDelta(chunkKey: string, delta: ChunkDelta): void {
+    const pending = this.updates.get(chunkKey);
+
+    if (pending?.updateType === 'full') {
+      this.updates.set(chunkKey, {
+        chunk: applyChunkDelta(pending.chunk, delta),
+        timestamp: Date.now(),
+        updateType: 'full'
+      });
+      return;
+    }
+
+    if (pending?.updateType === 'delta') {
+      this.updates.set(chunkKey, {
+        delta: mergeChunkDeltas(pending.delta, delta),
+        timestamp: Date.now(),
+        updateType: 'delta'
+      });
+      return;
+    }
+
+    this.updates.set(chunkKey, {
+      delta,
+      timestamp: Date.now(),
+      updateType: 'delta'
     });
     this.updateOrder.push(chunkKey);
   }
@@ -1,4 +1,11 @@
-import type { ChunkUpdateEntry } from "@minecraft-bedrock-minimap/shared";
+import type { ChunkUpdateEntry, ChunkViewport, MapLayer, MapLayerSetting } from "@minecraft-bedrock-minimap/shared";
+import { applyChunkDelta, mergeChunkDeltas, parseDimensionChunkKey, SURFACE_LAYER } from "@minecraft-bedrock-minimap/shared";
+
+// Chunks this far around a viewport are sent too, so panning a little does not show gaps
+const VIEWPORT_MARGIN_CHUNKS = 2;
+
+// Disconnected clients keep their state this long for a reconnection with the same client ID
+const RECONNECT_GRACE_MS = 60 * 1000;
 
 /**
  * Client state information
@@ -8,6 +15,10 @@ interface ClientState {
   clientId: string;
   sentChunks: Map<string, number>; // chunkKey -> timestamp
   pendingUpdates: Map<string, ChunkUpdateEntry>;
+  viewport: ChunkViewport | null;
+  layerSetting: MapLayerSetting;
+  layer: MapLayer;
+  spawnOverlay: boolean;
   lastBatchId: string;
   connectionTime: number;
 }
@@ -19,6 +30,8 @@ interface ClientState {
 export class ClientStateManager {
   private clients = new Map<string, ClientState>();
   private clientIdToSocketId = new Map<string, string>();
+  // Removal of disconnected clients by socket ID, cancelled when they reconnect
+  private removalTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
   /**
    * Add a new client to track
@@ -37,6 +50,10 @@ export class ClientStateManager {
       clientId,
       sentChunks: new Map(),
       pendingUpdates: new Map(),
+      viewport: null,
+      layerSetting: { mode: 'auto' },
+      layer: SURFACE_LAYER,
+      spawnOverlay: false,
       lastBatchId: '',
       connectionTime: Date.now()
     };
@@ -50,6 +67,9 @@ export class ClientStateManager {
    * @param socketId Socket.io connection ID
    */
   removeClient(socketId: string): void {
+    clearTimeout(this.removalTimers.get(socketId));
+    this.removalTimers.delete(socketId);
+
     const client = this.clients.get(socketId);
     if (client) {
       this.clientIdToSocketId.delete(client.clientId);
@@ -57,6 +77,17 @@ export class ClientStateManager {
     }
   }
 
+  /**
+   * Keep the state of a disconnected client for RECONNECT_GRACE_MS so that handleReconnection
+   * can hand it to the client's next socket, it is removed once the time is up
+   * @param socketId Socket.io connection ID
+   */
+  disconnectClient(socketId: string): void {
+    if (!this.clients.has(socketId) || this.removalTimers.has(socketId)) return;
+
+    this.removalTimers.set(socketId, setTimeout(() => this.removeClient(socketId), RECONNECT_GRACE_MS));
+  }
+
   /**
    * Get client state by socket ID
    * @param socketId Socket.io connection ID
@@ -154,6 +185,235 @@ export class ClientStateManager {
     }
   }
 
+  /**
+   * Set the chunk area a client shows
+   * @param socketId Socket.io connection ID
+   * @param viewport The reported viewport
+   */
+  setViewport(socketId: string, viewport: ChunkViewport): void {
+    const client = this.clients.get(socketId);
+    if (client) {
+      client.viewport = viewport;
+    }
+  }
+
+  /**
+   * Get the chunk area a client is sent chunks for, its viewport and the margin around it
+   * @param socketId Socket.io connection ID
+   * @returns The area, null until the client reports a viewport
+   */
+  getViewportArea(socketId: string): ChunkViewport | null {
+    const viewport = this.clients.get(socketId)?.viewport;
+    if (!viewport) return null;
+
+    return {
+      dimension: viewport.dimension,
+      minChunkX: viewport.minChunkX - VIEWPORT_MARGIN_CHUNKS,
+      maxChunkX: viewport.maxChunkX + VIEWPORT_MARGIN_CHUNKS,
+      minChunkZ: viewport.minChunkZ - VIEWPORT_MARGIN_CHUNKS,
+      maxChunkZ: viewport.maxChunkZ + VIEWPORT_MARGIN_CHUNKS
+    };
+  }
+
+  /**
+   * Set the layer a client asks for
+   * @param socketId Socket.io connection ID
+   * @param setting The requested layer, auto follows the player underground
+   */
+  setLayerSetting(socketId: string, setting: MapLayerSetting): void {
+    const client = this.clients.get(socketId);
+    if (client) {
+      client.layerSetting = setting;
+    }
+  }
+
+  /**
+   * Set the layer the chunks sent to a client show, a different layer forgets what was sent
+   * so the chunks in view go out again
+   * @param socketId Socket.io connection ID
+   * @param layer The resolved layer
+   * @returns True if the layer changed
+   */
+  setLayer(socketId: string, layer: MapLayer): boolean {
+    const client = this.clients.get(socketId);
+    if (!client || JSON.stringify(client.layer) === JSON.stringify(layer)) return false;
+
+    client.layer = layer;
+    client.sentChunks.clear();
+    client.pendingUpdates.clear();
+    return true;
+  }
+
+  /**
+   * Set whether a client shows the spawn overlay, showing it forgets what was sent so the chunks
+   * in view go out again with their spawnable columns
+   * @param socketId Socket.io connection ID
+   * @param enabled Whether the overlay is shown
+   * @returns True if it changed
+   */
+  setSpawnOverlay(socketId: string, enabled: boolean): boolean {
+    const client = this.clients.get(socketId);
+    if (!client || client.spawnOverlay === enabled) return false;
+
+    client.spawnOverlay = enabled;
+    if (enabled) {
+      client.sentChunks.clear();
+      client.pendingUpdates.clear();
+    }
+    return true;
+  }
+
+  /**
+   * Check if a connected client shows the spawn overlay
+   */
+  isSpawnOverlayShown(): boolean {
+    for (const client of this.clients.values()) {
+      if (client.spawnOverlay && !this.removalTimers.has(client.socketId)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Check if a chunk is in or near the viewport of a client, false until the client reports one
+   * @param socketId Socket.io connection ID
+   * @param chunkKey Chunk identifier
+   */
+  isNearViewport(socketId: string, chunkKey: string): boolean {
+    const viewport = this.clients.get(socketId)?.viewport;
+    if (!viewport) return false;
+
+    const { dimension, x, z } = parseDimensionChunkKey(chunkKey);
+    return dimension === viewport.dimension &&
+      x >= viewport.minChunkX - VIEWPORT_MARGIN_CHUNKS && x <= viewport.maxChunkX + VIEWPORT_MARGIN_CHUNKS &&
+      z >= viewport.minChunkZ - VIEWPORT_MARGIN_CHUNKS && z <= viewport.maxChunkZ + VIEWPORT_MARGIN_CHUNKS;
+  }
+
+  /**
+   * Check if a chunk near the viewport of a client has been neither sent nor queued for it
+   * @param socketId Socket.io connection ID
+   * @param chunkKey Chunk identifier
+   */
+  needsChunk(socketId: string, chunkKey: string): boolean {
+    const client = this.clients.get(socketId);
+    if (!client) return false;
+
+    return !client.sentChunks.has(chunkKey) &&
+      !client.pendingUpdates.has(chunkKey) &&
+      this.isNearViewport(socketId, chunkKey);
+  }
+
+  /**
+   * Queue a chunk update for every client that holds the chunk or has it in view
+   * Deltas are merged into a pending update of the chunk, deltas of chunks a client
+   * was never sent are dropped since the whole chunk goes out once it comes into view
+   * @param chunkKey Chunk identifier
+   * @param update The update to queue
+   */
+  queueUpdate(chunkKey: string, update: ChunkUpdateEntry): void {
+    this.clients.forEach(client => {
+      const pending = client.pendingUpdates.get(chunkKey);
+
+      if (update.updateType === 'full') {
+        if (pending || client.sentChunks.has(chunkKey) || this.isNearViewport(client.socketId, chunkKey)) {
+          client.pendingUpdates.set(chunkKey, update);
+        }
+      } else if (pending?.updateType === 'full') {
+        client.pendingUpdates.set(chunkKey, {
+          chunk: applyChunkDelta(pending.chunk, update.delta),
+          timestamp: update.timestamp,
+          updateType: 'full'
+        });
+      } else if (pending?.updateType === 'delta') {
+        client.pendingUpdates.set(chunkKey, {
+          delta: mergeChunkDeltas(pending.delta, update.delta),
+          timestamp: update.timestamp,
+          updateType: 'delta'
+        });
+      } else if (client.sentChunks.has(chunkKey)) {
+        client.pendingUpdates.set(chunkKey, update);
+      }
+    });
+  }
+
+  /**
+   * Take the pending updates of chunks in or near the viewport of a client, closest to the
+   * viewport center first, and mark them as sent
+   * Updates of chunks out of view stay pending until the client looks there again
+   * @param socketId Socket.io connection ID
+   * @param maxSize Maximum number of updates to return
+   * @returns Array of chunk updates to send
+   */
+  takeUpdates(socketId: string, maxSize: number): ChunkUpdateEntry[] {
+    const client = this.clients.get(socketId);
+    if (!client?.viewport) return [];
+
+    const centerX = (client.viewport.minChunkX + client.viewport.maxChunkX) / 2;
+    const centerZ = (client.viewport.minChunkZ + client.viewport.maxChunkZ) / 2;
+    const inView: Array<{ key: string; distance: number }> = [];
+    client.pendingUpdates.forEach((_, key) => {
+      if (!this.isNearViewport(socketId, key)) return;
+      const { x, z } = parseDimensionChunkKey(key);
+      inView.push({ key, distance: (x - centerX) ** 2 + (z - centerZ) ** 2 });
+    });
+
+    const now = Date.now();
+    return inView
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, maxSize)
+      .map(({ key }) => {
+        const update = client.pendingUpdates.get(key)!;
+        this.markChunkSent(socketId, key, now);
+        return update;
+      });
+  }
+
+  /**
+   * Replace what a reconnected client was sent with the chunks it still holds
+   * Chunks at their current version, or unknown to the server, count as sent. Outdated chunks
+   * are left unsent so they go out again once they are in view, pending deltas for them are
+   * dropped as they need the current chunk to apply to
+   * @param socketId Socket.io connection ID
+   * @param held Chunk key to version for the chunks the client holds
+   * @param getVersion Current version of a chunk, undefined when the server does not have it
+   * @returns Number of held chunks that are up to date
+   */
+  resyncChunks(socketId: string, held: Map<string, number>, getVersion: (chunkKey: string) => number | undefined): number {
+    const client = this.clients.get(socketId);
+    if (!client) return 0;
+
+    const now = Date.now();
+    let upToDate = 0;
+    client.sentChunks.clear();
+    held.forEach((version, key) => {
+      const current = getVersion(key);
+      if (current === undefined || current === version) {
+        client.sentChunks.set(key, now);
+        if (current !== undefined) {
+          client.pendingUpdates.delete(key);
+          upToDate++;
+        }
+      }
+    });
+
+    client.pendingUpdates.forEach((update, key) => {
+      if (update.updateType === 'delta' && !client.sentChunks.has(key)) {
+        client.pendingUpdates.delete(key);
+      }
+    });
+
+    return upToDate;
+  }
+
+  /**
+   * Forget the chunks sent to and queued for every client, used when the world is reset
+   */
+  clearChunkState(): void {
+    this.clients.forEach(client => {
+      client.sentChunks.clear();
+      client.pendingUpdates.clear();
+    });
+  }
+
   /**
    * Update the last batch ID for a client
    * @param socketId Socket.io connection ID
@@ -177,21 +437,28 @@ export class ClientStateManager {
   }
 
   /**
-   * Handle client reconnection by transferring state
-   * @param oldSocketId Previous socket ID
+   * Handle client reconnection by transferring state, from a socket that disconnected within
+   * RECONNECT_GRACE_MS or one that is still open
    * @param newSocketId New socket ID
    * @param clientId Client identifier
    */
-  handleReconnection(oldSocketId: string, newSocketId: string, clientId: string): void {
+  handleReconnection(newSocketId: string, clientId: string): void {
     const existingState = this.getClientByClientId(clientId);
     
     if (existingState) {
+      clearTimeout(this.removalTimers.get(existingState.socketId));
+      this.removalTimers.delete(existingState.socketId);
+
       // Transfer state to new socket
       const newState: ClientState = {
         socketId: newSocketId,
         clientId,
         sentChunks: new Map(existingState.sentChunks),
         pendingUpdates: new Map(existingState.pendingUpdates),
+        viewport: existingState.viewport,
+        layerSetting: existingState.layerSetting,
+        layer: existingState.layer,
+        spawnOverlay: existingState.spawnOverlay,
         lastBatchId: existingState.lastBatchId,
         connectionTime: Date.now()
       };
@@ -0,0 +1,288 @@
+import { dimensionChunkKey } from "@minecraft-bedrock-minimap/shared";
+import type { RegistryBedrock } from 'prismarine-registry';
+import type { BedrockChunk } from 'prismarine-chunk';
+import type { BedrockWorld } from "../world/BedrockWorld.ts";
+
+// Block light spreads at most this many blocks from a source
+const MAX_LIGHT = 15;
+
+// Light levels of lit blocks the registry lists as dark
+const EXTRA_LIGHT_LEVELS: Record<string, number> = {
+  lit_furnace: 13,
+  lit_blast_furnace: 13,
+  lit_smoker: 13,
+  lit_redstone_lamp: 15,
+  glow_lichen: 7
+};
+
+// Full blocks hostile mobs do not spawn on
+const NO_SPAWN_BLOCKS = /^(bedrock|barrier|magma)$/;
+
+const LIQUID_BLOCKS = /^(flowing_)?(water|lava)$/;
+
+// Leaves are looked through for the floor below a tree canopy
+const LEAF_BLOCKS = /leaves/;
+
+interface LightSource {
+  x: number;
+  y: number;
+  z: number;
+  level: number;
+}
+
+interface BlockLightInfo {
+  // Light lost when passing the block, MAX_LIGHT for blocks light does not pass
+  filter: number;
+  emit: number;
+  collides: boolean;
+  liquid: boolean;
+  leaves: boolean;
+  spawnFloor: boolean;
+}
+
+/**
+ * Finds the block columns hostile mobs can spawn on. Bedrock sends no light data, so block light
+ * is spread from the light sources of the loaded columns around a chunk. Sky light is left out,
+ * the result shows where mobs spawn at night
+ */
+export class SpawnLightMapper {
+  private registry: RegistryBedrock;
+  private world: BedrockWorld;
+  // Light sources per chunk, found once per column version
+  private lightSources: Map<string, LightSource[]>;
+  private blockInfo: Map<number, BlockLightInfo>;
+
+  constructor(registry: RegistryBedrock, world: BedrockWorld) {
+    this.registry = registry;
+    this.world = world;
+    this.lightSources = new Map();
+    this.blockInfo = new Map();
+  }
+
+  /**
+   * Find the spawnable columns of a loaded chunk
+   * @param floors Height each column is looked down from, null for columns without a floor
+   * @returns 16 row bitmasks with bit z of row x set for spawnable columns, undefined when the
+   * chunk is not loaded
+   */
+  getSpawnable(dimension: number, chunkX: number, chunkZ: number, floors: Array<Array<number | null>>): number[] | undefined {
+    const column = this.world.getLoadedColumn(chunkX, chunkZ, dimension);
+    if (!column) return undefined;
+
+    // The air block above each spawnable floor, lit or not
+    const targets: Array<{ x: number; z: number; y: number }> = [];
+    for (let x = 0; x < 16; x++) {
+      for (let z = 0; z < 16; z++) {
+        const floor = floors[x][z];
+        const y = floor === null ? null : this.findSpawnFloor(column, x, z, floor);
+        if (y !== null) targets.push({ x, z, y: y + 1 });
+      }
+    }
+
+    const spawnable: number[] = Array(16).fill(0);
+    if (targets.length === 0) return spawnable;
+
+    const light = this.spreadLight(dimension, chunkX, chunkZ, targets);
+    for (const { x, z, y } of targets) {
+      if (!light.get(this.lightKey(chunkX, chunkZ, chunkX * 16 + x, y, chunkZ * 16 + z))) {
+        spawnable[x] |= 1 << z;
+      }
+    }
+    return spawnable;
+  }
+
+  /**
+   * Find the light sources of a chunk again
+   * @returns Whether they changed, the spawnable columns of the chunks around it change with them
+   */
+  updateLightSources(dimension: number, chunkX: number, chunkZ: number): boolean {
+    const key = dimensionChunkKey(dimension, chunkX, chunkZ);
+    const previous = this.lightSources.get(key) ?? [];
+    this.lightSources.delete(key);
+    const sources = this.getLightSources(dimension, chunkX, chunkZ);
+
+    return sources.length !== previous.length || sources.some((source, i) => {
+      const other = previous[i];
+      return source.x !== other.x || source.y !== other.y || source.z !== other.z || source.level !== other.level;
+    });
+  }
+
+  /**
+   * Invalidate the light sources of chunks
+   */
+  invalidateChunks(chunks: Array<{ x: number; z: number; dimension?: number }>): void {
+    for (const chunk of chunks) {
+      this.lightSources.delete(dimensionChunkKey(chunk.dimension ?? 0, chunk.x, chunk.z));
+    }
+  }
+
+  /**
+   * Clear all light sources
+   */
+  clearCache(): void {
+    this.lightSources.clear();
+  }
+
+  /**
+   * Walk down from a height past leaves, plants, torches and other blocks without collision
+   * @returns Y of the floor when mobs can spawn on it with two blocks of room above, else null
+   */
+  private findSpawnFloor(column: BedrockChunk, x: number, z: number, fromY: number): number | null {
+    for (let y = fromY; y >= fromY - MAX_LIGHT; y--) {
+      const info = this.getBlockInfo(this.getStateId(column, x, y, z));
+      if (info.liquid) return null;
+      if (!info.collides || info.leaves) continue;
+
+      if (!info.spawnFloor) return null;
+      const above = this.getBlockInfo(this.getStateId(column, x, y + 1, z));
+      const headroom = this.getBlockInfo(this.getStateId(column, x, y + 2, z));
+      return above.collides || above.liquid || headroom.collides || headroom.liquid ? null : y;
+    }
+    return null;
+  }
+
+  /**
+   * Spread block light from the sources that can reach the targets, through the loaded columns
+   * @returns Light levels by lightKey(), missing entries are dark
+   */
+  private spreadLight(
+    dimension: number,
+    chunkX: number,
+    chunkZ: number,
+    targets: Array<{ x: number; z: number; y: number }>
+  ): Map<number, number> {
+    const minY = Math.min(...targets.map(target => target.y));
+    const maxY = Math.max(...targets.map(target => target.y));
+    const minX = chunkX * 16;
+    const minZ = chunkZ * 16;
+
+    // Sources whose light can reach the box around the targets
+    const levels: LightSource[][] = Array.from({ length: MAX_LIGHT + 1 }, () => []);
+    const light = new Map<number, number>();
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        for (const source of this.getLightSources(dimension, chunkX + dx, chunkZ + dz)) {
+          const distance = Math.max(0, minX - source.x, source.x - minX - 15)
+            + Math.max(0, minZ - source.z, source.z - minZ - 15)
+            + Math.max(0, minY - source.y, source.y - maxY);
+          if (distance >= source.level) continue;
+
+          const key = this.lightKey(chunkX, chunkZ, source.x, source.y, source.z);
+          if ((light.get(key) ?? 0) >= source.level) continue;
+          light.set(key, source.level);
+          levels[source.level].push(source);
+        }
+      }
+    }
+
+    // Brightest first, every block is spread from once at its final level
+    const columns = new Map<string, BedrockChunk | undefined>();
+    for (let level = MAX_LIGHT; level > 1; level--) {
+      for (const { x, y, z } of levels[level]) {
+        if (light.get(this.lightKey(chunkX, chunkZ, x, y, z)) !== level) continue;
+
+        for (const [nx, ny, nz] of [[x + 1, y, z], [x - 1, y, z], [x, y + 1, z], [x, y - 1, z], [x, y, z + 1], [x, y, z - 1]]) {
+          // Light does not leave the chunks around the targets
+          if (nx < minX - 16 || nx > minX + 31 || nz < minZ - 16 || nz > minZ + 31) continue;
+
+          const chunkKey = `${nx >> 4},${nz >> 4}`;
+          if (!columns.has(chunkKey)) {
+            columns.set(chunkKey, this.world.getLoadedColumn(nx >> 4, nz >> 4, dimension));
+          }
+          const column = columns.get(chunkKey);
+          // Columns that are not loaded block the light
+          if (!column) continue;
+
+          const info = this.getBlockInfo(this.getStateId(column, nx & 15, ny, nz & 15));
+          const next = level - 1 - info.filter;
+          const key = this.lightKey(chunkX, chunkZ, nx, ny, nz);
+          if (next <= 0 || (light.get(key) ?? 0) >= next) continue;
+
+          light.set(key, next);
+          levels[next].push({ x: nx, y: ny, z: nz, level: next });
+        }
+      }
+    }
+
+    return light;
+  }
+
+  /**
+   * Key of a block near a chunk, unique from 32 blocks before the chunk to 95 blocks past it on x and z
+   */
+  private lightKey(chunkX: number, chunkZ: number, x: number, y: number, z: number): number {
+    return ((x - chunkX * 16 + 32) * 128 + (z - chunkZ * 16 + 32)) * 1024 + y + 512;
+  }
+
+  /**
+   * Light sources of a loaded chunk, empty when it is not loaded. Sections whose palette
+   * has no light source are skipped
+   */
+  private getLightSources(dimension: number, chunkX: number, chunkZ: number): LightSource[] {
+    const key = dimensionChunkKey(dimension, chunkX, chunkZ);
+    const cached = this.lightSources.get(key);
+    if (cached) return cached;
+
+    const column = this.world.getLoadedColumn(chunkX, chunkZ, dimension);
+    if (!column) return [];
+
+    const sources: LightSource[] = [];
+    const sections: any[] = (column as any).sections ?? [];
+    for (const subchunk of sections) {
+      if (!subchunk) continue;
+
+      const palette: Array<{ stateId: number }> = subchunk.palette?.[0] ?? [];
+      if (!palette.some(entry => this.getBlockInfo(entry.stateId).emit > 0)) continue;
+
+      for (let x = 0; x < 16; x++) {
+        for (let y = 0; y < 16; y++) {
+          for (let z = 0; z < 16; z++) {
+            const emit = this.getBlockInfo(subchunk.getBlockStateId(0, x, y, z)).emit;
+            if (emit > 0) {
+              sources.push({ x: chunkX * 16 + x, y: subchunk.y * 16 + y, z: chunkZ * 16 + z, level: emit });
+            }
+          }
+        }
+      }
+    }
+
+    this.lightSources.set(key, sources);
+    return sources;
+  }
+
+  /**
+   * State ID of a block in a column, undefined for air in missing sections
+   */
+  private getStateId(column: BedrockChunk, x: number, y: number, z: number): number | undefined {
+    try {
+      return (column as any).getBlockStateId({ x, y, z, l: 0 });
+    } catch (err) {
+      return undefined;
+    }
+  }
+
+  /**
+   * How a block state passes, emits and collides with light and mobs, unknown states are air
+   */
+  private getBlockInfo(stateId: number | undefined): BlockLightInfo {
+    const key = stateId ?? -1;
+    const cached = this.blockInfo.get(key);
+    if (cached) return cached;
+
+    const block = stateId === undefined ? undefined : this.registry.blocksByStateId[stateId] as any;
+    const info: BlockLightInfo = block
+      ? {
+        filter: Math.min(block.filterLight ?? 0, MAX_LIGHT),
+        emit: EXTRA_LIGHT_LEVELS[block.name] ?? block.emitLight ?? 0,
+        collides: block.boundingBox === 'block',
+        liquid: LIQUID_BLOCKS.test(block.name),
+        leaves: LEAF_BLOCKS.test(block.name),
+        // Only full blocks light does not pass through, slabs, glass and leaves are not spawned on
+        spawnFloor: block.boundingBox === 'block' && block.filterLight >= MAX_LIGHT && !NO_SPAWN_BLOCKS.test(block.name)
+      }
+      : { filter: 0, emit: 0, collides: false, liquid: false, leaves: false, spawnFloor: false };
+
+    this.blockInfo.set(key, info);
+    return info;
+  }
+}
@@ -0,0 +1,216 @@
+import { setImmediate as yieldToEventLoop } from "timers/promises";
+import type { ChunkCacheService } from "./chunk-cache.js";
+import type { ChunkProcessor } from "./chunk-processor.js";
+import { encodePng } from "../utils/png-encoder.js";
+
+// Tiles are square images of this many pixels
+export const TILE_SIZE = 256;
+
+// Zoom 0 draws one pixel per block, every zoom level in doubles and every level out halves the scale
+export const MIN_TILE_ZOOM = -4;
+export const MAX_TILE_ZOOM = 4;
+
+// Encoded tiles kept for repeated requests, least recently used ones are dropped past this
+const MAX_CACHED_TILES = 256;
+
+// Raw pixels of tiles kept per zoom level below 0 to rebuild the level under them (256 KB each),
+// enough for the 64 zoom -1 tiles of a zoom -4 tile
+const MAX_CACHED_PIXEL_TILES = 64;
+
+// Chunks drawn between yields to the event loop
+const CHUNKS_PER_YIELD = 16;
+
+// Pixels of a tile, null when nothing in it was explored
+type TilePixels = Uint8Array | null;
+
+/**
+ * Parse a '#rrggbb' or '#rrggbbaa' colour into RGBA bytes, null when malformed
+ */
+function parseColor(color: string): [number, number, number, number] | null {
+  const rgb = parseInt(color.slice(1, 7), 16);
+  const alpha = color.length === 9 ? parseInt(color.slice(7, 9), 16) : 0xff;
+  if (color[0] !== '#' || Number.isNaN(rgb) || Number.isNaN(alpha)) return null;
+  return [(rgb >> 16) & 0xff, (rgb >> 8) & 0xff, rgb & 0xff, alpha];
+}
+
+/**
+ * Renders PNG map tiles of the explored world from the processed chunk colours,
+ * addressed like slippy map tiles with X to the east and Z to the south.
+ *
+ * Zoom 0 and closer tiles are drawn from chunks, farther tiles are downsampled from the four
+ * tiles of the zoom level above them. Tiles are cached until a chunk in them changes.
+ */
+export class TileRenderer {
+  private chunkCache: ChunkCacheService;
+  private chunkProcessor: ChunkProcessor;
+  // Encoded tiles, ordered from least to most recently used
+  private tiles: Map<string, Promise<Buffer | null>>;
+  // Pixels of tiles below zoom 0 by zoom level, ordered from least to most recently used
+  private pixelTiles: Map<number, Map<string, Promise<TilePixels>>>;
+
+  constructor(chunkCache: ChunkCacheService, chunkProcessor: ChunkProcessor) {
+    this.chunkCache = chunkCache;
+    this.chunkProcessor = chunkProcessor;
+    this.tiles = new Map();
+    this.pixelTiles = new Map();
+  }
+
+  /**
+   * Render one tile, null when the zoom is out of range or no chunk in the tile has been explored
+   */
+  renderTile(dimension: number, zoom: number, tileX: number, tileZ: number): Promise<Buffer | null> {
+    if (!Number.isInteger(zoom) || zoom < MIN_TILE_ZOOM || zoom > MAX_TILE_ZOOM) return Promise.resolve(null);
+
+    const key = this.getTileKey(dimension, zoom, tileX, tileZ);
+    return this.getCached(this.tiles, key, MAX_CACHED_TILES, async () => {
+      const pixels = zoom > 0
+        ? await this.drawChunks(dimension, zoom, tileX, tileZ)
+        : await this.getPixels(dimension, zoom, tileX, tileZ);
+      return pixels ? encodePng(TILE_SIZE, TILE_SIZE, pixels) : null;
+    });
+  }
+
+  /**
+   * Drop the cached tiles showing a chunk, on every zoom level
+   */
+  invalidateChunk(chunkX: number, chunkZ: number, dimension: number): void {
+    for (let zoom = MIN_TILE_ZOOM; zoom <= MAX_TILE_ZOOM; zoom++) {
+      const tileChunks = TILE_SIZE / 2 ** zoom / 16;
+      const key = this.getTileKey(dimension, zoom, Math.floor(chunkX / tileChunks), Math.floor(chunkZ / tileChunks));
+      this.tiles.delete(key);
+      this.pixelTiles.get(zoom)?.delete(key);
+    }
+  }
+
+  /**
+   * Drop every cached tile
+   */
+  clearCache(): void {
+    this.tiles.clear();
+    this.pixelTiles.clear();
+  }
+
+  /**
+   * Pixels of a zoom 0 or farther tile. Zoom 0 is drawn from chunks, farther tiles are downsampled
+   * from the four tiles of the zoom level above, so a changed chunk redraws one zoom 0 tile
+   */
+  private getPixels(dimension: number, zoom: number, tileX: number, tileZ: number): Promise<TilePixels> {
+    if (zoom === 0) return this.drawChunks(dimension, zoom, tileX, tileZ);
+
+    let cache = this.pixelTiles.get(zoom);
+    if (!cache) {
+      cache = new Map();
+      this.pixelTiles.set(zoom, cache);
+    }
+
+    const key = this.getTileKey(dimension, zoom, tileX, tileZ);
+    return this.getCached(cache, key, MAX_CACHED_PIXEL_TILES, async () => {
+      let rgba: Uint8Array | null = null;
+      const half = TILE_SIZE / 2;
+      for (let quadrant = 0; quadrant < 4; quadrant++) {
+        const childX = quadrant & 1;
+        const childZ = quadrant >> 1;
+        const child = await this.getPixels(dimension, zoom + 1, tileX * 2 + childX, tileZ * 2 + childZ);
+        if (!child) continue;
+
+        rgba ??= new Uint8Array(TILE_SIZE * TILE_SIZE * 4);
+        // A pixel shows the first block of its cell, the first pixel of each 2x2 square of the child
+        for (let z = 0; z < half; z++) {
+          for (let x = 0; x < half; x++) {
+            const from = (z * 2 * TILE_SIZE + x * 2) * 4;
+            const to = ((childZ * half + z) * TILE_SIZE + childX * half + x) * 4;
+            rgba.set(child.subarray(from, from + 4), to);
+          }
+        }
+      }
+      return rgba;
+    });
+  }
+
+  /**
+   * Draw the explored chunks of a zoom 0 or closer tile, yielding to the event loop between chunks
+   */
+  private async drawChunks(dimension: number, zoom: number, tileX: number, tileZ: number): Promise<TilePixels> {
+    const pixelsPerBlock = 2 ** zoom;
+    const tileBlocks = TILE_SIZE / pixelsPerBlock;
+    const originX = tileX * tileBlocks;
+    const originZ = tileZ * tileBlocks;
+
+    const rgba = new Uint8Array(TILE_SIZE * TILE_SIZE * 4);
+    let explored = false;
+    let drawn = 0;
+
+    const minChunkX = Math.floor(originX / 16);
+    const maxChunkX = Math.floor((originX + tileBlocks - 1) / 16);
+    const minChunkZ = Math.floor(originZ / 16);
+    const maxChunkZ = Math.floor((originZ + tileBlocks - 1) / 16);
+
+    for (let chunkX = minChunkX; chunkX <= maxChunkX; chunkX++) {
+      for (let chunkZ = minChunkZ; chunkZ <= maxChunkZ; chunkZ++) {
+        const cached = this.chunkCache.get(chunkX, chunkZ, dimension);
+        if (!cached) continue;
+
+        if (++drawn % CHUNKS_PER_YIELD === 0) {
+          await yieldToEventLoop();
+        }
+
+        const colors = this.chunkProcessor.processChunkComplete(cached).chunkData?.colors;
+        if (!colors || colors.length === 0) continue;
+        explored = true;
+
+        for (let x = 0; x < 16; x++) {
+          const blockX = chunkX * 16 + x;
+          if (blockX < originX || blockX >= originX + tileBlocks) continue;
+
+          for (let z = 0; z < 16; z++) {
+            const blockZ = chunkZ * 16 + z;
+            if (blockZ < originZ || blockZ >= originZ + tileBlocks) continue;
+
+            const color = parseColor(colors[x]?.[z] ?? '');
+            if (!color) continue;
+
+            const pixelX = (blockX - originX) * pixelsPerBlock;
+            const pixelZ = (blockZ - originZ) * pixelsPerBlock;
+            for (let py = pixelZ; py < pixelZ + pixelsPerBlock; py++) {
+              for (let px = pixelX; px < pixelX + pixelsPerBlock; px++) {
+                rgba.set(color, (py * TILE_SIZE + px) * 4);
+              }
+            }
+          }
+        }
+      }
+    }
+
+    return explored ? rgba : null;
+  }
+
+  /**
+   * Get a cached tile or build it, tiles requested again while being built share the build.
+   * A tile invalidated while it was built is not cached
+   */
+  private getCached<T>(cache: Map<string, Promise<T>>, key: string, maxSize: number, build: () => Promise<T>): Promise<T> {
+    let tile = cache.get(key);
+    if (tile) {
+      // Most recently used last
+      cache.delete(key);
+    } else {
+      const built = build();
+      // Failed builds are tried again on the next request
+      built.catch(() => {
+        if (cache.get(key) === built) cache.delete(key);
+      });
+      tile = built;
+    }
+    cache.set(key, tile);
+
+    for (const oldest of cache.keys()) {
+      if (cache.size <= maxSize) break;
+      cache.delete(oldest);
+    }
+    return tile;
+  }
+
+  private getTileKey(dimension: number, zoom: number, tileX: number, tileZ: number): string {
+    return `${dimension}:${zoom}:${tileX}:${tileZ}`;
+  }
+}
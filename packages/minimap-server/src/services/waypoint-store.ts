@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Waypoint, WaypointInput } from "@minecraft-bedrock-minimap/shared";
+
+/**
+ * Waypoints shared by every client of the minimap server, persisted to a JSON file
+ */
+export class WaypointStore {
+  private file: string;
+  private waypoints = new Map<string, Waypoint>();
+  // Loading and writes are chained so an older list never overwrites a newer one, and nothing is
+  // written before the saved list was read
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  /**
+   * Load waypoints saved by a previous run, a missing file starts an empty list. They are merged
+   * with the waypoints added while loading
+   */
+  load(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      try {
+        const saved = JSON.parse(await fs.readFile(this.file, "utf8")) as Waypoint[];
+        for (const waypoint of saved) {
+          if (!this.waypoints.has(waypoint.id)) {
+            this.waypoints.set(waypoint.id, waypoint);
+          }
+        }
+        console.log(`📍 Loaded ${saved.length} waypoints from ${this.file}`);
+      } catch (error: any) {
+        if (error.code !== "ENOENT") {
+          console.error(`❌ Failed to load waypoints from ${this.file}:`, error);
+        }
+      }
+    });
+    return this.saving;
+  }
+
+  getAll(): Waypoint[] {
+    return Array.from(this.waypoints.values());
+  }
+
+  /**
+   * Add a waypoint, returns null for payloads that are not objects
+   */
+  add(input: WaypointInput): Waypoint | null {
+    if (!this.isPayload(input)) return null;
+
+    const waypoint: Waypoint = { ...this.sanitize(input), id: randomUUID(), createdAt: Date.now() };
+    this.waypoints.set(waypoint.id, waypoint);
+    this.save();
+    return waypoint;
+  }
+
+  /**
+   * Replace an existing waypoint, returns false for unknown ids and payloads that are not objects
+   */
+  update(waypoint: Waypoint): boolean {
+    if (!this.isPayload(waypoint)) return false;
+
+    const existing = this.waypoints.get(waypoint.id);
+    if (!existing) return false;
+
+    this.waypoints.set(waypoint.id, { ...this.sanitize(waypoint), id: existing.id, createdAt: existing.createdAt });
+    this.save();
+    return true;
+  }
+
+  remove(id: string): boolean {
+    if (!this.waypoints.delete(id)) return false;
+    this.save();
+    return true;
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  /**
+   * Check a payload from a client before reading its fields
+   */
+  private isPayload(input: unknown): input is object {
+    return typeof input === "object" && input !== null && !Array.isArray(input);
+  }
+
+  private sanitize(input: WaypointInput): WaypointInput {
+    return {
+      name: String(input.name).trim().slice(0, 64) || "Waypoint",
+      x: Math.floor(Number(input.x) || 0),
+      y: Math.floor(Number(input.y) || 0),
+      z: Math.floor(Number(input.z) || 0),
+      dimension: Number(input.dimension) || 0,
+      color: String(input.color),
+      icon: String(input.icon)
+    };
+  }
+
+  private save() {
+    this.saving = this.saving.then(async () => {
+      try {
+        const data = JSON.stringify(this.getAll(), null, 2);
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        // Write to a temporary file first so a crash never leaves a truncated list
+        const tempFile = `${this.file}.tmp`;
+        await fs.writeFile(tempFile, data);
+        await fs.rename(tempFile, this.file);
+      } catch (error) {
+        console.error(`❌ Failed to save waypoints to ${this.file}:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import type { BiomeInfo } from "@minecraft-bedrock-minimap/shared";
+
+export type TintType = 'grass' | 'foliage' | 'water';
+
+const GRASS_BLOCKS = /^(grass_block|grass|short_grass|tall_grass|fern|large_fern)$/;
+// Birch, spruce, cherry, azalea and pale oak leaves keep their own colour
+const FOLIAGE_BLOCKS = /^((oak|jungle|acacia|dark_oak|mangrove)_leaves|vine)$/;
+export const WATER_BLOCKS = /^(flowing_)?water$/;
+
+// Colours from cold to temperate to hot biomes, temperatures 0, 0.8 and 2
+const GRASS_GRADIENT = ['#80b497', '#91bd59', '#bfb755'];
+const FOLIAGE_GRADIENT = ['#60a17b', '#77ab2f', '#aea42a'];
+
+// Biomes that do not follow the temperature gradient, [grass, foliage]
+const BIOME_TINTS: Array<[RegExp, string, string]> = [
+  [/swamp|mangrove/, '#6a7039', '#6a7039'],
+  [/jungle/, '#59c93c', '#30bb0b'],
+  [/dark_forest|roofed_forest/, '#507a32', '#59ae30'],
+  [/badlands|mesa/, '#90814d', '#9e814d'],
+  [/mushroom/, '#55c93f', '#2bbb0f'],
+  [/cherry/, '#b6db61', '#b6db61'],
+  [/pale_garden/, '#778272', '#878d76']
+];
+
+/**
+ * Parse a '#rrggbb' colour, alpha is ignored
+ */
+function toRgb(color: string): [number, number, number] {
+  const rgb = parseInt(color.slice(1, 7), 16);
+  return [(rgb >> 16) & 0xff, (rgb >> 8) & 0xff, rgb & 0xff];
+}
+
+/**
+ * Mix two colours, weight 1 gives the second colour. The alpha of the first colour is kept
+ */
+export function mixColors(color: string, other: string, weight: number): string {
+  const a = toRgb(color);
+  const b = toRgb(other);
+  const alpha = color.length === 9 ? color.slice(7, 9) : '';
+  const mixed = a.map((value, i) => Math.round(value + (b[i] - value) * weight));
+  return '#' + mixed.map(value => value.toString(16).padStart(2, '0')).join('') + alpha;
+}
+
+function gradientColor(gradient: string[], temperature: number): string {
+  const t = Math.max(0, Math.min(2, temperature));
+  return t <= 0.8
+    ? mixColors(gradient[0], gradient[1], t / 0.8)
+    : mixColors(gradient[1], gradient[2], (t - 0.8) / 1.2);
+}
+
+/**
+ * Which biome tint a block takes, null for blocks with a fixed colour
+ */
+export function getTintType(blockName: string): TintType | null {
+  if (GRASS_BLOCKS.test(blockName)) return 'grass';
+  if (FOLIAGE_BLOCKS.test(blockName)) return 'foliage';
+  if (WATER_BLOCKS.test(blockName)) return 'water';
+  return null;
+}
+
+/**
+ * Grass, foliage or water colour of a biome
+ */
+export function getBiomeTint(biome: BiomeInfo, type: TintType): string {
+  if (type === 'water') {
+    return biome.waterColor;
+  }
+
+  const special = BIOME_TINTS.find(([pattern]) => pattern.test(biome.name));
+  if (special) {
+    return type === 'grass' ? special[1] : special[2];
+  }
+  return gradientColor(type === 'grass' ? GRASS_GRADIENT : FOLIAGE_GRADIENT, biome.temperature);
+}
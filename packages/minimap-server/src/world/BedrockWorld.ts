@@ -2,10 +2,11 @@ import EventEmitter, { once } from "events";
 import { type BedrockChunk, type ExtendedBlock } from "prismarine-chunk";
 import { Vec3 } from "vec3";
 import { type Biome } from "prismarine-biome";
+import { dimensionChunkKey, parseDimensionChunkKey, type StorageProvider } from "@minecraft-bedrock-minimap/shared";
 
 
-function columnKeyXZ(chunkX: number, chunkZ: number): string {
-  return `${chunkX},${chunkZ}`;
+function columnKeyXZ(chunkX: number, chunkZ: number, dimension: number): string {
+  return dimensionChunkKey(dimension, chunkX, chunkZ);
 }
 
 function posInChunk(pos: Vec3): Vec3 {
@@ -18,14 +19,15 @@ export class BedrockWorld extends EventEmitter {
   finishedSaving!: Promise<any>;
   currentlySaving!: boolean;
   columns: { [key: string]: BedrockChunk } = {};
+  dimension = 0;
   chunkGenerator: any | null;
-  storageProvider: any | null;
+  storageProvider: StorageProvider | null;
   savingInterval: number;
   savingInt: any;
 
   constructor(
     chunkGenerator: any | null,
-    storageProvider = null,
+    storageProvider: StorageProvider | null = null,
     savingInterval = 1000
   ) {
     super();
@@ -71,20 +73,28 @@ export class BedrockWorld extends EventEmitter {
     return Promise.all(ps)
   }
 
-  getLoadedColumn(chunkX: number, chunkZ: number) {
-    const key = columnKeyXZ(chunkX, chunkZ);
+  /**
+   * Switch the dimension used by calls that don't pass one explicitly.
+   * Columns of other dimensions stay loaded.
+   */
+  setDimension(dimension: number) {
+    this.dimension = dimension;
+  }
+
+  getLoadedColumn(chunkX: number, chunkZ: number, dimension = this.dimension) {
+    const key = columnKeyXZ(chunkX, chunkZ, dimension);
     return this.columns[key];
   }
 
 
-  async getColumn(chunkX: number, chunkZ: number) {
+  async getColumn(chunkX: number, chunkZ: number, dimension = this.dimension) {
     await Promise.resolve();
-    const key = columnKeyXZ(chunkX, chunkZ);
+    const key = columnKeyXZ(chunkX, chunkZ, dimension);
 
     if (!this.columns[key]) {
       let chunk = null;
       if (this.storageProvider != null) {
-        const data = await this.storageProvider.load(chunkX, chunkZ);
+        const data = await this.storageProvider.load(key);
         if (data != null) {
           chunk = data;
         }
@@ -94,7 +104,7 @@ export class BedrockWorld extends EventEmitter {
         chunk = this.chunkGenerator(chunkX, chunkZ);
       }
       if (chunk != null) {
-        await this.setColumn(chunkX, chunkZ, chunk, !loaded);
+        await this.setColumn(chunkX, chunkZ, chunk, !loaded, dimension);
       }
     }
 
@@ -108,39 +118,39 @@ export class BedrockWorld extends EventEmitter {
     this.emit(`blockUpdate:${position}`, oldBlock, newBlock);
   }
 
-  setLoadedColumn(chunkX: number, chunkZ: number, chunk: BedrockChunk, save = true) {
-    const key = columnKeyXZ(chunkX, chunkZ);
+  setLoadedColumn(chunkX: number, chunkZ: number, chunk: BedrockChunk, save = true, dimension = this.dimension) {
+    const key = columnKeyXZ(chunkX, chunkZ, dimension);
     this.columns[key] = chunk;
 
     const columnCorner = new Vec3(chunkX * 16, 0, chunkZ * 16);
-    this.emit("chunkColumnLoad", columnCorner);
+    this.emit("chunkColumnLoad", columnCorner, dimension);
 
     if (this.storageProvider && save) {
-      this.queueSaving(chunkX, chunkZ);
+      this.queueSaving(chunkX, chunkZ, dimension);
     }
   }
 
-  async setColumn(chunkX: number, chunkZ: number, chunk: BedrockChunk, save = true) {
+  async setColumn(chunkX: number, chunkZ: number, chunk: BedrockChunk, save = true, dimension = this.dimension) {
     await Promise.resolve();
-    this.setLoadedColumn(chunkX, chunkZ, chunk, save);
+    this.setLoadedColumn(chunkX, chunkZ, chunk, save, dimension);
   }
 
-  unloadColumn(chunkX: number, chunkZ: number) {
-    const key = columnKeyXZ(chunkX, chunkZ);
+  unloadColumn(chunkX: number, chunkZ: number, dimension = this.dimension) {
+    const key = columnKeyXZ(chunkX, chunkZ, dimension);
     if (this.storageProvider && this.savingQueue.has(key)) {
-      this.unloadQueue.set(key, { chunkX, chunkZ });
+      this.unloadQueue.set(key, { chunkX, chunkZ, dimension });
     } else {
-      this.forceUnloadColumn(key, chunkX, chunkZ);
+      this.forceUnloadColumn(key, chunkX, chunkZ, dimension);
     }
   }
 
-  forceUnloadColumn(key: string, chunkX: number, chunkZ: number) {
+  forceUnloadColumn(key: string, chunkX: number, chunkZ: number, dimension = this.dimension) {
     if (this.unloadQueue.has(key)) {
       this.unloadQueue.delete(key);
     }
     delete this.columns[key];
     const columnCorner = new Vec3(chunkX * 16, 0, chunkZ * 16);
-    this.emit("chunkColumnUnload", columnCorner);
+    this.emit("chunkColumnUnload", columnCorner, dimension);
   }
 
   async saveNow() {
@@ -149,16 +159,16 @@ export class BedrockWorld extends EventEmitter {
     }
     // We could set a limit on the number of chunks to save at each
     // interval. The set structure is maintaining the order of insertion
-    for (const [key, { chunkX, chunkZ }] of this.savingQueue.entries()) {
+    for (const key of this.savingQueue.keys()) {
       this.finishedSaving = Promise.all([
         this.finishedSaving,
-        this.storageProvider.save(chunkX, chunkZ, this.columns[key]),
+        this.storageProvider!.save(key, this.columns[key]),
       ]);
     }
     await this.finishedSaving;
     this.savingQueue.clear();
-    for (const [key, { chunkX, chunkZ }] of this.unloadQueue.entries()) {
-      this.forceUnloadColumn(key, chunkX, chunkZ);
+    for (const [key, { chunkX, chunkZ, dimension }] of this.unloadQueue.entries()) {
+      this.forceUnloadColumn(key, chunkX, chunkZ, dimension);
     }
     this.emit("doneSaving");
   }
@@ -185,8 +195,8 @@ export class BedrockWorld extends EventEmitter {
     clearInterval(this.savingInt);
   }
 
-  queueSaving(chunkX: number, chunkZ: number) {
-    this.savingQueue.set(columnKeyXZ(chunkX, chunkZ), { chunkX, chunkZ });
+  queueSaving(chunkX: number, chunkZ: number, dimension = this.dimension) {
+    this.savingQueue.set(columnKeyXZ(chunkX, chunkZ, dimension), { chunkX, chunkZ, dimension });
   }
 
   saveAt(pos: Vec3) {
@@ -199,10 +209,11 @@ export class BedrockWorld extends EventEmitter {
 
   getColumns() {
     return Object.entries(this.columns).map(([key, column]) => {
-      const parts = key.split(",");
+      const { dimension, x, z } = parseDimensionChunkKey(key);
       return {
-        chunkX: parts[0],
-        chunkZ: parts[1],
+        chunkX: x,
+        chunkZ: z,
+        dimension,
         column,
       };
     });
@@ -0,0 +1,17 @@
+import { decodeChunkBatch } from "@minecraft-bedrock-minimap/shared";
+import type { BinaryChunkBatch, ChunkData, ChunkEncoding } from "@minecraft-bedrock-minimap/shared";
+
+// Binary batches may be deflated, browsers without DecompressionStream stay on JSON chunks
+export const chunkEncoding: ChunkEncoding = typeof DecompressionStream === "function" ? "binary" : "json";
+
+/**
+ * Inflate and decode a binary chunk batch from the minimap server
+ */
+export async function decodeBinaryChunkBatch({ chunks, deflated }: BinaryChunkBatch): Promise<ChunkData[]> {
+  if (!deflated) {
+    return decodeChunkBatch(chunks);
+  }
+
+  const stream = new Blob([new Uint8Array(chunks)]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return decodeChunkBatch(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,211 @@
+/**
+ * Biome Legend Component
+ * Lists the colours of the biomes on the map while the biome map is shown,
+ * and names the biome under the cursor in a tooltip.
+ */
+
+import { getBiomeInfo } from "@minecraft-bedrock-minimap/shared";
+
+export class BiomeLegend {
+  private legend: HTMLElement | null = null;
+  private tooltip: HTMLElement | null = null;
+  private isVisible = false;
+  // Biomes listed, the legend is only rebuilt when they change
+  private shownBiomes = '';
+
+  constructor() {
+    this.createElements();
+  }
+
+  /**
+   * Create the legend and tooltip DOM structure
+   */
+  private createElements(): void {
+    const legend = document.createElement('div');
+    legend.id = 'biome-legend';
+    legend.className = 'biome-legend hidden';
+    legend.innerHTML = `
+      <div class="biome-legend-header">Biomes</div>
+      <div class="biome-legend-list"></div>
+    `;
+
+    const tooltip = document.createElement('div');
+    tooltip.id = 'biome-tooltip';
+    tooltip.className = 'biome-tooltip hidden';
+
+    document.body.appendChild(legend);
+    document.body.appendChild(tooltip);
+    this.legend = legend;
+    this.tooltip = tooltip;
+
+    this.addStyles();
+  }
+
+  /**
+   * Add CSS styles for the legend and tooltip
+   */
+  private addStyles(): void {
+    if (document.getElementById('biome-legend-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'biome-legend-styles';
+    style.textContent = `
+      .biome-legend {
+        position: fixed;
+        bottom: 10px;
+        left: 10px;
+        background: rgba(20, 20, 20, 0.9);
+        border: 1px solid #555;
+        border-radius: 6px;
+        padding: 8px 10px;
+        z-index: 1000;
+        max-height: 40vh;
+        overflow-y: auto;
+        color: white;
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+        font-size: 11px;
+      }
+
+      .biome-legend.hidden,
+      .biome-tooltip.hidden {
+        display: none;
+      }
+
+      .biome-legend-header {
+        margin-bottom: 6px;
+        color: #ff6b35;
+        font-weight: bold;
+      }
+
+      .biome-legend-item {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 1px 0;
+      }
+
+      .biome-legend-swatch {
+        width: 10px;
+        height: 10px;
+        border: 1px solid rgba(255, 255, 255, 0.3);
+        flex-shrink: 0;
+      }
+
+      .biome-legend-empty {
+        color: #aaa;
+      }
+
+      .biome-tooltip {
+        position: fixed;
+        background: rgba(20, 20, 20, 0.9);
+        border: 1px solid #555;
+        border-radius: 4px;
+        padding: 2px 6px;
+        z-index: 1001;
+        pointer-events: none;
+        white-space: nowrap;
+        color: white;
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+        font-size: 11px;
+      }
+    `;
+
+    document.head.appendChild(style);
+  }
+
+  /**
+   * List the given biomes, sorted by name
+   */
+  public update(biomeIds: Iterable<number>): void {
+    const biomes = [...biomeIds]
+      .map(id => getBiomeInfo(id))
+      .filter(biome => biome !== undefined)
+      .sort((a, b) => a.displayName.localeCompare(b.displayName));
+
+    const key = biomes.map(biome => biome.name).join(',');
+    if (key === this.shownBiomes) return;
+    this.shownBiomes = key;
+
+    const list = this.legend?.querySelector('.biome-legend-list');
+    if (!list) return;
+
+    list.innerHTML = biomes.length > 0
+      ? biomes.map(biome => `
+        <div class="biome-legend-item">
+          <span class="biome-legend-swatch" style="background: ${biome.color}"></span>
+          ${biome.displayName}
+        </div>
+      `).join('')
+      : '<div class="biome-legend-empty">No biome data yet</div>';
+  }
+
+  /**
+   * Name a biome next to the cursor, hidden when the biome is unknown
+   */
+  public showTooltip(biomeId: number | null, clientX: number, clientY: number): void {
+    if (!this.tooltip) return;
+
+    const biome = biomeId !== null ? getBiomeInfo(biomeId) : undefined;
+    if (!biome) {
+      this.hideTooltip();
+      return;
+    }
+
+    this.tooltip.textContent = biome.displayName;
+    this.tooltip.style.left = `${clientX + 12}px`;
+    this.tooltip.style.top = `${clientY + 12}px`;
+    this.tooltip.classList.remove('hidden');
+  }
+
+  /**
+   * Hide the tooltip
+   */
+  public hideTooltip(): void {
+    this.tooltip?.classList.add('hidden');
+  }
+
+  /**
+   * Show the legend
+   */
+  public show(): void {
+    if (!this.legend) return;
+
+    this.isVisible = true;
+    this.legend.classList.remove('hidden');
+  }
+
+  /**
+   * Hide the legend and tooltip
+   */
+  public hide(): void {
+    if (!this.legend) return;
+
+    this.isVisible = false;
+    this.legend.classList.add('hidden');
+    this.hideTooltip();
+  }
+
+  /**
+   * Whether the legend is shown
+   */
+  public isShown(): boolean {
+    return this.isVisible;
+  }
+
+  /**
+   * Destroy the legend
+   */
+  public destroy(): void {
+    this.legend?.remove();
+    this.tooltip?.remove();
+    this.legend = null;
+    this.tooltip = null;
+
+    const styleElement = document.getElementById('biome-legend-styles');
+    if (styleElement) {
+      styleElement.remove();
+    }
+
+    this.isVisible = false;
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Entity Filter Panel Component
+ * Lets the user choose which entity categories (hostile, passive, players, items)
+ * are drawn on the map.
+ */
+
+import type { EntityCategory, EntityFilters } from "@minecraft-bedrock-minimap/shared";
+import { DEFAULT_ENTITY_FILTERS, ENTITY_CATEGORY_COLORS } from "@minecraft-bedrock-minimap/shared";
+
+const CATEGORY_LABELS: Record<EntityCategory, string> = {
+  hostile: 'Hostile mobs',
+  passive: 'Passive mobs',
+  player: 'Players',
+  item: 'Items'
+};
+
+export class EntityFilterPanel {
+  private panel: HTMLElement | null = null;
+  private isOpen = false;
+  private filters: EntityFilters;
+  private onFiltersChange: ((filters: EntityFilters) => void) | null = null;
+
+  constructor() {
+    this.filters = this.loadFilters();
+    this.createPanel();
+    this.bindEvents();
+  }
+
+  /**
+   * Set callback for when the filters change
+   */
+  public setFiltersChangeCallback(callback: (filters: EntityFilters) => void): void {
+    this.onFiltersChange = callback;
+  }
+
+  /**
+   * Get current filters
+   */
+  public getFilters(): EntityFilters {
+    return { ...this.filters };
+  }
+
+  /**
+   * Create the panel DOM structure
+   */
+  private createPanel(): void {
+    const panel = document.createElement('div');
+    panel.id = 'entity-filter-panel';
+    panel.className = 'entity-filter-panel hidden';
+
+    panel.innerHTML = `
+      <div class="entity-filter-header">
+        <span>Entities</span>
+        <button class="entity-filter-close" title="Close">&times;</button>
+      </div>
+      ${(Object.keys(CATEGORY_LABELS) as EntityCategory[]).map(category => `
+        <label class="entity-filter-option">
+          <input type="checkbox" value="${category}" ${this.filters[category] ? 'checked' : ''}>
+          <span class="entity-filter-color" style="background-color: ${ENTITY_CATEGORY_COLORS[category]}"></span>
+          ${CATEGORY_LABELS[category]}
+        </label>
+      `).join('')}
+    `;
+
+    document.body.appendChild(panel);
+    this.panel = panel;
+
+    this.addStyles();
+  }
+
+  /**
+   * Add CSS styles for the panel
+   */
+  private addStyles(): void {
+    if (document.getElementById('entity-filter-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'entity-filter-styles';
+    style.textContent = `
+      .entity-filter-panel {
+        position: fixed;
+        top: 50px;
+        right: 10px;
+        background: rgba(20, 20, 20, 0.95);
+        border: 1px solid #555;
+        border-radius: 6px;
+        padding: 10px 12px;
+        z-index: 1000;
+        min-width: 160px;
+        color: white;
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+        font-size: 12px;
+      }
+
+      .entity-filter-panel.hidden {
+        display: none;
+      }
+
+      .entity-filter-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 8px;
+        color: #ff6b35;
+        font-weight: bold;
+      }
+
+      .entity-filter-close {
+        background: none;
+        border: none;
+        color: #ccc;
+        font-size: 18px;
+        cursor: pointer;
+        padding: 0 4px;
+      }
+
+      .entity-filter-close:hover {
+        color: white;
+      }
+
+      .entity-filter-option {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 3px 0;
+        cursor: pointer;
+      }
+
+      .entity-filter-color {
+        width: 10px;
+        height: 10px;
+        border-radius: 2px;
+        border: 1px solid #000;
+      }
+    `;
+
+    document.head.appendChild(style);
+  }
+
+  /**
+   * Bind panel events
+   */
+  private bindEvents(): void {
+    this.panel?.querySelector('.entity-filter-close')?.addEventListener('click', () => this.close());
+
+    this.panel?.querySelectorAll<HTMLInputElement>('input[type="checkbox"]').forEach(checkbox => {
+      checkbox.addEventListener('change', () => {
+        this.filters[checkbox.value as EntityCategory] = checkbox.checked;
+        this.saveFilters();
+        if (this.onFiltersChange) {
+          this.onFiltersChange(this.getFilters());
+        }
+      });
+    });
+  }
+
+  /**
+   * Load filters from localStorage
+   */
+  private loadFilters(): EntityFilters {
+    const saved = localStorage.getItem('entityFilters');
+    if (saved) {
+      try {
+        return { ...DEFAULT_ENTITY_FILTERS, ...JSON.parse(saved) };
+      } catch (error) {
+        console.warn('Failed to load entity filters:', error);
+      }
+    }
+
+    return { ...DEFAULT_ENTITY_FILTERS };
+  }
+
+  /**
+   * Save filters to localStorage
+   */
+  private saveFilters(): void {
+    try {
+      localStorage.setItem('entityFilters', JSON.stringify(this.filters));
+    } catch (error) {
+      console.error('Failed to save entity filters:', error);
+    }
+  }
+
+  /**
+   * Open the panel
+   */
+  public open(): void {
+    if (!this.panel) return;
+
+    this.isOpen = true;
+    this.panel.classList.remove('hidden');
+  }
+
+  /**
+   * Close the panel
+   */
+  public close(): void {
+    if (!this.panel) return;
+
+    this.isOpen = false;
+    this.panel.classList.add('hidden');
+  }
+
+  /**
+   * Toggle the panel
+   */
+  public toggle(): void {
+    if (this.isOpen) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  /**
+   * Destroy the panel
+   */
+  public destroy(): void {
+    if (this.panel) {
+      this.panel.remove();
+      this.panel = null;
+    }
+
+    const styleElement = document.getElementById('entity-filter-styles');
+    if (styleElement) {
+      styleElement.remove();
+    }
+
+    this.isOpen = false;
+  }
+}
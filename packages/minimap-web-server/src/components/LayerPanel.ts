@@ -0,0 +1,286 @@
+/**
+ * Layer Panel Component
+ * Lets the user choose between the surface and the cave view. Auto shows caves
+ * while the player is under a roof, the slider picks the Y the cave view starts at.
+ */
+
+import type { MapLayer, MapLayerSetting } from "@minecraft-bedrock-minimap/shared";
+
+const MIN_CAVE_Y = -64;
+const MAX_CAVE_Y = 320;
+const DEFAULT_CAVE_Y = 32;
+
+type LayerMode = MapLayerSetting['mode'];
+
+const MODE_LABELS: Record<LayerMode, string> = {
+  auto: 'Auto (caves under a roof)',
+  surface: 'Surface',
+  cave: 'Caves below Y'
+};
+
+export class LayerPanel {
+  private panel: HTMLElement | null = null;
+  private isOpen = false;
+  private setting: MapLayerSetting;
+  private caveY: number;
+  private onSettingChange: ((setting: MapLayerSetting) => void) | null = null;
+
+  constructor() {
+    this.setting = this.loadSetting();
+    this.caveY = this.setting.mode === 'cave' ? this.setting.y : DEFAULT_CAVE_Y;
+    this.createPanel();
+    this.bindEvents();
+  }
+
+  /**
+   * Set callback for when the layer setting changes
+   */
+  public setSettingChangeCallback(callback: (setting: MapLayerSetting) => void): void {
+    this.onSettingChange = callback;
+  }
+
+  /**
+   * Get current layer setting
+   */
+  public getSetting(): MapLayerSetting {
+    return { ...this.setting };
+  }
+
+  /**
+   * Show the layer the server resolved the setting to
+   */
+  public setActiveLayer(layer: MapLayer): void {
+    const active = this.panel?.querySelector('.layer-active');
+    if (active) {
+      active.textContent = layer.mode === 'cave' ? `Showing caves below Y ${layer.y}` : 'Showing the surface';
+    }
+  }
+
+  /**
+   * Create the panel DOM structure
+   */
+  private createPanel(): void {
+    const panel = document.createElement('div');
+    panel.id = 'layer-panel';
+    panel.className = 'layer-panel hidden';
+
+    panel.innerHTML = `
+      <div class="layer-header">
+        <span>Map Layer</span>
+        <button class="layer-close" title="Close">&times;</button>
+      </div>
+      ${(Object.keys(MODE_LABELS) as LayerMode[]).map(mode => `
+        <label class="layer-option">
+          <input type="radio" name="layer-mode" value="${mode}" ${this.setting.mode === mode ? 'checked' : ''}>
+          ${MODE_LABELS[mode]}
+        </label>
+      `).join('')}
+      <div class="layer-slider">
+        <input type="range" min="${MIN_CAVE_Y}" max="${MAX_CAVE_Y}" step="1" value="${this.caveY}">
+        <span class="layer-y">${this.caveY}</span>
+      </div>
+      <div class="layer-active">Showing the surface</div>
+    `;
+
+    document.body.appendChild(panel);
+    this.panel = panel;
+
+    this.addStyles();
+  }
+
+  /**
+   * Add CSS styles for the panel
+   */
+  private addStyles(): void {
+    if (document.getElementById('layer-panel-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'layer-panel-styles';
+    style.textContent = `
+      .layer-panel {
+        position: fixed;
+        top: 50px;
+        right: 10px;
+        background: rgba(20, 20, 20, 0.95);
+        border: 1px solid #555;
+        border-radius: 6px;
+        padding: 10px 12px;
+        z-index: 1000;
+        min-width: 200px;
+        color: white;
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+        font-size: 12px;
+      }
+
+      .layer-panel.hidden {
+        display: none;
+      }
+
+      .layer-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 8px;
+        color: #ff6b35;
+        font-weight: bold;
+      }
+
+      .layer-close {
+        background: none;
+        border: none;
+        color: #ccc;
+        font-size: 18px;
+        cursor: pointer;
+        padding: 0 4px;
+      }
+
+      .layer-close:hover {
+        color: white;
+      }
+
+      .layer-option {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 3px 0;
+        cursor: pointer;
+      }
+
+      .layer-slider {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 4px 0 4px 20px;
+      }
+
+      .layer-slider input {
+        flex: 1;
+      }
+
+      .layer-y {
+        min-width: 28px;
+        text-align: right;
+      }
+
+      .layer-active {
+        margin-top: 6px;
+        color: #aaa;
+      }
+    `;
+
+    document.head.appendChild(style);
+  }
+
+  /**
+   * Bind panel events
+   */
+  private bindEvents(): void {
+    this.panel?.querySelector('.layer-close')?.addEventListener('click', () => this.close());
+
+    this.panel?.querySelectorAll<HTMLInputElement>('input[name="layer-mode"]').forEach(radio => {
+      radio.addEventListener('change', () => {
+        if (radio.checked) {
+          this.applyMode(radio.value as LayerMode);
+        }
+      });
+    });
+
+    const slider = this.panel?.querySelector<HTMLInputElement>('.layer-slider input');
+    const label = this.panel?.querySelector('.layer-y');
+    slider?.addEventListener('input', () => {
+      if (label) label.textContent = slider.value;
+    });
+    // Moving the slider switches to the manual cave view
+    slider?.addEventListener('change', () => {
+      this.caveY = parseInt(slider.value, 10);
+      const caveRadio = this.panel?.querySelector<HTMLInputElement>('input[name="layer-mode"][value="cave"]');
+      if (caveRadio) caveRadio.checked = true;
+      this.applyMode('cave');
+    });
+  }
+
+  private applyMode(mode: LayerMode): void {
+    this.setting = mode === 'cave' ? { mode, y: this.caveY } : { mode };
+    this.saveSetting();
+    if (this.onSettingChange) {
+      this.onSettingChange(this.getSetting());
+    }
+  }
+
+  /**
+   * Load the layer setting from localStorage
+   */
+  private loadSetting(): MapLayerSetting {
+    const saved = localStorage.getItem('mapLayerSetting');
+    if (saved) {
+      try {
+        const setting = JSON.parse(saved) as MapLayerSetting;
+        if (setting.mode === 'cave' && Number.isFinite(setting.y)) return setting;
+        if (setting.mode === 'auto' || setting.mode === 'surface') return setting;
+      } catch (error) {
+        console.warn('Failed to load map layer setting:', error);
+      }
+    }
+
+    return { mode: 'auto' };
+  }
+
+  /**
+   * Save the layer setting to localStorage
+   */
+  private saveSetting(): void {
+    try {
+      localStorage.setItem('mapLayerSetting', JSON.stringify(this.setting));
+    } catch (error) {
+      console.error('Failed to save map layer setting:', error);
+    }
+  }
+
+  /**
+   * Open the panel
+   */
+  public open(): void {
+    if (!this.panel) return;
+
+    this.isOpen = true;
+    this.panel.classList.remove('hidden');
+  }
+
+  /**
+   * Close the panel
+   */
+  public close(): void {
+    if (!this.panel) return;
+
+    this.isOpen = false;
+    this.panel.classList.add('hidden');
+  }
+
+  /**
+   * Toggle the panel
+   */
+  public toggle(): void {
+    if (this.isOpen) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  /**
+   * Destroy the panel
+   */
+  public destroy(): void {
+    if (this.panel) {
+      this.panel.remove();
+      this.panel = null;
+    }
+
+    const styleElement = document.getElementById('layer-panel-styles');
+    if (styleElement) {
+      styleElement.remove();
+    }
+
+    this.isOpen = false;
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Player List Panel Component
+ * Side list of the other players in the session with their last known positions.
+ * Clicking a player pans the map to them.
+ */
+
+import type { PlayerInfo } from "@minecraft-bedrock-minimap/shared";
+
+const DIMENSION_NAMES = ['Overworld', 'Nether', 'End'];
+
+export class PlayerListPanel {
+  private panel: HTMLElement | null = null;
+  private list: HTMLElement | null = null;
+  private followButton: HTMLButtonElement | null = null;
+  private isOpen = false;
+  private players: PlayerInfo[] = [];
+  private onPlayerSelect: ((player: PlayerInfo) => void) | null = null;
+  private onFollow: (() => void) | null = null;
+
+  constructor() {
+    this.createPanel();
+    this.bindEvents();
+  }
+
+  /**
+   * Set callback for when a player is clicked
+   */
+  public setPlayerSelectCallback(callback: (player: PlayerInfo) => void): void {
+    this.onPlayerSelect = callback;
+  }
+
+  /**
+   * Set callback for centering the map on the local player again
+   */
+  public setFollowCallback(callback: () => void): void {
+    this.onFollow = callback;
+  }
+
+  /**
+   * Replace the list of players
+   */
+  public updatePlayers(players: PlayerInfo[]): void {
+    this.players = [...players].sort((a, b) => a.name.localeCompare(b.name));
+    this.renderList();
+  }
+
+  /**
+   * Show the follow button while the map is panned away from the local player
+   */
+  public setFollowing(following: boolean): void {
+    this.followButton?.classList.toggle('hidden', following);
+  }
+
+  /**
+   * Create the panel DOM structure
+   */
+  private createPanel(): void {
+    const panel = document.createElement('div');
+    panel.id = 'player-list-panel';
+    panel.className = 'player-list-panel hidden';
+
+    panel.innerHTML = `
+      <div class="player-list-header">
+        <span>Players</span>
+        <button class="player-list-close" title="Close">&times;</button>
+      </div>
+      <button class="player-list-follow hidden">Center on me</button>
+      <ul class="player-list"></ul>
+    `;
+
+    document.body.appendChild(panel);
+    this.panel = panel;
+    this.list = panel.querySelector('.player-list');
+    this.followButton = panel.querySelector('.player-list-follow');
+
+    this.addStyles();
+    this.renderList();
+  }
+
+  /**
+   * Render the player entries
+   */
+  private renderList(): void {
+    if (!this.list) return;
+
+    if (this.players.length === 0) {
+      this.list.innerHTML = '<li class="player-list-empty">No other players</li>';
+      return;
+    }
+
+    this.list.innerHTML = '';
+    for (const player of this.players) {
+      const item = document.createElement('li');
+      item.className = 'player-list-item';
+      item.classList.toggle('unknown', !player.position);
+      item.title = player.uuid;
+
+      const name = document.createElement('span');
+      name.className = 'player-list-name';
+      name.textContent = player.name;
+
+      const location = document.createElement('span');
+      location.className = 'player-list-location';
+      location.textContent = this.formatLocation(player);
+
+      item.append(name, location);
+      if (player.position) {
+        item.addEventListener('click', () => this.onPlayerSelect?.(player));
+      }
+      this.list.appendChild(item);
+    }
+  }
+
+  private formatLocation(player: PlayerInfo): string {
+    if (!player.position) return 'Position unknown';
+
+    const { x, y, z, dimension } = player.position;
+    const coordinates = `${Math.floor(x)}, ${Math.floor(y)}, ${Math.floor(z)}`;
+    const dimensionName = DIMENSION_NAMES[dimension] ?? `Dimension ${dimension}`;
+    if (player.inRange || player.lastSeen === null) {
+      return `${coordinates} · ${dimensionName}`;
+    }
+
+    const minutes = Math.floor((Date.now() - player.lastSeen) / 60000);
+    return `${coordinates} · ${dimensionName} · seen ${minutes > 0 ? `${minutes}m ago` : 'just now'}`;
+  }
+
+  /**
+   * Add CSS styles for the panel
+   */
+  private addStyles(): void {
+    if (document.getElementById('player-list-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'player-list-styles';
+    style.textContent = `
+      .player-list-panel {
+        position: fixed;
+        top: 50px;
+        left: 10px;
+        background: rgba(20, 20, 20, 0.95);
+        border: 1px solid #555;
+        border-radius: 6px;
+        padding: 10px 12px;
+        z-index: 1000;
+        width: 220px;
+        max-height: 60vh;
+        overflow-y: auto;
+        color: white;
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+        font-size: 12px;
+      }
+
+      .player-list-panel.hidden,
+      .player-list-follow.hidden {
+        display: none;
+      }
+
+      .player-list-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 8px;
+        color: #ff6b35;
+        font-weight: bold;
+      }
+
+      .player-list-close {
+        background: none;
+        border: none;
+        color: #ccc;
+        font-size: 18px;
+        cursor: pointer;
+        padding: 0 4px;
+      }
+
+      .player-list-close:hover {
+        color: white;
+      }
+
+      .player-list-follow {
+        width: 100%;
+        margin-bottom: 8px;
+        background: #333;
+        border: 1px solid #555;
+        border-radius: 4px;
+        color: white;
+        padding: 4px;
+        cursor: pointer;
+      }
+
+      .player-list {
+        list-style: none;
+        margin: 0;
+        padding: 0;
+      }
+
+      .player-list-item {
+        display: flex;
+        flex-direction: column;
+        padding: 4px 6px;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .player-list-item:hover {
+        background: rgba(255, 255, 255, 0.1);
+      }
+
+      .player-list-item.unknown {
+        cursor: default;
+        opacity: 0.6;
+      }
+
+      .player-list-name {
+        color: #40A0FF;
+        font-weight: bold;
+      }
+
+      .player-list-location,
+      .player-list-empty {
+        color: #aaa;
+      }
+    `;
+
+    document.head.appendChild(style);
+  }
+
+  /**
+   * Bind panel events
+   */
+  private bindEvents(): void {
+    this.panel?.querySelector('.player-list-close')?.addEventListener('click', () => this.close());
+    this.followButton?.addEventListener('click', () => this.onFollow?.());
+  }
+
+  /**
+   * Open the panel
+   */
+  public open(): void {
+    if (!this.panel) return;
+
+    this.isOpen = true;
+    this.panel.classList.remove('hidden');
+    this.renderList();
+  }
+
+  /**
+   * Close the panel
+   */
+  public close(): void {
+    if (!this.panel) return;
+
+    this.isOpen = false;
+    this.panel.classList.add('hidden');
+  }
+
+  /**
+   * Toggle the panel
+   */
+  public toggle(): void {
+    if (this.isOpen) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  /**
+   * Destroy the panel
+   */
+  public destroy(): void {
+    if (this.panel) {
+      this.panel.remove();
+      this.panel = null;
+    }
+
+    const styleElement = document.getElementById('player-list-styles');
+    if (styleElement) {
+      styleElement.remove();
+    }
+
+    this.isOpen = false;
+  }
+}
@@ -117,7 +117,7 @@ export class ProxySettingsPanel {
                 <input type="checkbox" id="chunk-caching" ${this.settings.performance.enableChunkCaching ? 'checked' : ''}>
                 <span>Enable Chunk Caching</span>
               </label>
-              <small>Cache chunks to improve performance</small>
+              <small>Save explored chunks to disk so the map survives restarts</small>
             </div>
             <div class="form-group">
               <label for="max-chunks">Maximum Loaded Chunks</label>
@@ -166,6 +166,35 @@ export class ProxySettingsPanel {
             </div>
           </div>
           
+          <div class="settings-section">
+            <h4>Packet Capture</h4>
+            <div class="form-group">
+              <label class="checkbox-label">
+                <input type="checkbox" id="packet-capture" ${this.settings.advanced.enablePacketCapture ? 'checked' : ''}>
+                <span>Capture Packets</span>
+              </label>
+              <small>Record relay traffic to dumps/ for bug reports and replay</small>
+            </div>
+            <div class="form-group ${!this.settings.advanced.enablePacketCapture ? 'disabled' : ''}">
+              <label for="capture-max-size">Max File Size (MB)</label>
+              <input type="number" id="capture-max-size" value="${this.settings.advanced.captureMaxFileSizeMb}" 
+                     min="1" max="1024" step="1" ${!this.settings.advanced.enablePacketCapture ? 'disabled' : ''}>
+              <small>Start a new dump when the current one reaches this size</small>
+            </div>
+            <div class="form-group ${!this.settings.advanced.enablePacketCapture ? 'disabled' : ''}">
+              <label for="capture-max-minutes">Max Duration (minutes)</label>
+              <input type="number" id="capture-max-minutes" value="${this.settings.advanced.captureMaxMinutes}" 
+                     min="0" max="1440" step="1" ${!this.settings.advanced.enablePacketCapture ? 'disabled' : ''}>
+              <small>Start a new dump after this many minutes (0 = no limit)</small>
+            </div>
+            <div class="form-group ${!this.settings.advanced.enablePacketCapture ? 'disabled' : ''}">
+              <label for="capture-filter">Packet Filter</label>
+              <input type="text" id="capture-filter" value="${this.settings.advanced.capturePacketFilter}" 
+                     placeholder="level_chunk, subchunk, player_auth_input" ${!this.settings.advanced.enablePacketCapture ? 'disabled' : ''}>
+              <small>Comma separated packet names to keep (empty = all packets)</small>
+            </div>
+          </div>
+          
           <div class="settings-section">
             <h4>Debug Options</h4>
             <div class="form-group">
@@ -175,6 +204,12 @@ export class ProxySettingsPanel {
               </label>
               <small>Log detailed proxy operations to console</small>
             </div>
+            <div class="form-group">
+              <label for="replay-file">Replay File</label>
+              <input type="text" id="replay-file" value="${this.settings.advanced.replayFile ?? ''}" 
+                     placeholder="dumps/1.21.100-1700000000000.bin">
+              <small>Replay a packet dump instead of running the relay (leave empty for live play)</small>
+            </div>
           </div>
         </div>
       </div>
@@ -542,6 +577,22 @@ export class ProxySettingsPanel {
       }
     });
 
+    // Packet capture checkbox
+    const packetCapture = this.container.querySelector('#packet-capture') as HTMLInputElement;
+    packetCapture?.addEventListener('change', () => {
+      ['#capture-max-size', '#capture-max-minutes', '#capture-filter'].forEach(selector => {
+        const input = this.container!.querySelector(selector) as HTMLInputElement;
+        const formGroup = input?.closest('.form-group');
+        
+        if (formGroup) {
+          formGroup.classList.toggle('disabled', !packetCapture.checked);
+        }
+        if (input) {
+          input.disabled = !packetCapture.checked;
+        }
+      });
+    });
+
     // Action buttons
     this.container.querySelector('#reset-defaults')?.addEventListener('click', () => this.resetToDefaults());
     this.container.querySelector('#apply-settings')?.addEventListener('click', async () => await this.validateAndSave());
@@ -601,6 +652,11 @@ export class ProxySettingsPanel {
       advanced: {
         profilesFolder: (this.container.querySelector('#profiles-folder') as HTMLInputElement).value,
         enableDebugLogging: (this.container.querySelector('#debug-logging') as HTMLInputElement).checked,
+        replayFile: (this.container.querySelector('#replay-file') as HTMLInputElement).value.trim(),
+        enablePacketCapture: (this.container.querySelector('#packet-capture') as HTMLInputElement).checked,
+        captureMaxFileSizeMb: parseInt((this.container.querySelector('#capture-max-size') as HTMLInputElement).value),
+        captureMaxMinutes: parseInt((this.container.querySelector('#capture-max-minutes') as HTMLInputElement).value),
+        capturePacketFilter: (this.container.querySelector('#capture-filter') as HTMLInputElement).value.trim(),
         autoReconnect: (this.container.querySelector('#auto-reconnect') as HTMLInputElement).checked,
         reconnectInterval: parseInt((this.container.querySelector('#reconnect-interval') as HTMLInputElement).value)
       }
@@ -806,6 +862,11 @@ export class ProxySettingsPanel {
     // Advanced tab
     (this.container.querySelector('#profiles-folder') as HTMLInputElement).value = this.settings.advanced.profilesFolder;
     (this.container.querySelector('#debug-logging') as HTMLInputElement).checked = this.settings.advanced.enableDebugLogging;
+    (this.container.querySelector('#replay-file') as HTMLInputElement).value = this.settings.advanced.replayFile ?? '';
+    (this.container.querySelector('#packet-capture') as HTMLInputElement).checked = this.settings.advanced.enablePacketCapture;
+    (this.container.querySelector('#capture-max-size') as HTMLInputElement).value = this.settings.advanced.captureMaxFileSizeMb.toString();
+    (this.container.querySelector('#capture-max-minutes') as HTMLInputElement).value = this.settings.advanced.captureMaxMinutes.toString();
+    (this.container.querySelector('#capture-filter') as HTMLInputElement).value = this.settings.advanced.capturePacketFilter;
     (this.container.querySelector('#auto-reconnect') as HTMLInputElement).checked = this.settings.advanced.autoReconnect;
     (this.container.querySelector('#reconnect-interval') as HTMLInputElement).value = this.settings.advanced.reconnectInterval.toString();
 
@@ -816,6 +877,11 @@ export class ProxySettingsPanel {
     
     const autoReconnect = this.settings.advanced.autoReconnect;
     (this.container.querySelector('#reconnect-interval') as HTMLInputElement).disabled = !autoReconnect;
+
+    const packetCapture = this.settings.advanced.enablePacketCapture;
+    (this.container.querySelector('#capture-max-size') as HTMLInputElement).disabled = !packetCapture;
+    (this.container.querySelector('#capture-max-minutes') as HTMLInputElement).disabled = !packetCapture;
+    (this.container.querySelector('#capture-filter') as HTMLInputElement).disabled = !packetCapture;
   }
 
   private loadSettings(): ProxySettings {
@@ -0,0 +1,213 @@
+/**
+ * Replay Controls Component
+ * Playback bar shown while the proxy replays a packet dump, with play/pause,
+ * seeking and speed selection.
+ */
+
+import type { ReplayStatus, ReplayControlCommand } from "@minecraft-bedrock-minimap/shared";
+
+const SPEED_OPTIONS = [0.5, 1, 2, 4, 8];
+
+export class ReplayControls {
+  private bar: HTMLElement | null = null;
+  private playButton: HTMLButtonElement | null = null;
+  private seekSlider: HTMLInputElement | null = null;
+  private timeLabel: HTMLElement | null = null;
+  private speedSelect: HTMLSelectElement | null = null;
+  private status: ReplayStatus | null = null;
+  private isSeeking = false;
+  private onCommand: ((command: ReplayControlCommand) => void) | null = null;
+
+  constructor() {
+    this.createBar();
+    this.bindEvents();
+  }
+
+  /**
+   * Set callback for sending replay commands
+   */
+  public setCommandCallback(callback: (command: ReplayControlCommand) => void): void {
+    this.onCommand = callback;
+  }
+
+  /**
+   * Update the bar from a replay status, the bar is only visible while a replay is active
+   */
+  public updateStatus(status: ReplayStatus): void {
+    this.status = status;
+    if (!this.bar || !this.playButton || !this.seekSlider || !this.timeLabel || !this.speedSelect) return;
+
+    this.bar.classList.toggle('hidden', !status.active);
+    this.bar.title = status.file;
+
+    this.playButton.textContent = status.playing ? '⏸' : '▶';
+    this.playButton.title = status.playing ? 'Pause' : 'Play';
+
+    const duration = status.durationMs ?? 0;
+    this.seekSlider.max = String(duration);
+    this.seekSlider.disabled = duration === 0;
+    if (!this.isSeeking) {
+      this.seekSlider.value = String(status.positionMs);
+      this.timeLabel.textContent = this.formatProgress(status.positionMs);
+    }
+
+    this.speedSelect.value = String(status.speed);
+  }
+
+  /**
+   * Create the replay bar DOM structure
+   */
+  private createBar(): void {
+    const bar = document.createElement('div');
+    bar.id = 'replay-controls';
+    bar.className = 'replay-controls hidden';
+
+    bar.innerHTML = `
+      <button id="replay-play" class="replay-btn" title="Play">▶</button>
+      <input type="range" id="replay-seek" class="replay-seek" min="0" max="0" value="0" step="100">
+      <span id="replay-time" class="replay-time">0:00 / 0:00</span>
+      <select id="replay-speed" class="replay-speed" title="Playback speed">
+        ${SPEED_OPTIONS.map(speed => `<option value="${speed}" ${speed === 1 ? 'selected' : ''}>${speed}x</option>`).join('')}
+      </select>
+    `;
+
+    document.body.appendChild(bar);
+    this.bar = bar;
+    this.playButton = bar.querySelector('#replay-play');
+    this.seekSlider = bar.querySelector('#replay-seek');
+    this.timeLabel = bar.querySelector('#replay-time');
+    this.speedSelect = bar.querySelector('#replay-speed');
+
+    this.addStyles();
+  }
+
+  /**
+   * Add CSS styles for the replay bar
+   */
+  private addStyles(): void {
+    if (document.getElementById('replay-controls-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'replay-controls-styles';
+    style.textContent = `
+      .replay-controls {
+        position: fixed;
+        bottom: 20px;
+        left: 50%;
+        transform: translateX(-50%);
+        display: flex;
+        align-items: center;
+        gap: 10px;
+        background: rgba(20, 20, 20, 0.9);
+        border: 1px solid #555;
+        border-radius: 6px;
+        padding: 8px 12px;
+        z-index: 900;
+        color: white;
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+        font-size: 12px;
+      }
+
+      .replay-controls.hidden {
+        display: none;
+      }
+
+      .replay-btn {
+        background: #333;
+        border: 1px solid #555;
+        border-radius: 4px;
+        color: white;
+        width: 32px;
+        height: 28px;
+        cursor: pointer;
+      }
+
+      .replay-btn:hover {
+        background: #444;
+      }
+
+      .replay-seek {
+        width: 260px;
+        accent-color: #ff6b35;
+      }
+
+      .replay-time {
+        min-width: 90px;
+        text-align: center;
+        font-variant-numeric: tabular-nums;
+      }
+
+      .replay-speed {
+        background: #333;
+        border: 1px solid #555;
+        border-radius: 4px;
+        color: white;
+        padding: 4px;
+      }
+    `;
+
+    document.head.appendChild(style);
+  }
+
+  /**
+   * Bind control events
+   */
+  private bindEvents(): void {
+    this.playButton?.addEventListener('click', () => {
+      this.sendCommand({ action: this.status?.playing ? 'pause' : 'play' });
+    });
+
+    // Only seek when the slider is released, show the target time while dragging
+    this.seekSlider?.addEventListener('input', () => {
+      this.isSeeking = true;
+      if (this.timeLabel && this.seekSlider) {
+        this.timeLabel.textContent = this.formatProgress(Number(this.seekSlider.value));
+      }
+    });
+
+    this.seekSlider?.addEventListener('change', () => {
+      this.isSeeking = false;
+      if (this.seekSlider) {
+        this.sendCommand({ action: 'seek', positionMs: Number(this.seekSlider.value) });
+      }
+    });
+
+    this.speedSelect?.addEventListener('change', () => {
+      if (this.speedSelect) {
+        this.sendCommand({ action: 'speed', speed: Number(this.speedSelect.value) });
+      }
+    });
+  }
+
+  private sendCommand(command: ReplayControlCommand): void {
+    if (this.onCommand) {
+      this.onCommand(command);
+    }
+  }
+
+  private formatProgress(positionMs: number): string {
+    return `${this.formatTime(positionMs)} / ${this.formatTime(this.status?.durationMs ?? 0)}`;
+  }
+
+  private formatTime(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${String(seconds).padStart(2, '0')}`;
+  }
+
+  /**
+   * Destroy the replay bar
+   */
+  public destroy(): void {
+    if (this.bar) {
+      this.bar.remove();
+      this.bar = null;
+    }
+
+    const styleElement = document.getElementById('replay-controls-styles');
+    if (styleElement) {
+      styleElement.remove();
+    }
+  }
+}
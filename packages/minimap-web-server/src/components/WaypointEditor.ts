@@ -0,0 +1,397 @@
+/**
+ * Waypoint Editor Component
+ * Dialog for creating, editing and deleting waypoints, opened by right-clicking the minimap.
+ */
+
+import type { Waypoint, WaypointInput } from "@minecraft-bedrock-minimap/shared";
+import { WAYPOINT_ICONS, WAYPOINT_COLORS } from "@minecraft-bedrock-minimap/shared";
+
+const DIMENSION_NAMES = ['Overworld', 'Nether', 'End'];
+
+export class WaypointEditor {
+  private dialog: HTMLElement | null = null;
+  private isOpen = false;
+  // Waypoint being edited, null when creating a new one
+  private editing: Waypoint | null = null;
+  private selectedColor = WAYPOINT_COLORS[0];
+  private selectedIcon = WAYPOINT_ICONS[0];
+  private onSave: ((waypoint: WaypointInput | Waypoint) => void) | null = null;
+  private onDelete: ((id: string) => void) | null = null;
+
+  constructor() {
+    this.createDialog();
+    this.bindEvents();
+  }
+
+  /**
+   * Set callback for saving a waypoint, receives the full waypoint when an existing one was edited
+   */
+  public setSaveCallback(callback: (waypoint: WaypointInput | Waypoint) => void): void {
+    this.onSave = callback;
+  }
+
+  /**
+   * Set callback for deleting a waypoint
+   */
+  public setDeleteCallback(callback: (id: string) => void): void {
+    this.onDelete = callback;
+  }
+
+  /**
+   * Open the dialog for a new waypoint at a position
+   */
+  public openNew(position: { x: number; y: number; z: number; dimension: number }): void {
+    this.editing = null;
+    this.fill({
+      name: '',
+      ...position,
+      color: this.selectedColor,
+      icon: this.selectedIcon
+    });
+    this.open();
+  }
+
+  /**
+   * Open the dialog for an existing waypoint
+   */
+  public openEdit(waypoint: Waypoint): void {
+    this.editing = waypoint;
+    this.fill(waypoint);
+    this.open();
+  }
+
+  /**
+   * Create the dialog DOM structure
+   */
+  private createDialog(): void {
+    const dialog = document.createElement('div');
+    dialog.id = 'waypoint-editor';
+    dialog.className = 'waypoint-editor hidden';
+
+    dialog.innerHTML = `
+      <div class="settings-header">
+        <h3 id="waypoint-editor-title">📍 New Waypoint</h3>
+        <button class="close-btn" title="Close">&times;</button>
+      </div>
+
+      <label class="waypoint-field">
+        Name
+        <input type="text" id="waypoint-name" maxlength="64" placeholder="Waypoint">
+      </label>
+
+      <div class="waypoint-coordinates">
+        <label class="waypoint-field">X <input type="number" id="waypoint-x"></label>
+        <label class="waypoint-field">Y <input type="number" id="waypoint-y"></label>
+        <label class="waypoint-field">Z <input type="number" id="waypoint-z"></label>
+      </div>
+
+      <label class="waypoint-field">
+        Dimension
+        <select id="waypoint-dimension">
+          ${DIMENSION_NAMES.map((name, id) => `<option value="${id}">${name}</option>`).join('')}
+        </select>
+      </label>
+
+      <div class="waypoint-field">
+        Color
+        <div class="waypoint-colors">
+          ${WAYPOINT_COLORS.map(color => `<button class="waypoint-color" data-color="${color}" style="background-color: ${color}" title="${color}"></button>`).join('')}
+        </div>
+      </div>
+
+      <div class="waypoint-field">
+        Icon
+        <div class="waypoint-icons">
+          ${WAYPOINT_ICONS.map(icon => `<button class="waypoint-icon" data-icon="${icon}">${icon}</button>`).join('')}
+        </div>
+      </div>
+
+      <div class="waypoint-actions">
+        <button id="waypoint-delete" class="waypoint-btn danger">Delete</button>
+        <button id="waypoint-cancel" class="waypoint-btn">Cancel</button>
+        <button id="waypoint-save" class="waypoint-btn primary">Save</button>
+      </div>
+    `;
+
+    document.body.appendChild(dialog);
+    this.dialog = dialog;
+
+    this.addStyles();
+  }
+
+  /**
+   * Add CSS styles for the dialog
+   */
+  private addStyles(): void {
+    if (document.getElementById('waypoint-editor-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'waypoint-editor-styles';
+    style.textContent = `
+      .waypoint-editor {
+        position: fixed;
+        top: 50%;
+        left: 50%;
+        transform: translate(-50%, -50%);
+        background: rgba(20, 20, 20, 0.98);
+        border: 2px solid #555;
+        border-radius: 8px;
+        padding: 16px;
+        z-index: 1000;
+        width: 300px;
+        color: white;
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+        font-size: 12px;
+        box-shadow: 0 4px 20px rgba(0, 0, 0, 0.5);
+      }
+
+      .waypoint-editor.hidden {
+        display: none;
+      }
+
+      .waypoint-editor .settings-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 12px;
+      }
+
+      .waypoint-editor .settings-header h3 {
+        margin: 0;
+        font-size: 16px;
+        color: #ff6b35;
+      }
+
+      .waypoint-editor .close-btn {
+        background: none;
+        border: none;
+        color: #ccc;
+        font-size: 22px;
+        cursor: pointer;
+      }
+
+      .waypoint-field {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        margin-bottom: 10px;
+        color: #ccc;
+      }
+
+      .waypoint-field input,
+      .waypoint-field select {
+        background: #333;
+        border: 1px solid #555;
+        border-radius: 4px;
+        color: white;
+        padding: 4px 6px;
+        min-width: 0;
+      }
+
+      .waypoint-coordinates {
+        display: grid;
+        grid-template-columns: repeat(3, 1fr);
+        gap: 6px;
+      }
+
+      .waypoint-colors,
+      .waypoint-icons {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px;
+      }
+
+      .waypoint-color {
+        width: 22px;
+        height: 22px;
+        border: 2px solid transparent;
+        border-radius: 50%;
+        cursor: pointer;
+        padding: 0;
+      }
+
+      .waypoint-icon {
+        width: 28px;
+        height: 28px;
+        background: #333;
+        border: 2px solid transparent;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        padding: 0;
+      }
+
+      .waypoint-color.selected,
+      .waypoint-icon.selected {
+        border-color: white;
+      }
+
+      .waypoint-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 6px;
+        margin-top: 6px;
+      }
+
+      .waypoint-btn {
+        background: #333;
+        border: 1px solid #555;
+        border-radius: 4px;
+        color: white;
+        padding: 5px 12px;
+        cursor: pointer;
+      }
+
+      .waypoint-btn.primary {
+        background: #ff6b35;
+        border-color: #ff6b35;
+      }
+
+      .waypoint-btn.danger {
+        margin-right: auto;
+        color: #ff6b6b;
+      }
+
+      .waypoint-btn.hidden {
+        display: none;
+      }
+    `;
+
+    document.head.appendChild(style);
+  }
+
+  /**
+   * Bind dialog events
+   */
+  private bindEvents(): void {
+    if (!this.dialog) return;
+
+    this.dialog.querySelector('.close-btn')?.addEventListener('click', () => this.close());
+    this.dialog.querySelector('#waypoint-cancel')?.addEventListener('click', () => this.close());
+    this.dialog.querySelector('#waypoint-save')?.addEventListener('click', () => this.save());
+
+    this.dialog.querySelector('#waypoint-delete')?.addEventListener('click', () => {
+      if (this.editing && this.onDelete) {
+        this.onDelete(this.editing.id);
+      }
+      this.close();
+    });
+
+    this.dialog.querySelectorAll<HTMLButtonElement>('.waypoint-color').forEach(button => {
+      button.addEventListener('click', () => this.selectColor(button.dataset.color!));
+    });
+
+    this.dialog.querySelectorAll<HTMLButtonElement>('.waypoint-icon').forEach(button => {
+      button.addEventListener('click', () => this.selectIcon(button.dataset.icon!));
+    });
+
+    this.dialog.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        this.save();
+      } else if (e.key === 'Escape') {
+        this.close();
+      }
+    });
+  }
+
+  /**
+   * Fill the form from a waypoint
+   */
+  private fill(waypoint: WaypointInput): void {
+    if (!this.dialog) return;
+
+    this.dialog.querySelector('#waypoint-editor-title')!.textContent = this.editing ? '📍 Edit Waypoint' : '📍 New Waypoint';
+    this.dialog.querySelector('#waypoint-delete')!.classList.toggle('hidden', !this.editing);
+    this.getInput('#waypoint-name').value = waypoint.name;
+    this.getInput('#waypoint-x').value = String(waypoint.x);
+    this.getInput('#waypoint-y').value = String(waypoint.y);
+    this.getInput('#waypoint-z').value = String(waypoint.z);
+    this.getInput('#waypoint-dimension').value = String(waypoint.dimension);
+    this.selectColor(waypoint.color);
+    this.selectIcon(waypoint.icon);
+  }
+
+  private selectColor(color: string): void {
+    this.selectedColor = color;
+    this.dialog?.querySelectorAll<HTMLButtonElement>('.waypoint-color').forEach(button => {
+      button.classList.toggle('selected', button.dataset.color === color);
+    });
+  }
+
+  private selectIcon(icon: string): void {
+    this.selectedIcon = icon;
+    this.dialog?.querySelectorAll<HTMLButtonElement>('.waypoint-icon').forEach(button => {
+      button.classList.toggle('selected', button.dataset.icon === icon);
+    });
+  }
+
+  private getInput(selector: string): HTMLInputElement | HTMLSelectElement {
+    return this.dialog!.querySelector(selector) as HTMLInputElement | HTMLSelectElement;
+  }
+
+  /**
+   * Send the form contents and close the dialog
+   */
+  private save(): void {
+    const input: WaypointInput = {
+      name: this.getInput('#waypoint-name').value.trim() || 'Waypoint',
+      x: Number(this.getInput('#waypoint-x').value) || 0,
+      y: Number(this.getInput('#waypoint-y').value) || 0,
+      z: Number(this.getInput('#waypoint-z').value) || 0,
+      dimension: Number(this.getInput('#waypoint-dimension').value) || 0,
+      color: this.selectedColor,
+      icon: this.selectedIcon
+    };
+
+    if (this.onSave) {
+      this.onSave(this.editing ? { ...this.editing, ...input } : input);
+    }
+    this.close();
+  }
+
+  /**
+   * Open the dialog
+   */
+  public open(): void {
+    if (!this.dialog) return;
+
+    this.isOpen = true;
+    this.dialog.classList.remove('hidden');
+    this.getInput('#waypoint-name').focus();
+  }
+
+  /**
+   * Close the dialog
+   */
+  public close(): void {
+    if (!this.dialog) return;
+
+    this.isOpen = false;
+    this.editing = null;
+    this.dialog.classList.add('hidden');
+  }
+
+  /**
+   * Check if the dialog is open
+   */
+  public isOpened(): boolean {
+    return this.isOpen;
+  }
+
+  /**
+   * Destroy the dialog
+   */
+  public destroy(): void {
+    if (this.dialog) {
+      this.dialog.remove();
+      this.dialog = null;
+    }
+
+    const styleElement = document.getElementById('waypoint-editor-styles');
+    if (styleElement) {
+      styleElement.remove();
+    }
+
+    this.isOpen = false;
+  }
+}
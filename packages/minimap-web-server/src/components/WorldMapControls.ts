@@ -0,0 +1,221 @@
+/**
+ * World Map Controls Component
+ * Toolbar of the full-screen world map. While open the minimap fills the window,
+ * can be dragged and zoomed with the mouse wheel and no longer follows the player.
+ */
+
+export class WorldMapControls {
+  private toolbar: HTMLElement | null = null;
+  private recentreButton: HTMLButtonElement | null = null;
+  private zoomLabel: HTMLElement | null = null;
+  private isOpen = false;
+  private onRecentre: (() => void) | null = null;
+  private onZoom: ((direction: 1 | -1) => void) | null = null;
+  private onClose: (() => void) | null = null;
+
+  constructor() {
+    this.createToolbar();
+    this.bindEvents();
+  }
+
+  /**
+   * Set callback for centering the map on the player again
+   */
+  public setRecentreCallback(callback: () => void): void {
+    this.onRecentre = callback;
+  }
+
+  /**
+   * Set callback for the zoom buttons, 1 zooms in and -1 zooms out
+   */
+  public setZoomCallback(callback: (direction: 1 | -1) => void): void {
+    this.onZoom = callback;
+  }
+
+  /**
+   * Set callback for leaving the world map
+   */
+  public setCloseCallback(callback: () => void): void {
+    this.onClose = callback;
+  }
+
+  /**
+   * Show the recentre button while the map is panned away from the player
+   */
+  public setFollowing(following: boolean): void {
+    this.recentreButton?.classList.toggle('hidden', following);
+  }
+
+  /**
+   * Show the current scale
+   */
+  public setBlockSize(blockSize: number): void {
+    if (!this.zoomLabel) return;
+
+    this.zoomLabel.textContent = blockSize >= 1
+      ? `${blockSize} px/block`
+      : `1 px/${1 / blockSize} blocks`;
+  }
+
+  /**
+   * Create the toolbar DOM structure
+   */
+  private createToolbar(): void {
+    const toolbar = document.createElement('div');
+    toolbar.id = 'world-map-controls';
+    toolbar.className = 'world-map-controls hidden';
+
+    toolbar.innerHTML = `
+      <span class="world-map-title">🗺️ World Map</span>
+      <button class="world-map-btn" id="world-map-zoom-out" title="Zoom Out">－</button>
+      <span class="world-map-zoom"></span>
+      <button class="world-map-btn" id="world-map-zoom-in" title="Zoom In">＋</button>
+      <button class="world-map-btn hidden" id="world-map-recentre" title="Recentre on player">🎯 Recentre</button>
+      <button class="world-map-btn" id="world-map-close" title="Close (Esc)">&times;</button>
+    `;
+
+    document.body.appendChild(toolbar);
+    this.toolbar = toolbar;
+    this.recentreButton = toolbar.querySelector('#world-map-recentre');
+    this.zoomLabel = toolbar.querySelector('.world-map-zoom');
+
+    this.addStyles();
+  }
+
+  /**
+   * Add CSS styles for the toolbar and the full-screen map
+   */
+  private addStyles(): void {
+    if (document.getElementById('world-map-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'world-map-styles';
+    style.textContent = `
+      body.world-map-mode .minimap-container {
+        position: fixed;
+        inset: 0;
+        z-index: 500;
+        border-radius: 0;
+      }
+
+      body.world-map-mode #minimap {
+        cursor: grab;
+      }
+
+      body.world-map-mode #minimap.dragging {
+        cursor: grabbing;
+      }
+
+      .world-map-controls {
+        position: fixed;
+        top: 8px;
+        left: 50%;
+        transform: translateX(-50%);
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        background: rgba(20, 20, 20, 0.9);
+        border: 1px solid #555;
+        border-radius: 6px;
+        padding: 4px 8px;
+        z-index: 600;
+        color: white;
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+        font-size: 12px;
+      }
+
+      .world-map-controls.hidden,
+      .world-map-btn.hidden {
+        display: none;
+      }
+
+      .world-map-title {
+        color: #ff6b35;
+        font-weight: bold;
+        margin-right: 4px;
+      }
+
+      .world-map-zoom {
+        min-width: 80px;
+        text-align: center;
+        font-family: monospace;
+        color: #ccc;
+      }
+
+      .world-map-btn {
+        background: #333;
+        border: 1px solid #555;
+        border-radius: 4px;
+        color: white;
+        padding: 2px 8px;
+        cursor: pointer;
+        font-size: 12px;
+      }
+
+      .world-map-btn:hover {
+        background: #444;
+      }
+    `;
+
+    document.head.appendChild(style);
+  }
+
+  /**
+   * Bind toolbar events
+   */
+  private bindEvents(): void {
+    if (!this.toolbar) return;
+
+    this.toolbar.querySelector('#world-map-zoom-in')?.addEventListener('click', () => this.onZoom?.(1));
+    this.toolbar.querySelector('#world-map-zoom-out')?.addEventListener('click', () => this.onZoom?.(-1));
+    this.recentreButton?.addEventListener('click', () => this.onRecentre?.());
+    this.toolbar.querySelector('#world-map-close')?.addEventListener('click', () => this.onClose?.());
+  }
+
+  /**
+   * Open the world map
+   */
+  public open(): void {
+    if (!this.toolbar) return;
+
+    this.isOpen = true;
+    this.toolbar.classList.remove('hidden');
+    document.body.classList.add('world-map-mode');
+  }
+
+  /**
+   * Close the world map
+   */
+  public close(): void {
+    if (!this.toolbar) return;
+
+    this.isOpen = false;
+    this.toolbar.classList.add('hidden');
+    document.body.classList.remove('world-map-mode');
+  }
+
+  /**
+   * Check if the world map is open
+   */
+  public isOpened(): boolean {
+    return this.isOpen;
+  }
+
+  /**
+   * Destroy the toolbar
+   */
+  public destroy(): void {
+    if (this.toolbar) {
+      this.toolbar.remove();
+      this.toolbar = null;
+    }
+
+    const styleElement = document.getElementById('world-map-styles');
+    if (styleElement) {
+      styleElement.remove();
+    }
+
+    document.body.classList.remove('world-map-mode');
+    this.isOpen = false;
+  }
+}
@@ -1,12 +1,20 @@
 import { initializeSocket, socket } from "./socket.js";
-import { isColorArrayChunk } from "@minecraft-bedrock-minimap/shared";
-import type { ChunkResponse, ChunkData, InvalidateChunksData, PlayerPosition, BatchUpdateData, ChunkOreData, OreDetectionConfig } from "@minecraft-bedrock-minimap/shared";
-import { MinimapRenderer, type MinimapConfig } from "./rendering/MinimapRenderer.js";
+import { decodeBinaryChunkBatch } from "./chunk-transport.js";
+import { isColorArrayChunk, dimensionChunkKey, SURFACE_LAYER } from "@minecraft-bedrock-minimap/shared";
+import type { ChunkResponse, ChunkData, ChunkDelta, ChunkViewport, InvalidateChunksData, MapLayer, PlayerPosition, BatchUpdateData, BinaryChunkBatch, ChunkOreData, OreDetectionConfig, EntitiesUpdate, PlayerInfo, Waypoint, SpecialPoints } from "@minecraft-bedrock-minimap/shared";
+import { MinimapRenderer, type MinimapConfig, type RenderingMode } from "./rendering/MinimapRenderer.js";
 import { ChunkViewportManager } from "./rendering/ChunkViewportManager.js";
 import type { ViewportBounds } from "./rendering/ViewportTracker.js";
 import { OverlayControls } from "./overlay-controls.js";
 import { OreDetectionSettings } from "./components/OreDetectionSettings.js";
 import { ProxySettingsPanel } from "./components/ProxySettingsPanel.js";
+import { ReplayControls } from "./components/ReplayControls.js";
+import { EntityFilterPanel } from "./components/EntityFilterPanel.js";
+import { LayerPanel } from "./components/LayerPanel.js";
+import { BiomeLegend } from "./components/BiomeLegend.js";
+import { PlayerListPanel } from "./components/PlayerListPanel.js";
+import { WaypointEditor } from "./components/WaypointEditor.js";
+import { WorldMapControls } from "./components/WorldMapControls.js";
 
 // DOM elements
 const statusIndicator = document.getElementById("status-indicator") as HTMLElement;
@@ -18,6 +26,12 @@ const zoomInBtn = document.getElementById("zoom-in") as HTMLButtonElement;
 const zoomOutBtn = document.getElementById("zoom-out") as HTMLButtonElement;
 const refreshBtn = document.getElementById("refresh") as HTMLButtonElement;
 const oreSettingsToggleBtn = document.getElementById("ore-settings-toggle") as HTMLButtonElement;
+const entityFilterToggleBtn = document.getElementById("entity-filter-toggle") as HTMLButtonElement;
+const layerToggleBtn = document.getElementById("layer-toggle") as HTMLButtonElement;
+const biomeToggleBtn = document.getElementById("biome-toggle") as HTMLButtonElement;
+const spawnToggleBtn = document.getElementById("spawn-toggle") as HTMLButtonElement;
+const playerListToggleBtn = document.getElementById("player-list-toggle") as HTMLButtonElement;
+const worldMapToggleBtn = document.getElementById("world-map-toggle") as HTMLButtonElement;
 const proxySettingsToggleBtn = document.getElementById("proxy-settings-toggle") as HTMLButtonElement;
 const perfMetricsElement = document.getElementById("perf-metrics") as HTMLElement | null;
 
@@ -33,6 +47,36 @@ let perfMonitorInterval: number | null = null;
 let overlayControls: OverlayControls | null = null;
 let oreDetectionSettings: OreDetectionSettings | null = null;
 let proxySettingsPanel: ProxySettingsPanel | null = null;
+let replayControls: ReplayControls | null = null;
+let entityFilterPanel: EntityFilterPanel | null = null;
+let layerPanel: LayerPanel | null = null;
+// Layer the loaded chunks show
+let mapLayer: MapLayer = SURFACE_LAYER;
+let biomeLegend: BiomeLegend | null = null;
+// Refreshes the biome legend while the biome map is shown
+let biomeLegendInterval: number | null = null;
+// Blocks hostile mobs can spawn on are hatched
+let spawnOverlayEnabled = false;
+// Entity updates received before the renderer exists
+let pendingEntityUpdates: EntitiesUpdate[] = [];
+let playerListPanel: PlayerListPanel | null = null;
+let players: PlayerInfo[] = [];
+let waypointEditor: WaypointEditor | null = null;
+let waypoints: Waypoint[] = [];
+let specialPoints: SpecialPoints = { death: null, spawn: null, spawnIsBed: false };
+let worldMapControls: WorldMapControls | null = null;
+let chunkRequestTimer: number | null = null;
+// Viewport last reported to the server, the server sends chunks in and around it
+let reportedViewport: ChunkViewport | null = null;
+// Binary chunk batches decode asynchronously, chained so they are applied in arrival order
+let binaryChunkQueue: Promise<void> = Promise.resolve();
+
+// World map zoom range in pixels per block, zooming steps by a factor of two
+const WORLD_MAP_MIN_BLOCK_SIZE = 1 / 64;
+const WORLD_MAP_MAX_BLOCK_SIZE = 16;
+// Chunks asked from the server per request-chunks event, and the delay between requests
+const CHUNK_REQUEST_BATCH_SIZE = 256;
+const CHUNK_REQUEST_DELAY_MS = 250;
 
 // Overlay mode detection
 const isOverlayMode = detectOverlayMode();
@@ -53,6 +97,15 @@ function detectOverlayMode(): boolean {
   return false;
 }
 
+// Rendering backend picked with ?renderer=legacy|optimized|webgl
+function detectRenderingMode(): RenderingMode | undefined {
+  const renderer = new URLSearchParams(window.location.search).get('renderer');
+  if (renderer === 'legacy' || renderer === 'optimized' || renderer === 'webgl') {
+    return renderer;
+  }
+  return undefined;
+}
+
 
 // Initialize the application
 function init() {
@@ -75,6 +128,53 @@ function init() {
   // Initialize proxy settings panel
   initializeProxySettings();
 
+  // Initialize replay controls, hidden until the proxy reports an active replay
+  replayControls = new ReplayControls();
+  replayControls.setCommandCallback((command) => socket.emit("replay-control", command));
+
+  // Initialize entity filters
+  entityFilterPanel = new EntityFilterPanel();
+  entityFilterPanel.setFiltersChangeCallback((filters) => minimapRenderer?.setEntityFilters(filters));
+
+  // Initialize map layer selection, the server answers a new setting with map-layer
+  layerPanel = new LayerPanel();
+  layerPanel.setSettingChangeCallback((setting) => socket.emit("map-layer-setting", setting));
+
+  biomeLegend = new BiomeLegend();
+
+  // Initialize player list, clicking a player pans the map to them
+  playerListPanel = new PlayerListPanel();
+  playerListPanel.setPlayerSelectCallback((player) => {
+    if (minimapRenderer && player.position) {
+      minimapRenderer.panTo(player.position.x, player.position.z);
+      updateFollowingState();
+    }
+  });
+  playerListPanel.setFollowCallback(() => {
+    minimapRenderer?.followPlayer();
+    updateFollowingState();
+  });
+
+  // Initialize world map toolbar, the map itself is the minimap canvas filling the window
+  worldMapControls = new WorldMapControls();
+  worldMapControls.setRecentreCallback(() => {
+    minimapRenderer?.followPlayer();
+    updateFollowingState();
+  });
+  worldMapControls.setZoomCallback((direction) => zoomWorldMap(direction));
+  worldMapControls.setCloseCallback(() => closeWorldMap());
+
+  // Initialize waypoint editor, waypoints are stored by the minimap server
+  waypointEditor = new WaypointEditor();
+  waypointEditor.setSaveCallback((waypoint) => {
+    if ('id' in waypoint) {
+      socket.emit("waypoint-update", waypoint);
+    } else {
+      socket.emit("waypoint-add", waypoint);
+    }
+  });
+  waypointEditor.setDeleteCallback((id) => socket.emit("waypoint-remove", id));
+
   // Setup event listeners
   setupEventListeners();
 
@@ -213,6 +313,64 @@ function setupEventListeners() {
     });
   }
   
+  // Entity filter button
+  if (entityFilterToggleBtn) {
+    entityFilterToggleBtn.addEventListener("click", () => {
+      if (entityFilterPanel) {
+        entityFilterPanel.toggle();
+      }
+    });
+  }
+
+  // Map layer button
+  if (layerToggleBtn) {
+    layerToggleBtn.addEventListener("click", () => {
+      if (layerPanel) {
+        layerPanel.toggle();
+      }
+    });
+  }
+
+  // Biome map button
+  if (biomeToggleBtn) {
+    biomeToggleBtn.addEventListener("click", () => {
+      setBiomeMap(!biomeLegend?.isShown());
+    });
+  }
+
+  // Mob spawn overlay button
+  if (spawnToggleBtn) {
+    spawnToggleBtn.addEventListener("click", () => {
+      if (!minimapRenderer) return;
+
+      spawnOverlayEnabled = !spawnOverlayEnabled;
+      minimapRenderer.setSpawnOverlay(spawnOverlayEnabled);
+      spawnToggleBtn.classList.toggle("active", spawnOverlayEnabled);
+      // The server only finds spawnable columns while a client shows them
+      socket.emit("spawn-overlay", spawnOverlayEnabled);
+    });
+  }
+
+  // Player list button
+  if (playerListToggleBtn) {
+    playerListToggleBtn.addEventListener("click", () => {
+      if (playerListPanel) {
+        playerListPanel.toggle();
+      }
+    });
+  }
+
+  // World map button
+  if (worldMapToggleBtn) {
+    worldMapToggleBtn.addEventListener("click", () => {
+      if (worldMapControls?.isOpened()) {
+        closeWorldMap();
+      } else {
+        openWorldMap();
+      }
+    });
+  }
+
   // Proxy settings button
   if (proxySettingsToggleBtn) {
     proxySettingsToggleBtn.addEventListener("click", () => {
@@ -239,6 +397,11 @@ function setupEventListeners() {
         oreDetectionSettings.toggle();
       }
     }
+
+    // Escape leaves the world map, unless it closes the waypoint editor
+    if (e.key === 'Escape' && worldMapControls?.isOpened() && !(e.target as HTMLElement).closest('#waypoint-editor')) {
+      closeWorldMap();
+    }
   });
 
   // Minimap click
@@ -254,6 +417,73 @@ function setupEventListeners() {
     console.log(`🖱️ Minimap clicked at ${relX.toFixed(2)}, ${relY.toFixed(2)}`);
     socket.emit("minimap-click", { x: relX, y: relY });
   });
+
+  // Hovering the biome map names the biome under the cursor
+  minimapCanvas.addEventListener("mousemove", (event) => {
+    if (!minimapRenderer || !biomeLegend?.isShown()) return;
+
+    const rect = minimapCanvas.getBoundingClientRect();
+    const position = minimapRenderer.screenToWorld(event.clientX - rect.left, event.clientY - rect.top);
+    biomeLegend.showTooltip(minimapRenderer.getBiomeAt(position.x, position.z), event.clientX, event.clientY);
+  });
+
+  minimapCanvas.addEventListener("mouseleave", () => {
+    biomeLegend?.hideTooltip();
+  });
+
+  // Drag to pan the world map
+  let dragPosition: { x: number; y: number } | null = null;
+
+  minimapCanvas.addEventListener("mousedown", (event) => {
+    if (event.button !== 0 || !worldMapControls?.isOpened()) return;
+    dragPosition = { x: event.clientX, y: event.clientY };
+    minimapCanvas.classList.add("dragging");
+  });
+
+  window.addEventListener("mousemove", (event) => {
+    if (!dragPosition || !minimapRenderer) return;
+    minimapRenderer.panBy(event.clientX - dragPosition.x, event.clientY - dragPosition.y);
+    dragPosition = { x: event.clientX, y: event.clientY };
+    updateFollowingState();
+  });
+
+  window.addEventListener("mouseup", () => {
+    dragPosition = null;
+    minimapCanvas.classList.remove("dragging");
+  });
+
+  // Wheel zooms the world map around the cursor
+  minimapCanvas.addEventListener("wheel", (event) => {
+    if (!worldMapControls?.isOpened()) return;
+    event.preventDefault();
+
+    const rect = minimapCanvas.getBoundingClientRect();
+    zoomWorldMap(event.deltaY < 0 ? 1 : -1, event.clientX - rect.left, event.clientY - rect.top);
+  }, { passive: false });
+
+  // Right click edits the waypoint under the cursor or creates a new one there
+  minimapCanvas.addEventListener("contextmenu", (event) => {
+    event.preventDefault();
+    if (!minimapRenderer || !waypointEditor) return;
+
+    const rect = minimapCanvas.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+
+    const waypoint = minimapRenderer.getWaypointAt(x, y);
+    if (waypoint) {
+      waypointEditor.openEdit(waypoint);
+      return;
+    }
+
+    const position = minimapRenderer.screenToWorld(x, y);
+    waypointEditor.openNew({
+      x: position.x,
+      y: Math.floor(currentPosition?.y ?? 64),
+      z: position.z,
+      dimension: minimapRenderer.getCurrentDimension()
+    });
+  });
 }
 
 // Setup socket event handlers
@@ -273,7 +503,8 @@ function setupSocketHandlers() {
       y: 0, // Y not used for minimap
       z: position.z,
       pitch: 0,
-      yaw: (position as any).yaw || 0
+      yaw: (position as any).yaw || 0,
+      dimension: position.dimension ?? 0
     };
     updatePosition(fullPosition);
   });
@@ -287,11 +518,89 @@ function setupSocketHandlers() {
       updatePosition(data.playerPosition);
     }
     
-    // Process chunk updates
-    if (data.updates.length > 0) {
-      const chunkDataArray: ChunkData[] = data.updates.map(update => update.chunk);
+    // Process chunk updates, deltas patch chunks that are already loaded
+    const chunkDataArray: ChunkData[] = [];
+    const deltas: ChunkDelta[] = [];
+    for (const update of data.updates) {
+      if (update.updateType === 'full') {
+        chunkDataArray.push(update.chunk);
+      } else {
+        deltas.push(update.delta);
+      }
+    }
+    if (chunkDataArray.length > 0) {
       handleChunkResponses(chunkDataArray);
     }
+    if (deltas.length > 0) {
+      minimapRenderer?.applyChunkDeltas(deltas);
+    }
+  });
+
+  // Binary form of batch-update and chunk-data, sent when the handshake asked for binary chunks
+  socket.on("batch-update-binary", (data) => {
+    if (data.playerPosition) {
+      updatePosition(data.playerPosition);
+    }
+    queueBinaryChunks(data, data.deltas);
+  });
+
+  socket.on("chunk-data-binary", (batch) => {
+    queueBinaryChunks(batch);
+  });
+
+  // Replay playback state
+  socket.on("replay-status", (status) => {
+    replayControls?.updateStatus(status);
+  });
+
+  // Mobs, players and items around the player
+  socket.on("entities-update", (update) => {
+    if (minimapRenderer) {
+      minimapRenderer.updateEntities(update);
+    } else if (update.full) {
+      pendingEntityUpdates = [update];
+    } else {
+      pendingEntityUpdates.push(update);
+    }
+  });
+
+  // Other players in the session
+  socket.on("players-update", (update) => {
+    players = update;
+    playerListPanel?.updatePlayers(players);
+    minimapRenderer?.updatePlayers(players);
+  });
+
+  // Shared waypoints
+  socket.on("waypoints-update", (update) => {
+    waypoints = update;
+    minimapRenderer?.setWaypoints(waypoints);
+  });
+
+  // Death and spawn points of the followed player
+  socket.on("special-points", (points) => {
+    specialPoints = points;
+    minimapRenderer?.setSpecialPoints(specialPoints);
+  });
+
+  // Chunks of the previous layer are dropped, the server sends the new layer for the viewport
+  socket.on("map-layer", (layer) => {
+    if (JSON.stringify(layer) !== JSON.stringify(mapLayer)) {
+      console.log(`🕳️ Map layer: ${layer.mode === 'cave' ? `caves below Y ${layer.y}` : 'surface'}`);
+      mapLayer = layer;
+      minimapRenderer?.clearChunks();
+      loadedChunks.clear();
+      pendingChunks.clear();
+    }
+    layerPanel?.setActiveLayer(layer);
+  });
+
+  // The followed world was rebuilt from scratch, chunks held from before are stale
+  socket.on("world-reset", () => {
+    console.log("🔄 World reset");
+    minimapRenderer?.clearChunks();
+    loadedChunks.clear();
+    pendingChunks.clear();
   });
 
   // Socket connection events
@@ -299,8 +608,21 @@ function setupSocketHandlers() {
     console.log("✅ Connected to minimap server");
     updateConnectionStatus(true, "Connected to minimap server");
     initializeMinimap();
-    
-    // Chunks are now automatically sent by server on connection
+
+    if (layerPanel) {
+      socket.emit("map-layer-setting", layerPanel.getSetting());
+    }
+    socket.emit("spawn-overlay", spawnOverlayEnabled);
+
+    // Chunks kept from before a reconnect are only sent again when they changed
+    socket.emit("resync-chunks", minimapRenderer?.getChunkVersions() ?? []);
+
+    // The server sends chunks once it knows the viewport, a new connection starts without one
+    reportedViewport = null;
+    const bounds = minimapRenderer?.getViewportBounds();
+    if (bounds) {
+      reportViewport(bounds);
+    }
   });
 
   socket.on("disconnect", (reason) => {
@@ -333,22 +655,13 @@ function updateConnectionStatus(connected: boolean, message: string) {
   }
 
   if (!connected) {
-    loading.style.display = "flex";
-    minimapCanvas.style.display = "none";
-    positionInfo.style.display = "none";
-
     // Reset current chunk tracking
     currentChunk = null;
 
-    // Destroy renderer and chunk manager on disconnect
-    if (minimapRenderer) {
-      minimapRenderer.destroy();
-      minimapRenderer = null;
-    }
-    if (chunkViewportManager) {
-      chunkViewportManager.destroy();
-      chunkViewportManager = null;
-    }
+    worldMapControls?.close();
+
+    // The renderer keeps its chunks to resync them after reconnecting, requests in flight are lost
+    pendingChunks.clear();
 
     // Stop performance monitoring
     stopPerformanceMonitoring();
@@ -379,7 +692,8 @@ function initializeMinimap() {
       blockSize: currentZoom * 4, // Convert zoom to block size
       renderDistance: 10,
       showGrid: true, //currentZoom >= 2,
-      showFps: true
+      showFps: true,
+      renderingMode: detectRenderingMode()
     };
 
     minimapRenderer = new MinimapRenderer(minimapCanvas, config);
@@ -391,6 +705,16 @@ function initializeMinimap() {
       minimapRenderer.setOreDetectionMode(shouldEnable, initialOreConfig);
       console.log('⛏️ Applied initial ore detection config to renderer');
     }
+
+    if (entityFilterPanel) {
+      minimapRenderer.setEntityFilters(entityFilterPanel.getFilters());
+    }
+    pendingEntityUpdates.forEach(update => minimapRenderer!.updateEntities(update));
+    pendingEntityUpdates = [];
+    minimapRenderer.updatePlayers(players);
+    minimapRenderer.setWaypoints(waypoints);
+    minimapRenderer.setSpecialPoints(specialPoints);
+    updateFollowingState();
   }
 
   // Create chunk viewport manager if not exists
@@ -403,6 +727,10 @@ function initializeMinimap() {
     if (currentPosition && chunkViewportManager) {
       chunkViewportManager.updateViewport(bounds, currentPosition);
     }
+    reportViewport(bounds);
+    if (worldMapControls?.isOpened()) {
+      scheduleChunkRequest();
+    }
   });
 
   // If we have a current position, trigger initial chunk loading
@@ -424,6 +752,133 @@ function updateZoom() {
   }
 }
 
+// Show the recentre buttons while the map is panned away from the player
+function updateFollowingState() {
+  const following = minimapRenderer?.isFollowingPlayer() ?? true;
+  playerListPanel?.setFollowing(following);
+  worldMapControls?.setFollowing(following);
+}
+
+// Colour the map by biome and list the biomes on it
+function setBiomeMap(enabled: boolean) {
+  if (!minimapRenderer || !biomeLegend) return;
+
+  minimapRenderer.setBiomeMode(enabled);
+  biomeToggleBtn?.classList.toggle("active", enabled);
+
+  if (biomeLegendInterval) {
+    clearInterval(biomeLegendInterval);
+    biomeLegendInterval = null;
+  }
+
+  if (enabled) {
+    biomeLegend.update(minimapRenderer.getLoadedBiomes());
+    biomeLegend.show();
+    biomeLegendInterval = window.setInterval(() => {
+      if (minimapRenderer) {
+        biomeLegend?.update(minimapRenderer.getLoadedBiomes());
+      }
+    }, 1000);
+  } else {
+    biomeLegend.hide();
+  }
+}
+
+// Open the full-screen world map, it starts at the minimap position and zoom
+function openWorldMap() {
+  if (!worldMapControls || !minimapRenderer) return;
+
+  worldMapControls.open();
+  worldMapControls.setBlockSize(minimapRenderer.getBlockSize());
+  updateFollowingState();
+  minimapRenderer.resize();
+  scheduleChunkRequest();
+}
+
+// Go back to the minimap centered on the player
+function closeWorldMap() {
+  if (!worldMapControls?.isOpened()) return;
+
+  worldMapControls.close();
+  if (minimapRenderer) {
+    minimapRenderer.followPlayer();
+    minimapRenderer.resize();
+    updateZoom();
+  }
+  updateFollowingState();
+}
+
+// Zoom the world map in or out by a factor of two around a canvas point, the canvas center by default
+function zoomWorldMap(direction: 1 | -1, screenX = minimapCanvas.width / 2, screenY = minimapCanvas.height / 2) {
+  if (!minimapRenderer) return;
+
+  const current = minimapRenderer.getBlockSize();
+  const blockSize = Math.min(
+    WORLD_MAP_MAX_BLOCK_SIZE,
+    Math.max(WORLD_MAP_MIN_BLOCK_SIZE, direction > 0 ? current * 2 : current / 2)
+  );
+  if (blockSize === current) return;
+
+  minimapRenderer.zoomAt(blockSize, screenX, screenY);
+  worldMapControls?.setBlockSize(blockSize);
+}
+
+// Tell the server which chunks are on screen when the chunk bounds or the dimension changed
+function reportViewport(bounds: ViewportBounds) {
+  if (!minimapRenderer || !socket.connected) return;
+
+  const viewport: ChunkViewport = {
+    dimension: minimapRenderer.getCurrentDimension(),
+    minChunkX: bounds.minChunkX,
+    maxChunkX: bounds.maxChunkX,
+    minChunkZ: bounds.minChunkZ,
+    maxChunkZ: bounds.maxChunkZ
+  };
+  if (reportedViewport &&
+      reportedViewport.dimension === viewport.dimension &&
+      reportedViewport.minChunkX === viewport.minChunkX &&
+      reportedViewport.maxChunkX === viewport.maxChunkX &&
+      reportedViewport.minChunkZ === viewport.minChunkZ &&
+      reportedViewport.maxChunkZ === viewport.maxChunkZ) {
+    return;
+  }
+
+  reportedViewport = viewport;
+  socket.emit("viewport-update", viewport);
+}
+
+// Ask the server for chunks in view on the world map, at most one request per delay
+function scheduleChunkRequest() {
+  if (chunkRequestTimer !== null) return;
+
+  chunkRequestTimer = window.setTimeout(() => {
+    chunkRequestTimer = null;
+    requestMissingChunks();
+  }, CHUNK_REQUEST_DELAY_MS);
+}
+
+// Request the next batch of chunks in view that are not loaded, the server only answers for chunks it has cached
+function requestMissingChunks() {
+  if (!minimapRenderer || !chunkViewportManager || !worldMapControls?.isOpened()) return;
+
+  const bounds = minimapRenderer.getViewportBounds();
+  if (!bounds) return;
+
+  const renderer = minimapRenderer;
+  const dimension = renderer.getCurrentDimension();
+  const missing = chunkViewportManager.getMissingChunks(bounds, dimension, (key) => renderer.hasChunk(key));
+  if (missing.length === 0) return;
+
+  // Requested chunks stay pending when the server does not have them, so they are not asked for again
+  const batch = missing.slice(0, CHUNK_REQUEST_BATCH_SIZE);
+  batch.forEach(chunk => pendingChunks.add(chunk.key));
+  socket.emit("request-chunks", batch.map(chunk => ({ x: chunk.chunkX, z: chunk.chunkZ, dimension })));
+
+  if (missing.length > batch.length) {
+    scheduleChunkRequest();
+  }
+}
+
 // Update position display
 function updatePosition(position: PlayerPosition) {
   currentPosition = position;
@@ -455,6 +910,21 @@ function updatePosition(position: PlayerPosition) {
   }
 }
 
+// Decode a binary chunk batch and handle its chunks and deltas once the batches before it are done
+function queueBinaryChunks(batch: BinaryChunkBatch, deltas: ChunkDelta[] = []) {
+  binaryChunkQueue = binaryChunkQueue
+    .then(() => decodeBinaryChunkBatch(batch))
+    .then(chunks => {
+      if (chunks.length > 0) {
+        handleChunkResponses(chunks);
+      }
+      if (deltas.length > 0) {
+        minimapRenderer?.applyChunkDeltas(deltas);
+      }
+    })
+    .catch(error => console.error("❌ Failed to decode binary chunks:", error));
+}
+
 // Handle chunk responses
 function handleChunkResponses(chunks: (ChunkResponse | ChunkData)[]) {
   const validChunks: (ChunkResponse | ChunkData)[] = [];
@@ -466,7 +936,7 @@ function handleChunkResponses(chunks: (ChunkResponse | ChunkData)[]) {
 
     if (isColorArrayChunk(chunk)) {
       // New color array format
-      key = `${chunk.x},${chunk.z}`;
+      key = dimensionChunkKey(chunk.dimension ?? 0, chunk.x, chunk.z);
 
       // Remove from pending
       pendingChunks.delete(key);
@@ -490,7 +960,7 @@ function handleChunkResponses(chunks: (ChunkResponse | ChunkData)[]) {
     } else {
       // Old format - ChunkResponse
       const response = chunk as ChunkResponse;
-      key = `${response.chunkX},${response.chunkZ}`;
+      key = dimensionChunkKey(response.dimension, response.chunkX, response.chunkZ);
 
       // Remove from pending
       pendingChunks.delete(key);
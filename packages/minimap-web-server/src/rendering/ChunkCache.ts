@@ -2,8 +2,11 @@
  * Multi-resolution chunk caching system with LRU eviction
  */
 
+// Cached chunk as drawn, bitmaps come from the raster workers
+export type CachedChunkImage = HTMLCanvasElement | ImageBitmap;
+
 export interface ChunkCacheEntry {
-  canvas: HTMLCanvasElement;  // Off-screen canvas
+  canvas: HTMLCanvasElement | null;  // Off-screen canvas, null when rasterised by a worker
   bitmap?: ImageBitmap;       // GPU-accelerated bitmap
   blockSize: number;          // Resolution it was rendered at
   resolution: number;         // Cache tier resolution (64, 128, 256)
@@ -100,11 +103,11 @@ export class ChunkCache {
     key: string, 
     blockSize: number, 
     creator: () => HTMLCanvasElement | null
-  ): HTMLCanvasElement | null {
+  ): CachedChunkImage | null {
     const entry = this.getForResolution(key, blockSize);
     
     if (entry) {
-      return entry.canvas;
+      return entry.bitmap ?? entry.canvas;
     }
     
     // Create new canvas using creator function
@@ -119,15 +122,28 @@ export class ChunkCache {
   /**
    * Get a cached chunk without creating
    */
-  get(key: string, blockSize: number): HTMLCanvasElement | null {
+  get(key: string, blockSize: number): CachedChunkImage | null {
     const entry = this.getForResolution(key, blockSize);
-    return entry ? entry.canvas : null;
+    return entry ? entry.bitmap ?? entry.canvas : null;
+  }
+
+  /**
+   * Get a cached chunk rendered at any block size, drawn scaled while the current size is rasterised
+   */
+  getAnyResolution(key: string): CachedChunkImage | null {
+    for (const tier of this.resolutionTiers.values()) {
+      const entry = tier.cache.get(key);
+      if (entry) {
+        return entry.bitmap ?? entry.canvas;
+      }
+    }
+    return null;
   }
   
   /**
    * Set a chunk in the cache
    */
-  set(key: string, canvas: HTMLCanvasElement, blockSize: number, bitmap?: ImageBitmap): void {
+  set(key: string, canvas: HTMLCanvasElement | null, blockSize: number, bitmap?: ImageBitmap): void {
     const resolution = this.getResolutionForBlockSize(blockSize);
     const tier = this.resolutionTiers.get(resolution);
     
@@ -171,7 +187,7 @@ export class ChunkCache {
   }
 
   /**
-   * Set cached bitmap for existing entry
+   * Set cached bitmap, a bitmap-only entry is added when the chunk is not cached at this block size
    */
   setBitmap(key: string, blockSize: number, bitmap: ImageBitmap): void {
     const resolution = this.getResolutionForBlockSize(blockSize);
@@ -185,6 +201,8 @@ export class ChunkCache {
       entry.bitmap?.close();
       entry.bitmap = bitmap;
       this.updateAccessTime(key, resolution);
+    } else {
+      this.set(key, null, blockSize, bitmap);
     }
   }
   
@@ -243,20 +261,44 @@ export class ChunkCache {
   invalidate(keys: string[]): void {
     for (const tier of this.resolutionTiers.values()) {
       for (const key of keys) {
-        const entry = tier.cache.get(key);
-        if (entry) {
-          entry.bitmap?.close();
-          tier.cache.delete(key);
-          this.totalMemoryUsage -= entry.memoryUsage;
-          
-          const index = tier.accessOrder.indexOf(key);
-          if (index !== -1) {
-            tier.accessOrder.splice(index, 1);
-          }
-        }
+        this.removeEntry(tier, key);
       }
     }
   }
+
+  /**
+   * Redraw part of a cached chunk in place at every resolution it is cached at,
+   * bitmap entries cannot be drawn on and are invalidated instead
+   * @param key Chunk key
+   * @param draw Draws the changed area onto the chunk canvas at its block size
+   */
+  patch(key: string, draw: (ctx: CanvasRenderingContext2D, blockSize: number) => void): void {
+    for (const tier of this.resolutionTiers.values()) {
+      const entry = tier.cache.get(key);
+      if (!entry) continue;
+
+      const ctx = entry.bitmap ? null : entry.canvas?.getContext('2d');
+      if (ctx) {
+        draw(ctx, entry.blockSize);
+      } else {
+        this.removeEntry(tier, key);
+      }
+    }
+  }
+
+  private removeEntry(tier: ResolutionTier, key: string): void {
+    const entry = tier.cache.get(key);
+    if (!entry) return;
+
+    entry.bitmap?.close();
+    tier.cache.delete(key);
+    this.totalMemoryUsage -= entry.memoryUsage;
+    
+    const index = tier.accessOrder.indexOf(key);
+    if (index !== -1) {
+      tier.accessOrder.splice(index, 1);
+    }
+  }
   
   /**
    * Invalidate chunks that don't match the current block size
@@ -289,6 +331,16 @@ export class ChunkCache {
     this.totalMemoryUsage = 0;
   }
   
+  /**
+   * Number of chunks that fit in the cache at a block size, limited by the tier size and the memory budget
+   */
+  getCapacity(blockSize: number): number {
+    const tier = this.resolutionTiers.get(this.getResolutionForBlockSize(blockSize));
+    if (!tier) return 0;
+
+    return Math.min(tier.maxEntries, Math.floor(this.maxMemoryUsage / this.calculateMemoryUsage(blockSize)));
+  }
+  
   /**
    * Get the current cache size across all tiers
    */
@@ -0,0 +1,170 @@
+/**
+ * ChunkRasterPool - Worker pool for rasterising chunk tiles
+ *
+ * Chunk and ore tiles are drawn by ChunkRasterWorker on an OffscreenCanvas and come
+ * back as ImageBitmaps, so large chunk bursts no longer block the main thread.
+ * Requests are keyed by their chunk cache key, repeated requests for a tile that is
+ * pending or known to be empty are ignored.
+ */
+
+import type { ChunkData, ChunkOreData, OreDetectionConfig } from "@minecraft-bedrock-minimap/shared";
+import type { DeviceCapabilities } from "./RenderingConfig.js";
+
+export type ChunkRasterJob =
+  | { type: 'chunk'; chunk: ChunkData }
+  | { type: 'ore'; oreChunk: ChunkOreData; config: OreDetectionConfig; playerY?: number };
+
+export interface ChunkRasterRequest {
+  id: number;
+  blockSize: number;
+  job: ChunkRasterJob;
+}
+
+export interface ChunkRasterResponse {
+  id: number;
+  bitmap: ImageBitmap | null; // null when the tile has nothing to draw
+}
+
+// Upper bound on workers, one core is left to the main thread
+const MAX_WORKERS = 4;
+
+interface PendingRaster {
+  id: number;
+  blockSize: number;
+}
+
+export class ChunkRasterPool {
+  private workers: Worker[] = [];
+  // Ids of the requests in flight per worker, new work goes to the least busy one
+  private workerRequests: Set<number>[] = [];
+  private pending = new Map<string, PendingRaster>();
+  // Cache key of every request in flight, by request id
+  private requestKeys = new Map<number, string>();
+  // Block size at which a tile had nothing to draw, by cache key
+  private emptyTiles = new Map<string, number>();
+  private nextId = 1;
+  private onRasterized: (key: string, blockSize: number, bitmap: ImageBitmap) => void;
+
+  /**
+   * Check if workers can rasterise with OffscreenCanvas on this device
+   */
+  static isSupported(capabilities: DeviceCapabilities): boolean {
+    return capabilities.supportsOffscreenCanvas && typeof Worker === 'function';
+  }
+
+  constructor(
+    onRasterized: (key: string, blockSize: number, bitmap: ImageBitmap) => void,
+    workerCount: number = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1))
+  ) {
+    this.onRasterized = onRasterized;
+
+    for (let index = 0; index < workerCount; index++) {
+      const worker = new Worker(new URL('./ChunkRasterWorker.ts', import.meta.url), { type: 'module' });
+      worker.addEventListener('message', (event: MessageEvent<ChunkRasterResponse>) => this.handleResponse(index, event.data));
+      worker.addEventListener('error', (event) => this.handleWorkerError(index, event));
+      this.workers.push(worker);
+      this.workerRequests.push(new Set());
+    }
+
+    console.log(`🧵 Chunk raster pool started with ${workerCount} workers`);
+  }
+
+  /**
+   * Queue a tile, the bitmap is passed to the rasterised callback once ready
+   */
+  request(key: string, blockSize: number, job: ChunkRasterJob): void {
+    if (this.emptyTiles.get(key) === blockSize) return;
+    if (this.pending.get(key)?.blockSize === blockSize) return;
+
+    let worker = 0;
+    for (let index = 1; index < this.workers.length; index++) {
+      if (this.workerRequests[index].size < this.workerRequests[worker].size) worker = index;
+    }
+
+    const id = this.nextId++;
+    this.pending.set(key, { id, blockSize });
+    this.requestKeys.set(id, key);
+    this.workerRequests[worker].add(id);
+
+    const request: ChunkRasterRequest = { id, blockSize, job };
+    this.workers[worker].postMessage(request);
+  }
+
+  /**
+   * Drop pending and empty results of changed tiles, bitmaps still in flight are discarded
+   */
+  invalidate(keys: string[]): void {
+    for (const key of keys) {
+      this.pending.delete(key);
+      this.emptyTiles.delete(key);
+    }
+  }
+
+  /**
+   * Forget every tile
+   */
+  clear(): void {
+    this.pending.clear();
+    this.emptyTiles.clear();
+  }
+
+  getStats(): { workers: number; pending: number; emptyTiles: number } {
+    return {
+      workers: this.workers.length,
+      pending: this.pending.size,
+      emptyTiles: this.emptyTiles.size
+    };
+  }
+
+  /**
+   * Stop all workers
+   */
+  destroy(): void {
+    for (const worker of this.workers) {
+      worker.terminate();
+    }
+    this.workers = [];
+    this.workerRequests = [];
+    this.pending.clear();
+    this.requestKeys.clear();
+    this.emptyTiles.clear();
+  }
+
+  private handleResponse(worker: number, response: ChunkRasterResponse): void {
+    this.workerRequests[worker]?.delete(response.id);
+
+    const key = this.requestKeys.get(response.id);
+    this.requestKeys.delete(response.id);
+
+    const pending = key !== undefined ? this.pending.get(key) : undefined;
+    if (key === undefined || !pending || pending.id !== response.id) {
+      // Superseded or invalidated while rasterising
+      response.bitmap?.close();
+      return;
+    }
+
+    this.pending.delete(key);
+    if (response.bitmap) {
+      this.onRasterized(key, pending.blockSize, response.bitmap);
+    } else {
+      this.emptyTiles.set(key, pending.blockSize);
+    }
+  }
+
+  /**
+   * Fail every request in flight on a worker that raised an error so that the tiles can be queued again,
+   * responses still arriving for them are discarded
+   */
+  private handleWorkerError(worker: number, event: ErrorEvent): void {
+    console.error(`❌ Chunk raster worker ${worker} failed:`, event.message);
+
+    for (const id of this.workerRequests[worker] ?? []) {
+      const key = this.requestKeys.get(id);
+      this.requestKeys.delete(id);
+      if (key !== undefined && this.pending.get(key)?.id === id) {
+        this.pending.delete(key);
+      }
+    }
+    this.workerRequests[worker]?.clear();
+  }
+}
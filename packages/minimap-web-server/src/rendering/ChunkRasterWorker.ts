@@ -0,0 +1,39 @@
+/**
+ * ChunkRasterWorker - Rasterises chunk tiles for ChunkRasterPool
+ *
+ * Runs the ChunkRenderer drawing functions on an OffscreenCanvas and transfers the
+ * result back as an ImageBitmap, null when the tile has nothing to draw.
+ */
+
+import type { ChunkRasterRequest, ChunkRasterResponse } from "./ChunkRasterPool.js";
+import { renderChunk, renderChunkOres, hasChunkContent, hasOreChunkContent } from "./ChunkRenderer.js";
+
+self.addEventListener('message', (event: MessageEvent<ChunkRasterRequest>) => {
+  let bitmap: ImageBitmap | null = null;
+  try {
+    bitmap = rasterize(event.data);
+  } catch (error) {
+    console.error('Failed to rasterise chunk tile:', error);
+  }
+
+  const response: ChunkRasterResponse = { id: event.data.id, bitmap };
+  self.postMessage(response, { transfer: bitmap ? [bitmap] : [] });
+});
+
+function rasterize({ blockSize, job }: ChunkRasterRequest): ImageBitmap | null {
+  const hasContent = job.type === 'chunk'
+    ? hasChunkContent(job.chunk)
+    : hasOreChunkContent(job.oreChunk, job.config, job.playerY);
+  if (!hasContent) return null;
+
+  const canvas = new OffscreenCanvas(16 * blockSize, 16 * blockSize);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  if (job.type === 'chunk') {
+    renderChunk(ctx, job.chunk, blockSize);
+  } else {
+    renderChunkOres(ctx, job.oreChunk, blockSize, job.config, job.playerY);
+  }
+  return canvas.transferToImageBitmap();
+}
@@ -5,6 +5,9 @@
 import { getBlockColor, isColorArrayChunk, getOreHighlightColor } from "@minecraft-bedrock-minimap/shared";
 import type { ChunkResponse, ChunkData, LegacyChunkData, ChunkOreData, OreDetectionConfig, OreType } from "@minecraft-bedrock-minimap/shared";
 
+// Chunks are rasterised on the main thread and in ChunkRasterWorker
+export type RasterContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
 /**
  * Chunk rendering class with ImageBitmap support
  */
@@ -175,7 +178,7 @@ export class ChunkRenderer {
  * @param blockSize Size of each block in pixels
  */
 export function renderChunk(
-  ctx: CanvasRenderingContext2D,
+  ctx: RasterContext,
   chunk: ChunkData | ChunkResponse,
   blockSize: number
 ): void {
@@ -201,7 +204,7 @@ export function renderChunk(
  * @param blockSize Size of each block in pixels
  */
 export function renderChunkFromColors(
-  ctx: CanvasRenderingContext2D,
+  ctx: RasterContext,
   chunk: ChunkData,
   blockSize: number
 ): void {
@@ -235,6 +238,47 @@ export function renderChunkFromColors(
   });
 }
 
+/**
+ * Redraw some block columns of a rendered chunk
+ * @param ctx Canvas 2D rendering context holding the chunk
+ * @param chunk Chunk data in color array format
+ * @param blockSize Size of each block in pixels
+ * @param columns Local block columns to redraw
+ */
+export function renderChunkColumns(
+  ctx: RasterContext,
+  chunk: ChunkData,
+  blockSize: number,
+  columns: Array<{ x: number; z: number }>
+): void {
+  ctx.imageSmoothingEnabled = false;
+
+  for (const { x, z } of columns) {
+    ctx.clearRect(x * blockSize, z * blockSize, blockSize, blockSize);
+
+    const color = chunk.colors[x]?.[z];
+    if (color && color !== '#000000') {
+      ctx.fillStyle = color;
+      ctx.fillRect(x * blockSize, z * blockSize, blockSize, blockSize);
+    }
+  }
+}
+
+/**
+ * Check if a chunk has any non-black colors
+ * @param chunk Chunk data in color array format
+ */
+export function hasChunkContent(chunk: ChunkData): boolean {
+  for (let x = 0; x < 16; x++) {
+    for (let z = 0; z < 16; z++) {
+      if (chunk.colors[x]?.[z] && chunk.colors[x][z] !== '#000000') {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
 /**
  * Create a cached chunk canvas
  * @param chunk Chunk data to render
@@ -247,19 +291,7 @@ export function createChunkCanvas(
 ): HTMLCanvasElement | null {
   // Check if this is the new color array format
   if (isColorArrayChunk(chunk)) {
-    // Check if chunk has any non-black colors
-    let hasContent = false;
-    for (let x = 0; x < 16; x++) {
-      for (let z = 0; z < 16; z++) {
-        if (chunk.colors[x]?.[z] && chunk.colors[x][z] !== '#000000') {
-          hasContent = true;
-          break;
-        }
-      }
-      if (hasContent) break;
-    }
-    
-    if (!hasContent) {
+    if (!hasChunkContent(chunk)) {
       return null;
     }
   } else {
@@ -310,7 +342,7 @@ export function createChunkCanvas(
  * @param playerY Optional player Y position for filtering
  */
 export function renderChunkOres(
-  ctx: CanvasRenderingContext2D,
+  ctx: RasterContext,
   chunkOreData: ChunkOreData,
   blockSize: number,
   config: OreDetectionConfig,
@@ -393,7 +425,7 @@ export function renderChunkOres(
  * @param dimmingFactor Factor to dim the colors (0-1)
  */
 export function renderDimmedSurface(
-  ctx: CanvasRenderingContext2D,
+  ctx: RasterContext,
   surfaceColors: string[][],
   blockSize: number,
   dimmingFactor: number
@@ -432,7 +464,7 @@ export function renderDimmedSurface(
  * @param color Glow color
  */
 function renderGlowEffect(
-  ctx: CanvasRenderingContext2D,
+  ctx: RasterContext,
   x: number,
   z: number,
   blockSize: number,
@@ -479,18 +511,20 @@ function dimColor(hexColor: string, factor: number): string {
 }
 
 /**
- * Create a chunk canvas for ore detection mode
+ * Check if an ore chunk has a surface or ores to display within the scanned Y range
  * @param chunkOreData Chunk ore data to render
- * @param blockSize Size of each block in pixels
  * @param config Ore detection configuration
- * @returns Off-screen canvas with rendered ore highlights
+ * @param playerY Optional player Y position for filtering
  */
-export function createOreChunkCanvas(
+export function hasOreChunkContent(
   chunkOreData: ChunkOreData,
-  blockSize: number,
   config: OreDetectionConfig,
   playerY?: number
-): HTMLCanvasElement | null {
+): boolean {
+  if (chunkOreData.surfaceColors) {
+    return true;
+  }
+
   // Calculate scan range based on player Y and offsets
   const scanMinY = playerY !== undefined && config.yLevelOffsets 
     ? Math.max(-64, Math.floor(playerY + config.yLevelOffsets.minY))
@@ -500,12 +534,26 @@ export function createOreChunkCanvas(
     : 320;
     
   // Check if chunk has any ores to display within Y-range
-  const hasVisibleOres = chunkOreData.ores.some(ore => 
+  return chunkOreData.ores.some(ore => 
     ore.y >= scanMinY && ore.y <= scanMaxY &&
     config.highlightedOres.includes(ore.oreType)
   );
-  
-  if (!hasVisibleOres && !chunkOreData.surfaceColors) {
+}
+
+/**
+ * Create a chunk canvas for ore detection mode
+ * @param chunkOreData Chunk ore data to render
+ * @param blockSize Size of each block in pixels
+ * @param config Ore detection configuration
+ * @returns Off-screen canvas with rendered ore highlights
+ */
+export function createOreChunkCanvas(
+  chunkOreData: ChunkOreData,
+  blockSize: number,
+  config: OreDetectionConfig,
+  playerY?: number
+): HTMLCanvasElement | null {
+  if (!hasOreChunkContent(chunkOreData, config, playerY)) {
     return null;
   }
   
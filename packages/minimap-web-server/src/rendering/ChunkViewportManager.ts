@@ -2,6 +2,7 @@
  * ChunkViewportManager - Tracks visible chunks and manages viewport-based chunk lifecycle
  */
 
+import { dimensionChunkKey, parseDimensionChunkKey } from "@minecraft-bedrock-minimap/shared";
 import type { PlayerPosition } from "@minecraft-bedrock-minimap/shared";
 import type { ViewportBounds } from "./ViewportTracker.js";
 
@@ -10,6 +11,9 @@ export interface Vector2 {
   z: number;
 }
 
+// Zoomed far out the view holds too many chunks to list one by one, chunk tracking pauses above this
+const MAX_VIEWPORT_CHUNKS = 16384;
+
 interface ChunkPriority {
   key: string;
   chunkX: number;
@@ -41,12 +45,21 @@ export class ChunkViewportManager {
     // Update velocity tracking
     this.updateVelocity(playerPos);
 
+    const viewportChunks = (bounds.maxChunkX - bounds.minChunkX + 1) * (bounds.maxChunkZ - bounds.minChunkZ + 1);
+    if (viewportChunks > MAX_VIEWPORT_CHUNKS) {
+      this.neededChunks = [];
+      return;
+    }
+
+    // Chunk keys are scoped to the dimension the player is in
+    const dimension = playerPos.dimension ?? 0;
+
     // Get visible chunks
-    const visibleChunks = this.getVisibleChunks(bounds);
+    const visibleChunks = this.getVisibleChunks(bounds, dimension);
     // console.log(`👁️ Viewport bounds: ${bounds.minChunkX},${bounds.minChunkZ} to ${bounds.maxChunkX},${bounds.maxChunkZ} = ${visibleChunks.length} chunks`);
     
     // Get predicted chunks based on movement
-    const predictedChunks = this.getPredictedChunks(bounds, this.playerVelocity);
+    const predictedChunks = this.getPredictedChunks(bounds, this.playerVelocity, dimension);
     
     // Combine and prioritize chunks
     const allChunks = new Set([...visibleChunks, ...predictedChunks]);
@@ -88,19 +101,19 @@ export class ChunkViewportManager {
     this.lastUpdateTime = now;
   }
 
-  private getVisibleChunks(bounds: ViewportBounds): string[] {
+  private getVisibleChunks(bounds: ViewportBounds, dimension: number): string[] {
     const chunks: string[] = [];
 
     for (let x = bounds.minChunkX; x <= bounds.maxChunkX; x++) {
       for (let z = bounds.minChunkZ; z <= bounds.maxChunkZ; z++) {
-        chunks.push(`${x},${z}`);
+        chunks.push(dimensionChunkKey(dimension, x, z));
       }
     }
 
     return chunks;
   }
 
-  private getPredictedChunks(bounds: ViewportBounds, velocity: Vector2): string[] {
+  private getPredictedChunks(bounds: ViewportBounds, velocity: Vector2, dimension: number): string[] {
     // Don't predict if not moving much
     const speed = Math.sqrt(velocity.x * velocity.x + velocity.z * velocity.z);
     if (speed < 2) { // Less than 2 blocks/second
@@ -126,7 +139,7 @@ export class ChunkViewportManager {
     // Only add chunks in the direction of movement
     for (let x = predictedMinChunkX; x <= predictedMaxChunkX; x++) {
       for (let z = predictedMinChunkZ; z <= predictedMaxChunkZ; z++) {
-        const key = `${x},${z}`;
+        const key = dimensionChunkKey(dimension, x, z);
         
         // Check if this chunk is in the direction of movement
         const chunkDirX = (x * 16 + 8) - bounds.centerWorldX;
@@ -146,7 +159,7 @@ export class ChunkViewportManager {
 
   private prioritizeChunks(chunkKeys: string[], playerPos: PlayerPosition): ChunkPriority[] {
     const priorities: ChunkPriority[] = chunkKeys.map(key => {
-      const [x, z] = key.split(',').map(Number);
+      const { x, z } = parseDimensionChunkKey(key);
       
       // Calculate distance from player to chunk center
       const chunkCenterX = x * 16 + 8;
@@ -169,6 +182,36 @@ export class ChunkViewportManager {
     return priorities.sort((a, b) => a.priority - b.priority);
   }
 
+  /**
+   * Chunks on screen that are neither loaded nor requested, closest to the viewport center first.
+   * Unlike the viewport bounds this leaves out the scroll buffer, which gets large when zoomed out.
+   * Returns nothing when zoomed out too far to list the chunks.
+   */
+  getMissingChunks(bounds: ViewportBounds, dimension: number, isLoaded: (key: string) => boolean): ChunkPriority[] {
+    const halfWidthBlocks = bounds.screenWidth / bounds.zoom / 2;
+    const halfHeightBlocks = bounds.screenHeight / bounds.zoom / 2;
+    const minChunkX = Math.floor((bounds.centerWorldX - halfWidthBlocks) / 16);
+    const maxChunkX = Math.floor((bounds.centerWorldX + halfWidthBlocks) / 16);
+    const minChunkZ = Math.floor((bounds.centerWorldZ - halfHeightBlocks) / 16);
+    const maxChunkZ = Math.floor((bounds.centerWorldZ + halfHeightBlocks) / 16);
+    if ((maxChunkX - minChunkX + 1) * (maxChunkZ - minChunkZ + 1) > MAX_VIEWPORT_CHUNKS) {
+      return [];
+    }
+
+    const missing: string[] = [];
+    for (let x = minChunkX; x <= maxChunkX; x++) {
+      for (let z = minChunkZ; z <= maxChunkZ; z++) {
+        const key = dimensionChunkKey(dimension, x, z);
+        if (!this.loadedChunks.has(key) && !this.pendingChunks.has(key) && !isLoaded(key)) {
+          missing.push(key);
+        }
+      }
+    }
+
+    const center: PlayerPosition = { x: bounds.centerWorldX, y: 0, z: bounds.centerWorldZ, pitch: 0, yaw: 0 };
+    return this.prioritizeChunks(missing, center);
+  }
+
   getNeededChunks(): ChunkPriority[] {
     return this.neededChunks || [];
   }
@@ -184,7 +227,11 @@ export class ChunkViewportManager {
     const chunksToEvict: string[] = [];
 
     this.loadedChunks.forEach(key => {
-      const [x, z] = key.split(',').map(Number);
+      const { dimension, x, z } = parseDimensionChunkKey(key);
+
+      // Chunks of other dimensions are kept until the player returns there
+      if (dimension !== (playerPos.dimension ?? 0)) return;
+
       const chunkCenterX = x * 16 + 8;
       const chunkCenterZ = z * 16 + 8;
       
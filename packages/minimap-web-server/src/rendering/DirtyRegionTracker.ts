@@ -28,6 +28,10 @@ export class DirtyRegionTracker {
     this.markDirty(x, z, size, size);
   }
 
+  markBlockDirty(blockX: number, blockZ: number, blockSize: number): void {
+    this.markDirty(blockX * blockSize, blockZ * blockSize, blockSize, blockSize);
+  }
+
   markFullRedraw(): void {
     this.fullRedraw = true;
     this.dirtyRegions = [];
@@ -0,0 +1,185 @@
+/**
+ * LodTilePyramid - Pre-downsampled map tiles for far zoom levels
+ *
+ * Level 1 tiles hold one pixel per 2x2 blocks, every further level halves the
+ * resolution again (1:4, 1:8, ...). Level 1 is written chunk by chunk as chunks
+ * arrive, higher levels are rebuilt lazily from their four children when drawn.
+ */
+
+import type { ChunkData } from "@minecraft-bedrock-minimap/shared";
+
+// Width and height of a tile in pixels
+export const LOD_TILE_SIZE = 256;
+// Coarsest level, 1 pixel per 2^MAX_LOD_LEVEL blocks
+export const MAX_LOD_LEVEL = 6;
+
+// Pixels covered by a chunk in a level 1 tile
+const LEVEL_1_CHUNK_PIXELS = 8;
+// Chunks along one side of a level 1 tile
+const LEVEL_1_TILE_CHUNKS = LOD_TILE_SIZE / LEVEL_1_CHUNK_PIXELS;
+
+interface LodTile {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  // Child quadrants (0-3) that changed since the tile was last rebuilt, unused on level 1
+  dirtyQuadrants: Set<number>;
+}
+
+export class LodTilePyramid {
+  private tiles = new Map<string, LodTile>();
+  // Scratch image for writing one chunk into a level 1 tile
+  private chunkImage = new ImageData(LEVEL_1_CHUNK_PIXELS, LEVEL_1_CHUNK_PIXELS);
+
+  /**
+   * Number of blocks along one side of a tile on a level
+   */
+  static getTileBlocks(level: number): number {
+    return LOD_TILE_SIZE * 2 ** level;
+  }
+
+  /**
+   * Write a chunk into its level 1 tile and mark the tiles above it for rebuilding
+   */
+  updateChunk(chunk: ChunkData): void {
+    const dimension = chunk.dimension ?? 0;
+    const tileX = Math.floor(chunk.x / LEVEL_1_TILE_CHUNKS);
+    const tileZ = Math.floor(chunk.z / LEVEL_1_TILE_CHUNKS);
+    const hasColors = chunk.colors.length > 0;
+
+    const tile = hasColors
+      ? this.getOrCreateTile(dimension, 1, tileX, tileZ)
+      : this.tiles.get(this.getTileKey(dimension, 1, tileX, tileZ));
+    if (!tile) return;
+
+    const pixels = this.chunkImage.data;
+    pixels.fill(0);
+    if (hasColors) {
+      this.downsampleChunk(chunk, pixels);
+    }
+
+    const offsetX = (chunk.x - tileX * LEVEL_1_TILE_CHUNKS) * LEVEL_1_CHUNK_PIXELS;
+    const offsetZ = (chunk.z - tileZ * LEVEL_1_TILE_CHUNKS) * LEVEL_1_CHUNK_PIXELS;
+    tile.ctx.putImageData(this.chunkImage, offsetX, offsetZ);
+
+    this.markParentsDirty(dimension, 1, tileX, tileZ);
+  }
+
+  /**
+   * Clear a removed chunk from the pyramid
+   */
+  removeChunk(dimension: number, chunkX: number, chunkZ: number): void {
+    this.updateChunk({ x: chunkX, z: chunkZ, dimension, colors: [], heights: [] });
+  }
+
+  /**
+   * Get an up to date tile, null when nothing was loaded in its area
+   */
+  getTile(dimension: number, level: number, tileX: number, tileZ: number): HTMLCanvasElement | null {
+    const tile = this.tiles.get(this.getTileKey(dimension, level, tileX, tileZ));
+    if (!tile) return null;
+
+    if (tile.dirtyQuadrants.size > 0) {
+      this.rebuildQuadrants(tile, dimension, level, tileX, tileZ);
+    }
+    return tile.canvas;
+  }
+
+  /**
+   * Drop every tile
+   */
+  clear(): void {
+    this.tiles.clear();
+  }
+
+  getTileCount(): number {
+    return this.tiles.size;
+  }
+
+  private getTileKey(dimension: number, level: number, tileX: number, tileZ: number): string {
+    return `${dimension}:${level}:${tileX}:${tileZ}`;
+  }
+
+  private getOrCreateTile(dimension: number, level: number, tileX: number, tileZ: number): LodTile {
+    const key = this.getTileKey(dimension, level, tileX, tileZ);
+    let tile = this.tiles.get(key);
+    if (!tile) {
+      const canvas = document.createElement('canvas');
+      canvas.width = LOD_TILE_SIZE;
+      canvas.height = LOD_TILE_SIZE;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas 2D context not available');
+
+      tile = { canvas, ctx, dirtyQuadrants: new Set() };
+      this.tiles.set(key, tile);
+    }
+    return tile;
+  }
+
+  /**
+   * Average each 2x2 block square of a chunk into one pixel
+   */
+  private downsampleChunk(chunk: ChunkData, pixels: Uint8ClampedArray): void {
+    for (let px = 0; px < LEVEL_1_CHUNK_PIXELS; px++) {
+      for (let pz = 0; pz < LEVEL_1_CHUNK_PIXELS; pz++) {
+        let r = 0, g = 0, b = 0, count = 0;
+
+        for (let dx = 0; dx < 2; dx++) {
+          for (let dz = 0; dz < 2; dz++) {
+            const color = chunk.colors[px * 2 + dx]?.[pz * 2 + dz];
+            if (!color || color === '#000000') continue;
+
+            const value = parseInt(color.slice(1, 7), 16);
+            r += (value >> 16) & 0xff;
+            g += (value >> 8) & 0xff;
+            b += value & 0xff;
+            count++;
+          }
+        }
+
+        if (count === 0) continue;
+        const index = (pz * LEVEL_1_CHUNK_PIXELS + px) * 4;
+        pixels[index] = r / count;
+        pixels[index + 1] = g / count;
+        pixels[index + 2] = b / count;
+        pixels[index + 3] = 255;
+      }
+    }
+  }
+
+  /**
+   * Create the parent tiles of a changed tile and flag the quadrant it covers
+   */
+  private markParentsDirty(dimension: number, level: number, tileX: number, tileZ: number): void {
+    for (let parentLevel = level + 1; parentLevel <= MAX_LOD_LEVEL; parentLevel++) {
+      const parentX = Math.floor(tileX / 2);
+      const parentZ = Math.floor(tileZ / 2);
+      const quadrant = (tileX - parentX * 2) + (tileZ - parentZ * 2) * 2;
+
+      const parent = this.getOrCreateTile(dimension, parentLevel, parentX, parentZ);
+      parent.dirtyQuadrants.add(quadrant);
+
+      tileX = parentX;
+      tileZ = parentZ;
+    }
+  }
+
+  /**
+   * Redraw the changed quadrants of a tile from its children at half size
+   */
+  private rebuildQuadrants(tile: LodTile, dimension: number, level: number, tileX: number, tileZ: number): void {
+    const half = LOD_TILE_SIZE / 2;
+    tile.ctx.imageSmoothingEnabled = true;
+
+    for (const quadrant of tile.dirtyQuadrants) {
+      const dx = quadrant % 2;
+      const dz = Math.floor(quadrant / 2);
+      tile.ctx.clearRect(dx * half, dz * half, half, half);
+
+      const child = this.getTile(dimension, level - 1, tileX * 2 + dx, tileZ * 2 + dz);
+      if (child) {
+        tile.ctx.drawImage(child, dx * half, dz * half, half, half);
+      }
+    }
+    tile.dirtyQuadrants.clear();
+  }
+}
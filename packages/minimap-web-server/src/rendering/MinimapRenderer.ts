@@ -2,25 +2,45 @@
  * Main minimap renderer class with performance optimizations
  */
 
-import { isColorArrayChunk } from "@minecraft-bedrock-minimap/shared";
-import type { ChunkResponse, ChunkData, PlayerPosition, RenderingConfig, ChunkOreData, OreDetectionConfig } from "@minecraft-bedrock-minimap/shared";
-import { ChunkCache } from "./ChunkCache.js";
-import { ChunkRenderer, createChunkCanvas, getChunkSize, renderChunkGrid, createOreChunkCanvas, renderChunkOres } from "./ChunkRenderer.js";
+import { isColorArrayChunk, dimensionChunkKey, applyChunkDelta, getBiomeInfo, ENTITY_CATEGORY_COLORS, DEFAULT_ENTITY_FILTERS } from "@minecraft-bedrock-minimap/shared";
+import type { ChunkResponse, ChunkData, ChunkDelta, HeldChunkVersion, PlayerPosition, RenderingConfig, ChunkOreData, OreDetectionConfig, TrackedEntity, EntitiesUpdate, EntityFilters, PlayerInfo, Waypoint, SpecialPoint, SpecialPoints } from "@minecraft-bedrock-minimap/shared";
+import { ChunkCache, type CachedChunkImage } from "./ChunkCache.js";
+import { ChunkRasterPool, type ChunkRasterJob } from "./ChunkRasterPool.js";
+import { ChunkRenderer, createChunkCanvas, getChunkSize, renderChunkGrid, createOreChunkCanvas, renderChunkOres, renderChunkColumns } from "./ChunkRenderer.js";
 import { MegaTileRenderer } from "./MegaTileRenderer.js";
 import { DirtyRegionTracker } from "./DirtyRegionTracker.js";
 import { LayeredRenderer } from "./LayeredRenderer.js";
 import { RenderingConfigManager, createPerformanceMonitor, type PerformanceMetrics } from "./RenderingConfig.js";
 import { FpsTracker } from "../utils/performance.js";
 import { ViewportTracker, type ViewportBounds } from "./ViewportTracker.js";
+import { LodTilePyramid, LOD_TILE_SIZE, MAX_LOD_LEVEL } from "./LodTilePyramid.js";
+import { WebGLTerrainRenderer } from "./WebGLTerrainRenderer.js";
+
+// Distance of off-screen waypoint arrows from the canvas edge
+const WAYPOINT_EDGE_MARGIN = 14;
+// Radius of waypoint markers, also used for hit testing
+const WAYPOINT_RADIUS = 9;
+// Chunk grid lines are skipped below this chunk size in pixels, they would cover the terrain
+const MIN_GRID_CHUNK_SIZE = 16;
+// Distance of death/spawn direction arrows from the player marker
+const SPECIAL_POINT_ARROW_RADIUS = 20;
+// Death/spawn arrows are hidden once the player is this close (blocks)
+const SPECIAL_POINT_MIN_DISTANCE = 4;
+// Blocks hostile mobs can spawn on are hatched from this block size in pixels, smaller hatching is unreadable
+const MIN_SPAWN_HATCH_BLOCK_SIZE = 2;
+const SPAWN_HATCH_SPACING = 6;
+const SPAWN_HATCH_COLOR = 'rgba(255, 40, 40, 0.85)';
 
 export interface MinimapConfig {
   blockSize: number;
   renderDistance: number;
   showGrid: boolean;
   showFps: boolean;
-  renderingMode?: 'optimized' | 'legacy';
+  renderingMode?: RenderingMode;
 }
 
+export type RenderingMode = 'optimized' | 'legacy' | 'webgl';
+
 export class MinimapRenderer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
@@ -38,6 +58,21 @@ export class MinimapRenderer {
     showOreLabels: false,
     yLevelOffsets: { minY: -10, maxY: 5 }
   };
+
+  // Entity state
+  private entities: Map<string, TrackedEntity> = new Map();
+  private entityFilters: EntityFilters = { ...DEFAULT_ENTITY_FILTERS };
+  private players: PlayerInfo[] = [];
+  private waypoints: Waypoint[] = [];
+  private specialPoints: SpecialPoints = { death: null, spawn: null, spawnIsBed: false };
+
+  // Biome map state, chunks hold biome colours and their terrain colours are kept aside
+  private biomeMode = false;
+  private terrainColors: Map<string, string[][]> = new Map();
+
+  // Hatching over blocks hostile mobs can spawn on
+  private spawnOverlayEnabled = false;
+  private spawnHatchPattern: CanvasPattern | null = null;
   
   // Legacy rendering components
   private chunkCache: ChunkCache;
@@ -47,12 +82,21 @@ export class MinimapRenderer {
   private chunkRenderer: ChunkRenderer;
   private megaTileRenderer: MegaTileRenderer;
   private dirtyRegionTracker: DirtyRegionTracker;
+  // Downsampled tiles drawn instead of single chunks when zoomed far out
+  private lodTilePyramid = new LodTilePyramid();
   private layeredRenderer: LayeredRenderer | null = null;
+  // Rasterises chunk tiles off the main thread, null when workers are unavailable
+  private rasterPool: ChunkRasterPool | null = null;
+  // GPU terrain backend, only created in webgl mode
+  private webglRenderer: WebGLTerrainRenderer | null = null;
   private renderingConfigManager: RenderingConfigManager;
   private performanceMonitor: ReturnType<typeof createPerformanceMonitor>;
   
   // Configuration and state
   private playerPosition: PlayerPosition | null = null;
+  // World position the map is centered on when panned away from the player
+  private viewCenter: { x: number; z: number } | null = null;
+  private currentDimension = 0;
   private config: MinimapConfig;
   private animationId: number | null = null;
   private drawCallCount = 0;
@@ -80,10 +124,13 @@ export class MinimapRenderer {
     if (!ctx) throw new Error('Canvas 2D context not available');
     
     this.ctx = ctx;
-    this.config = { renderingMode: 'optimized', ...config };
+    this.config = { ...config, renderingMode: config.renderingMode ?? 'optimized' };
     
     // Initialize rendering systems
     this.initializeRenderingSystems();
+    if (this.config.renderingMode === 'webgl') {
+      this.setRenderingMode('webgl');
+    }
     
     // Get UI elements
     this.fpsElement = document.getElementById('fps-counter');
@@ -106,21 +153,63 @@ export class MinimapRenderer {
   }
 
   private initializeRenderingSystems(): void {
+    this.renderingConfigManager = new RenderingConfigManager();
+    this.rasterPool = this.createRasterPool();
+
     // Legacy components (always needed for fallback)
-    this.chunkCache = new ChunkCache(150, 100); // 150 entries, 100MB limit
+    // 150 entries, 100MB limit, worker rasterised bitmaps need room for a full screen of chunks
+    this.chunkCache = new ChunkCache(this.rasterPool ? 2000 : 150, 100);
     this.fpsTracker = new FpsTracker();
     
     // Optimized components (used when renderingMode is 'optimized')
     this.chunkRenderer = new ChunkRenderer();
     this.megaTileRenderer = new MegaTileRenderer();
     this.dirtyRegionTracker = new DirtyRegionTracker();
-    this.renderingConfigManager = new RenderingConfigManager();
     this.performanceMonitor = createPerformanceMonitor();
     
     // Initialize layered renderer (will be created on first resize)
     this.layeredRenderer = null;
   }
 
+  /**
+   * Start the worker pool, null when OffscreenCanvas or module workers are not available
+   */
+  private createRasterPool(): ChunkRasterPool | null {
+    if (!ChunkRasterPool.isSupported(this.renderingConfigManager.getDeviceCapabilities())) {
+      console.log('🖌️ OffscreenCanvas not supported, rasterising chunks on the main thread');
+      return null;
+    }
+
+    try {
+      return new ChunkRasterPool((key, blockSize, bitmap) => {
+        this.chunkCache.setBitmap(key, blockSize, bitmap);
+        this.requestRender();
+      });
+    } catch (error) {
+      console.warn('⚠️ Chunk raster workers unavailable, rasterising on the main thread:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Workers are only used while the visible tiles fit in the cache, otherwise bitmaps would be evicted before they are drawn
+   */
+  private canUseRasterPool(visibleTiles: number): boolean {
+    return this.rasterPool !== null && visibleTiles <= this.chunkCache.getCapacity(this.config.blockSize);
+  }
+
+  /**
+   * Get a cached tile, queueing it on the worker pool when missing.
+   * Until the bitmap arrives the tile cached at another zoom level stands in.
+   */
+  private getPooledTile(cacheKey: string, job: ChunkRasterJob): CachedChunkImage | null {
+    const image = this.chunkCache.get(cacheKey, this.config.blockSize);
+    if (image || !this.rasterPool) return image;
+
+    this.rasterPool.request(cacheKey, this.config.blockSize, job);
+    return this.chunkCache.getAnyResolution(cacheKey);
+  }
+
   private shouldUseOptimizedRendering(): boolean {
     return this.config.renderingMode === 'optimized';
   }
@@ -128,7 +217,7 @@ export class MinimapRenderer {
   /**
    * Resize canvas to match container
    */
-  private resize(): void {
+  resize(): void {
     const container = this.canvas.parentElement;
     if (!container) {
       return;
@@ -160,7 +249,7 @@ export class MinimapRenderer {
       
       // Update viewport after resize
       if (this.playerPosition) {
-        this.viewportTracker.updateViewport(this.playerPosition, this.config.blockSize);
+        this.updateViewport();
       }
       
       // Force an immediate render after resize
@@ -175,13 +264,15 @@ export class MinimapRenderer {
     const oldBlockSize = this.config.blockSize;
     this.config = { ...this.config, ...config };
     
-    // Clear cache if block size changed significantly
+    // Clear cache if block size changed significantly, tiles from the workers stay as placeholders
     if (oldBlockSize !== this.config.blockSize) {
-      this.chunkCache.invalidateByBlockSize(this.config.blockSize);
+      if (!this.rasterPool) {
+        this.chunkCache.invalidateByBlockSize(this.config.blockSize);
+      }
       
       // Update viewport with new block size
       if (this.playerPosition) {
-        this.viewportTracker.updateViewport(this.playerPosition, this.config.blockSize);
+        this.updateViewport();
       }
     }
     
@@ -199,6 +290,16 @@ export class MinimapRenderer {
    */
   updatePlayerPosition(position: PlayerPosition): void {
     this.playerPosition = position;
+
+    // Switch to the chunks of the new dimension, the old ones stay cached
+    const dimension = position.dimension ?? 0;
+    if (dimension !== this.currentDimension) {
+      this.currentDimension = dimension;
+      this.dirtyRegionTracker.markFullRedraw();
+      if (this.layeredRenderer) {
+        this.layeredRenderer.markLayerDirty('base');
+      }
+    }
     
     // For a real-time minimap, we don't want smooth animation
     // The player should appear at their actual position immediately
@@ -212,7 +313,84 @@ export class MinimapRenderer {
     }
     
     // Update viewport bounds
-    this.viewportTracker.updateViewport(position, this.config.blockSize);
+    this.updateViewport();
+  }
+
+  /**
+   * Center the map on a world position instead of the player
+   */
+  panTo(x: number, z: number): void {
+    this.viewCenter = { x, z };
+    this.updateViewport();
+    this.requestRender();
+  }
+
+  /**
+   * Center the map on the player again
+   */
+  followPlayer(): void {
+    if (!this.viewCenter) return;
+    this.viewCenter = null;
+    this.updateViewport();
+    this.requestRender();
+  }
+
+  /**
+   * Move the map by a distance in canvas pixels, detaching it from the player
+   */
+  panBy(dx: number, dy: number): void {
+    const view = this.getViewCenter();
+    this.panTo(view.x - dx / this.config.blockSize, view.z - dy / this.config.blockSize);
+  }
+
+  /**
+   * Change the block size keeping the world position under a canvas point in place.
+   * While following the player the map stays centered on them.
+   */
+  zoomAt(blockSize: number, screenX: number, screenY: number): void {
+    if (this.viewCenter) {
+      const offsetX = screenX - this.canvas.width / 2;
+      const offsetZ = screenY - this.canvas.height / 2;
+      const worldX = this.viewCenter.x + offsetX / this.config.blockSize;
+      const worldZ = this.viewCenter.z + offsetZ / this.config.blockSize;
+      this.viewCenter = { x: worldX - offsetX / blockSize, z: worldZ - offsetZ / blockSize };
+    }
+    this.updateConfig({ blockSize });
+  }
+
+  getBlockSize(): number {
+    return this.config.blockSize;
+  }
+
+  /**
+   * Check if the map is centered on the player
+   */
+  isFollowingPlayer(): boolean {
+    return this.viewCenter === null;
+  }
+
+  /**
+   * Canvas position of a world position
+   */
+  private worldToScreen(x: number, z: number): { x: number; z: number } {
+    const view = this.getViewCenter();
+    return {
+      x: this.canvas.width / 2 + (x - view.x) * this.config.blockSize,
+      z: this.canvas.height / 2 + (z - view.z) * this.config.blockSize
+    };
+  }
+
+  /**
+   * World position shown at the center of the canvas
+   */
+  private getViewCenter(): { x: number; z: number } {
+    return this.viewCenter ?? { x: this.playerPosition?.x ?? 0, z: this.playerPosition?.z ?? 0 };
+  }
+
+  private updateViewport(): void {
+    if (!this.playerPosition) return;
+    const view = this.getViewCenter();
+    this.viewportTracker.updateViewport({ ...this.playerPosition, x: view.x, z: view.z }, this.config.blockSize);
   }
   
   /**
@@ -238,11 +416,11 @@ export class MinimapRenderer {
         // Clear ore-specific cached canvases
         const keysToInvalidate: string[] = [];
         for (const [key] of this.oreChunks) {
-          const oreCacheKey = `ore:${key}:${this.config.blockSize}`;
-          keysToInvalidate.push(oreCacheKey);
+          keysToInvalidate.push(...this.getOreCacheKeys(key));
         }
         if (keysToInvalidate.length > 0) {
           this.chunkCache.invalidate(keysToInvalidate);
+          this.rasterPool?.invalidate(keysToInvalidate);
         }
       }
     }
@@ -255,12 +433,192 @@ export class MinimapRenderer {
     this.requestRender();
   }
 
+  /**
+   * Cache keys of the ore canvases of a chunk at the current zoom
+   */
+  private getOreCacheKeys(chunkKey: string): string[] {
+    return [`ore:${chunkKey}:${this.config.blockSize}`, `ore-markers:${chunkKey}:${this.config.blockSize}`];
+  }
+
+  /**
+   * Apply an entity update from the minimap server
+   */
+  updateEntities(update: EntitiesUpdate): void {
+    if (update.full) {
+      this.entities.clear();
+    }
+    for (const entity of update.entities) {
+      this.entities.set(entity.id, entity);
+    }
+    for (const id of update.removed) {
+      this.entities.delete(id);
+    }
+    this.requestRender();
+  }
+
+  /**
+   * Replace the list of other players
+   */
+  updatePlayers(players: PlayerInfo[]): void {
+    this.players = players;
+    this.requestRender();
+  }
+
+  /**
+   * Replace the list of waypoints
+   */
+  setWaypoints(waypoints: Waypoint[]): void {
+    this.waypoints = waypoints;
+    this.requestRender();
+  }
+
+  /**
+   * Replace the death and spawn points of the followed player
+   */
+  setSpecialPoints(points: SpecialPoints): void {
+    this.specialPoints = points;
+    this.requestRender();
+  }
+
+  /**
+   * Death and spawn points as read-only waypoints, they are drawn but cannot be edited
+   */
+  private getSpecialWaypoints(): Waypoint[] {
+    const { death, spawn, spawnIsBed } = this.specialPoints;
+    const toWaypoint = (id: string, point: SpecialPoint, name: string, icon: string, color: string): Waypoint => ({
+      id, name, icon, color, x: point.x, y: point.y, z: point.z, dimension: point.dimension, createdAt: point.time
+    });
+
+    const special: Waypoint[] = [];
+    if (death) {
+      special.push(toWaypoint('death', death, 'Death', '☠️', '#8B0000'));
+    }
+    if (spawn) {
+      special.push(spawnIsBed
+        ? toWaypoint('spawn', spawn, 'Bed', '🛏️', '#40A0FF')
+        : toWaypoint('spawn', spawn, 'World Spawn', '🌍', '#40A0FF'));
+    }
+    return special;
+  }
+
+  /**
+   * Waypoint whose marker is at a canvas position, if any
+   */
+  getWaypointAt(screenX: number, screenY: number): Waypoint | null {
+    for (const waypoint of this.waypoints) {
+      if (waypoint.dimension !== this.currentDimension) continue;
+      const marker = this.worldToScreen(waypoint.x + 0.5, waypoint.z + 0.5);
+      if (Math.hypot(marker.x - screenX, marker.z - screenY) <= WAYPOINT_RADIUS) {
+        return waypoint;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * World block coordinates at a canvas position
+   */
+  screenToWorld(screenX: number, screenY: number): { x: number; z: number } {
+    const view = this.getViewCenter();
+    return {
+      x: Math.floor(view.x + (screenX - this.canvas.width / 2) / this.config.blockSize),
+      z: Math.floor(view.z + (screenY - this.canvas.height / 2) / this.config.blockSize)
+    };
+  }
+
+  /**
+   * Show chunks coloured by biome instead of by terrain
+   */
+  setBiomeMode(enabled: boolean): void {
+    if (this.biomeMode === enabled) return;
+
+    // Chunks are added again so every cache and renderer picks up the new colours
+    const sources: ChunkData[] = [];
+    this.chunks.forEach((chunk, key) => {
+      if (isColorArrayChunk(chunk)) {
+        sources.push(this.toSourceChunk(key, chunk));
+      }
+    });
+    this.biomeMode = enabled;
+    this.clearChunks();
+    this.addChunks(sources);
+  }
+
+  /**
+   * Hatch the blocks hostile mobs can spawn on
+   */
+  setSpawnOverlay(enabled: boolean): void {
+    this.spawnOverlayEnabled = enabled;
+    this.requestRender();
+  }
+
+  /**
+   * Biome ID of a world block column in the current dimension, null when unknown
+   */
+  getBiomeAt(x: number, z: number): number | null {
+    const chunk = this.chunks.get(dimensionChunkKey(this.currentDimension, Math.floor(x / 16), Math.floor(z / 16)));
+    if (!chunk || !isColorArrayChunk(chunk) || !chunk.biomes) return null;
+    return chunk.biomes[((x % 16) + 16) % 16]?.[((z % 16) + 16) % 16] ?? null;
+  }
+
+  /**
+   * Biome IDs found in the loaded chunks of the current dimension
+   */
+  getLoadedBiomes(): Set<number> {
+    const biomes = new Set<number>();
+    this.chunks.forEach(chunk => {
+      if (isColorArrayChunk(chunk) && (chunk.dimension ?? 0) === this.currentDimension && chunk.biomes) {
+        chunk.biomes.forEach(row => row.forEach(id => biomes.add(id)));
+      }
+    });
+    return biomes;
+  }
+
+  /**
+   * Chunk as drawn, biome colours replace the terrain colours in biome mode
+   */
+  private toDisplayChunk(key: string, chunk: ChunkData): ChunkData {
+    const biomes = chunk.biomes;
+    if (!this.biomeMode || !biomes) return chunk;
+
+    this.terrainColors.set(key, chunk.colors);
+    const colors = chunk.colors.map((row, x) => row.map((color, z) => {
+      // Unexplored and solid columns keep their colour
+      if (!color || color === '#000000') return color;
+      return getBiomeInfo(biomes[x][z])?.color ?? color;
+    }));
+    return { ...chunk, colors };
+  }
+
+  /**
+   * Chunk with its terrain colours, as received from the server
+   */
+  private toSourceChunk(key: string, chunk: ChunkData): ChunkData {
+    const colors = this.terrainColors.get(key);
+    return colors ? { ...chunk, colors } : chunk;
+  }
+
+  /**
+   * Dimension of the chunks currently shown
+   */
+  getCurrentDimension(): number {
+    return this.currentDimension;
+  }
+
+  /**
+   * Set which entity categories are drawn
+   */
+  setEntityFilters(filters: EntityFilters): void {
+    this.entityFilters = { ...filters };
+    this.requestRender();
+  }
+
   /**
    * Add ore chunk data to the renderer
    */
   addOreChunks(oreChunks: ChunkOreData[]): void {
     oreChunks.forEach((oreChunk) => {
-      const chunkKey = `${oreChunk.chunkX},${oreChunk.chunkZ}`;
+      const chunkKey = dimensionChunkKey(oreChunk.dimension, oreChunk.chunkX, oreChunk.chunkZ);
       this.oreChunks.set(chunkKey, oreChunk);
       
       // Mark as loaded
@@ -296,8 +654,11 @@ export class MinimapRenderer {
       if (isColorArrayChunk(chunk)) {
         chunkX = chunk.x;
         chunkZ = chunk.z;
-        chunkKey = `${chunkX},${chunkZ}`;
-        this.chunks.set(chunkKey, chunk as any);
+        chunkKey = dimensionChunkKey(chunk.dimension ?? 0, chunkX, chunkZ);
+        const displayChunk = this.toDisplayChunk(chunkKey, chunk);
+        this.chunks.set(chunkKey, displayChunk);
+        this.lodTilePyramid.updateChunk(displayChunk);
+        this.webglRenderer?.updateChunk(displayChunk);
         
         // Extract ore data - always create entry when ore detection is enabled
         // so that chunks without ores still show their dimmed surface
@@ -307,7 +668,7 @@ export class MinimapRenderer {
             chunkZ: chunk.z,
             dimension: chunk.dimension || 0,
             ores: chunk.ores,
-            surfaceColors: chunk.colors
+            surfaceColors: displayChunk.colors
           });
         }
       } else {
@@ -315,13 +676,14 @@ export class MinimapRenderer {
         const response = chunk as ChunkResponse;
         chunkX = response.chunkX;
         chunkZ = response.chunkZ;
-        chunkKey = `${chunkX},${chunkZ}`;
+        chunkKey = dimensionChunkKey(response.dimension, chunkX, chunkZ);
         this.chunks.set(chunkKey, response);
       }
       
       // CRITICAL FIX: Invalidate cached canvas for this chunk
       // This ensures the updated chunk data gets re-rendered
       this.chunkCache.invalidate([chunkKey]);
+      this.rasterPool?.invalidate([chunkKey]);
       
       // Also invalidate bitmap cache for optimized rendering
       if (this.shouldUseOptimizedRendering()) {
@@ -330,8 +692,8 @@ export class MinimapRenderer {
       
       // Also invalidate ore cache if ore detection is enabled
       if (this.oreDetectionEnabled) {
-        const oreCacheKey = `ore:${chunkKey}:${this.config.blockSize}`;
-        this.chunkCache.invalidate([oreCacheKey]);
+        this.chunkCache.invalidate(this.getOreCacheKeys(chunkKey));
+        this.rasterPool?.invalidate(this.getOreCacheKeys(chunkKey));
       }
       
       // Mark as loaded
@@ -355,27 +717,81 @@ export class MinimapRenderer {
     this.requestRender();
   }
   
+  /**
+   * Apply changed block columns to loaded chunks, cached chunk canvases are patched
+   * and only the changed blocks are marked dirty
+   */
+  applyChunkDeltas(deltas: ChunkDelta[]): void {
+    deltas.forEach((delta) => {
+      const chunkKey = dimensionChunkKey(delta.dimension, delta.x, delta.z);
+      const current = this.chunks.get(chunkKey);
+      // Chunks that are not loaded arrive whole once they are requested
+      if (!current || !isColorArrayChunk(current)) return;
+
+      const chunk = this.toDisplayChunk(chunkKey, applyChunkDelta(this.toSourceChunk(chunkKey, current), delta));
+      this.chunks.set(chunkKey, chunk);
+      this.lodTilePyramid.updateChunk(chunk);
+      this.webglRenderer?.updateChunk(chunk);
+
+      const oreChunk = this.oreChunks.get(chunkKey);
+      if (oreChunk) {
+        this.oreChunks.set(chunkKey, { ...oreChunk, ores: chunk.ores ?? [], surfaceColors: chunk.colors });
+      }
+
+      // Redraw just the changed blocks on cached canvases, worker bitmaps are rasterised again
+      this.chunkCache.patch(chunkKey, (ctx, blockSize) => renderChunkColumns(ctx, chunk, blockSize, delta.columns));
+      this.rasterPool?.invalidate([chunkKey]);
+
+      // Ore tiles depend on the ores and the dimmed surface
+      if (this.oreDetectionEnabled) {
+        this.chunkCache.invalidate(this.getOreCacheKeys(chunkKey));
+        this.rasterPool?.invalidate(this.getOreCacheKeys(chunkKey));
+      }
+
+      if (this.shouldUseOptimizedRendering()) {
+        this.chunkRenderer.invalidateBitmap(chunkKey);
+
+        for (const column of delta.columns) {
+          this.dirtyRegionTracker.markBlockDirty(delta.x * 16 + column.x, delta.z * 16 + column.z, this.config.blockSize);
+        }
+
+        if (this.layeredRenderer) {
+          this.layeredRenderer.markLayerDirty('base');
+        }
+
+        this.megaTileRenderer.invalidateChunk(chunkKey);
+      }
+    });
+
+    this.requestRender();
+  }
+
   /**
    * Remove a specific chunk from the renderer
    * @param x Chunk X coordinate
    * @param z Chunk Z coordinate
+   * @param dimension Dimension ID, defaults to the dimension currently shown
    */
-  removeChunk(x: number, z: number): void {
-    const chunkKey = `${x},${z}`;
+  removeChunk(x: number, z: number, dimension: number = this.currentDimension): void {
+    const chunkKey = dimensionChunkKey(dimension, x, z);
     
     // Remove from all internal data structures
     this.chunks.delete(chunkKey);
+    this.terrainColors.delete(chunkKey);
+    this.lodTilePyramid.removeChunk(dimension, x, z);
+    this.webglRenderer?.removeChunk(dimension, x, z);
     this.oreChunks.delete(chunkKey);
     this.loadedChunks.delete(chunkKey);
     this.pendingChunks.delete(chunkKey);
     
     // Invalidate cache entries
     this.chunkCache.invalidate([chunkKey]);
+    this.rasterPool?.invalidate([chunkKey]);
     
     // Invalidate cache entries for ore chunks
     if (this.oreDetectionEnabled) {
-      const oreCacheKey = `ore:${chunkKey}:${this.config.blockSize}`;
-      this.chunkCache.invalidate([oreCacheKey]);
+      this.chunkCache.invalidate(this.getOreCacheKeys(chunkKey));
+      this.rasterPool?.invalidate(this.getOreCacheKeys(chunkKey));
     }
     
     // Track dirty regions for optimized rendering
@@ -395,28 +811,57 @@ export class MinimapRenderer {
     this.requestRender();
   }
   
+  /**
+   * Versions of the chunks held, reported to the server after reconnecting
+   */
+  getChunkVersions(): HeldChunkVersion[] {
+    const versions: HeldChunkVersion[] = [];
+    this.chunks.forEach(chunk => {
+      if (isColorArrayChunk(chunk) && chunk.version !== undefined) {
+        versions.push({ x: chunk.x, z: chunk.z, dimension: chunk.dimension ?? 0, version: chunk.version });
+      }
+    });
+    return versions;
+  }
+
+  /**
+   * Check if a chunk is held by the renderer, loaded chunk tracking may already have evicted it
+   */
+  hasChunk(key: string): boolean {
+    return this.chunks.has(key);
+  }
+
   /**
    * Clear all chunks
    */
   clearChunks(): void {
     this.chunks.clear();
+    this.terrainColors.clear();
+    this.lodTilePyramid.clear();
+    this.webglRenderer?.clear();
     this.loadedChunks.clear();
     this.pendingChunks.clear();
     this.chunkCache.clear();
+    this.rasterPool?.clear();
     this.render();
   }
   
   /**
    * Invalidate specific chunks
    */
-  invalidateChunks(chunks: Array<{ x: number, z: number }>): void {
-    const keys = chunks.map(chunk => `${chunk.x},${chunk.z}`);
+  invalidateChunks(chunks: Array<{ x: number, z: number, dimension?: number }>): void {
+    const keys = chunks.map(chunk => dimensionChunkKey(chunk.dimension ?? this.currentDimension, chunk.x, chunk.z));
     
     // Remove from chunk data
     keys.forEach(key => this.chunks.delete(key));
+    chunks.forEach(chunk => {
+      this.lodTilePyramid.removeChunk(chunk.dimension ?? this.currentDimension, chunk.x, chunk.z);
+      this.webglRenderer?.removeChunk(chunk.dimension ?? this.currentDimension, chunk.x, chunk.z);
+    });
     
     // Invalidate cache
     this.chunkCache.invalidate(keys);
+    this.rasterPool?.invalidate(keys);
     
     this.render();
   }
@@ -500,14 +945,16 @@ export class MinimapRenderer {
     // Track frame for FPS (legacy tracker)
     const fps = this.fpsTracker.trackFrame();
     
-    if (this.shouldUseOptimizedRendering()) {
+    if (this.webglRenderer) {
+      this.drawWebGL();
+    } else if (this.shouldUseOptimizedRendering()) {
       this.drawOptimized();
     } else {
       this.drawLegacy();
     }
     
     // Record performance metrics
-    if (this.shouldUseOptimizedRendering()) {
+    if (this.config.renderingMode !== 'legacy') {
       const visibleChunks = this.getVisibleChunkCount();
       const performanceMetrics = this.performanceMonitor.endFrame(this.drawCallCount, visibleChunks);
       this.renderingConfigManager.recordPerformanceMetrics(performanceMetrics);
@@ -537,16 +984,197 @@ export class MinimapRenderer {
     
     // Render terrain directly to main canvas
     this.renderFullView(this.ctx);
+    this.drawSpawnHatch(this.ctx);
     
     // Draw player marker and UI
     if (this.config.showGrid) {
       this.drawCenterGuides(this.ctx);
     }
-    this.drawPlayerMarker(this.canvas.width / 2, this.canvas.height / 2, this.ctx);
+    this.drawDistantPlayers(this.ctx);
+    this.drawEntities(this.ctx);
+    this.drawWaypoints(this.ctx);
+    this.drawPlayerMarker(this.ctx);
     
     this.drawCallCount = 1; // One full render call
   }
 
+  /**
+   * WebGL rendering path, terrain comes from the GPU and overlays are drawn on top with Canvas2D
+   */
+  private drawWebGL(): void {
+    this.ctx.fillStyle = '#000000';
+    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+    if (!this.playerPosition || !this.webglRenderer) {
+      return;
+    }
+
+    const view = this.getViewCenter();
+    const centerX = this.canvas.width / 2;
+    const centerZ = this.canvas.height / 2;
+
+    // Views spanning more regions than the GPU keeps are drawn from the downsampled tiles instead
+    if (this.webglRenderer.fitsView(this.config.blockSize, this.canvas.width, this.canvas.height)) {
+      this.drawCallCount = this.webglRenderer.render(
+        view.x, view.z, this.config.blockSize, this.currentDimension,
+        this.canvas.width, this.canvas.height,
+        {
+          // Chunk colours arrive hill shaded from the minimap server
+          hillShading: false,
+          dimming: this.oreDetectionEnabled ? this.oreDetectionConfig.backgroundDimming : 1
+        }
+      );
+      this.ctx.drawImage(this.webglRenderer.canvas, 0, 0);
+      this.drawCallCount++;
+    } else {
+      this.drawCallCount = 0;
+      this.renderWithLodTiles(this.ctx, Math.max(1, this.getLodLevel()), centerX, centerZ);
+    }
+    this.drawSpawnHatch(this.ctx);
+
+    // Ore markers and the grid are only readable while single chunks are drawn
+    if (this.getLodLevel() === 0) {
+      if (this.oreDetectionEnabled) {
+        this.drawOreMarkers(this.ctx, centerX, centerZ);
+      }
+      if (this.config.showGrid && getChunkSize(this.config.blockSize) >= MIN_GRID_CHUNK_SIZE) {
+        this.drawChunkGrid(this.ctx, centerX, centerZ);
+      }
+    }
+
+    if (this.config.showGrid) {
+      this.drawCenterGuides(this.ctx);
+    }
+    this.drawDistantPlayers(this.ctx);
+    this.drawEntities(this.ctx);
+    this.drawWaypoints(this.ctx);
+    this.drawPlayerMarker(this.ctx);
+  }
+
+  /**
+   * Draw the highlighted ores of visible chunks without their dimmed surface
+   */
+  private drawOreMarkers(ctx: CanvasRenderingContext2D, centerX: number, centerZ: number): void {
+    const view = this.getViewCenter();
+    const chunkSize = getChunkSize(this.config.blockSize);
+    const visibleChunks = Math.ceil(this.canvas.width / chunkSize + 1) * Math.ceil(this.canvas.height / chunkSize + 1);
+    const useRasterPool = this.canUseRasterPool(visibleChunks);
+    ctx.imageSmoothingEnabled = false;
+
+    for (const [key, oreChunk] of this.oreChunks) {
+      if (oreChunk.dimension !== this.currentDimension) continue;
+
+      const screenX = Math.floor(centerX + (oreChunk.chunkX * 16 - view.x) * this.config.blockSize);
+      const screenZ = Math.floor(centerZ + (oreChunk.chunkZ * 16 - view.z) * this.config.blockSize);
+      if (!this.isRectVisible(screenX, screenZ, chunkSize, chunkSize)) continue;
+
+      const markersChunk = { ...oreChunk, surfaceColors: undefined };
+      const markersKey = `ore-markers:${key}:${this.config.blockSize}`;
+      const markers = useRasterPool
+        ? this.getPooledTile(markersKey, { type: 'ore', oreChunk: markersChunk, config: this.oreDetectionConfig, playerY: this.playerPosition?.y })
+        : this.chunkCache.getOrCreate(
+          markersKey,
+          this.config.blockSize,
+          () => createOreChunkCanvas(markersChunk, this.config.blockSize, this.oreDetectionConfig, this.playerPosition?.y)
+        );
+      if (markers) {
+        ctx.drawImage(markers, 0, 0, markers.width, markers.height, screenX, screenZ, chunkSize, chunkSize);
+        this.drawCallCount++;
+      }
+    }
+  }
+
+  /**
+   * Hatch the blocks of the chunks in view that hostile mobs can spawn on
+   */
+  private drawSpawnHatch(ctx: CanvasRenderingContext2D): void {
+    const blockSize = this.config.blockSize;
+    if (!this.spawnOverlayEnabled || blockSize < MIN_SPAWN_HATCH_BLOCK_SIZE) return;
+
+    const view = this.getViewCenter();
+    const centerX = this.canvas.width / 2;
+    const centerZ = this.canvas.height / 2;
+    const minChunkX = Math.floor((view.x - centerX / blockSize) / 16);
+    const maxChunkX = Math.floor((view.x + centerX / blockSize) / 16);
+    const minChunkZ = Math.floor((view.z - centerZ / blockSize) / 16);
+    const maxChunkZ = Math.floor((view.z + centerZ / blockSize) / 16);
+
+    // One path for all blocks, the pattern is anchored to the canvas so the hatching runs on across blocks
+    ctx.save();
+    ctx.beginPath();
+    for (let chunkX = minChunkX; chunkX <= maxChunkX; chunkX++) {
+      for (let chunkZ = minChunkZ; chunkZ <= maxChunkZ; chunkZ++) {
+        const chunk = this.chunks.get(dimensionChunkKey(this.currentDimension, chunkX, chunkZ));
+        if (!chunk || !isColorArrayChunk(chunk) || !chunk.spawnable) continue;
+
+        const screenX = centerX + (chunkX * 16 - view.x) * blockSize;
+        const screenZ = centerZ + (chunkZ * 16 - view.z) * blockSize;
+        chunk.spawnable.forEach((row, x) => {
+          for (let z = 0; row >> z; z++) {
+            if ((row >> z) & 1) {
+              ctx.rect(screenX + x * blockSize, screenZ + z * blockSize, blockSize, blockSize);
+            }
+          }
+        });
+      }
+    }
+    ctx.fillStyle = this.getSpawnHatchPattern(ctx) ?? SPAWN_HATCH_COLOR;
+    ctx.fill();
+    ctx.restore();
+    this.drawCallCount++;
+  }
+
+  /**
+   * Diagonal line pattern of the spawn hatching, created once
+   */
+  private getSpawnHatchPattern(ctx: CanvasRenderingContext2D): CanvasPattern | null {
+    if (this.spawnHatchPattern) return this.spawnHatchPattern;
+
+    const tile = document.createElement('canvas');
+    tile.width = SPAWN_HATCH_SPACING;
+    tile.height = SPAWN_HATCH_SPACING;
+    const tileCtx = tile.getContext('2d');
+    if (!tileCtx) return null;
+
+    // The corner strokes continue the line into the neighbouring tiles
+    tileCtx.strokeStyle = SPAWN_HATCH_COLOR;
+    tileCtx.lineWidth = 1.5;
+    tileCtx.beginPath();
+    tileCtx.moveTo(0, SPAWN_HATCH_SPACING);
+    tileCtx.lineTo(SPAWN_HATCH_SPACING, 0);
+    tileCtx.moveTo(-1, 1);
+    tileCtx.lineTo(1, -1);
+    tileCtx.moveTo(SPAWN_HATCH_SPACING - 1, SPAWN_HATCH_SPACING + 1);
+    tileCtx.lineTo(SPAWN_HATCH_SPACING + 1, SPAWN_HATCH_SPACING - 1);
+    tileCtx.stroke();
+
+    this.spawnHatchPattern = ctx.createPattern(tile, 'repeat');
+    return this.spawnHatchPattern;
+  }
+
+  /**
+   * Draw chunk borders around the loaded chunks in view
+   */
+  private drawChunkGrid(ctx: CanvasRenderingContext2D, centerX: number, centerZ: number): void {
+    const view = this.getViewCenter();
+    const chunkSize = getChunkSize(this.config.blockSize);
+
+    const minChunkX = Math.floor((view.x - centerX / this.config.blockSize) / 16);
+    const maxChunkX = Math.floor((view.x + centerX / this.config.blockSize) / 16);
+    const minChunkZ = Math.floor((view.z - centerZ / this.config.blockSize) / 16);
+    const maxChunkZ = Math.floor((view.z + centerZ / this.config.blockSize) / 16);
+
+    for (let chunkX = minChunkX; chunkX <= maxChunkX; chunkX++) {
+      for (let chunkZ = minChunkZ; chunkZ <= maxChunkZ; chunkZ++) {
+        if (!this.chunks.has(dimensionChunkKey(this.currentDimension, chunkX, chunkZ))) continue;
+
+        const screenX = Math.floor(centerX + (chunkX * 16 - view.x) * this.config.blockSize);
+        const screenZ = Math.floor(centerZ + (chunkZ * 16 - view.z) * this.config.blockSize);
+        renderChunkGrid(ctx, screenX, screenZ, chunkSize);
+      }
+    }
+  }
+
   /**
    * Update base layer (static terrain)
    */
@@ -593,8 +1221,13 @@ export class MinimapRenderer {
         this.drawCenterGuides(ctx);
       }
       
+      // Draw entities below the player marker
+      this.drawDistantPlayers(ctx);
+      this.drawEntities(ctx);
+      this.drawWaypoints(ctx);
+
       // Draw player marker
-      this.drawPlayerMarker(this.canvas.width / 2, this.canvas.height / 2, ctx);
+      this.drawPlayerMarker(ctx);
     });
   }
 
@@ -623,14 +1256,20 @@ export class MinimapRenderer {
     this.updateDebugInfo(centerX, centerZ);
     
     this.renderFullView(this.ctx);
+    this.drawSpawnHatch(this.ctx);
     
     // Draw center guides
     if (this.config.showGrid) {
       this.drawCenterGuides(this.ctx);
     }
     
-    // Draw player marker (always centered)
-    this.drawPlayerMarker(this.canvas.width / 2, this.canvas.height / 2, this.ctx);
+    // Draw entities below the player marker
+    this.drawDistantPlayers(this.ctx);
+    this.drawEntities(this.ctx);
+    this.drawWaypoints(this.ctx);
+
+    // Draw player marker
+    this.drawPlayerMarker(this.ctx);
   }
   
   /**
@@ -639,6 +1278,8 @@ export class MinimapRenderer {
   private renderFullView(ctx: CanvasRenderingContext2D): void {
     if (!this.playerPosition) return;
 
+    const view = this.getViewCenter();
+
     const centerX = this.canvas.width / 2;
     const centerZ = this.canvas.height / 2;
     
@@ -646,16 +1287,60 @@ export class MinimapRenderer {
     const halfWidth = this.canvas.width / 2;
     const halfHeight = this.canvas.height / 2;
     
-    const minChunkX = Math.floor((this.playerPosition.x - halfWidth / this.config.blockSize) / 16) - 1;
-    const maxChunkX = Math.ceil((this.playerPosition.x + halfWidth / this.config.blockSize) / 16) + 1;
-    const minChunkZ = Math.floor((this.playerPosition.z - halfHeight / this.config.blockSize) / 16) - 1;
-    const maxChunkZ = Math.ceil((this.playerPosition.z + halfHeight / this.config.blockSize) / 16) + 1;
+    const minChunkX = Math.floor((view.x - halfWidth / this.config.blockSize) / 16) - 1;
+    const maxChunkX = Math.ceil((view.x + halfWidth / this.config.blockSize) / 16) + 1;
+    const minChunkZ = Math.floor((view.z - halfHeight / this.config.blockSize) / 16) - 1;
+    const maxChunkZ = Math.ceil((view.z + halfHeight / this.config.blockSize) / 16) + 1;
+
+    // Zoomed out to two or more blocks per pixel, draw the downsampled tiles like a slippy map
+    const lodLevel = this.getLodLevel();
+    if (lodLevel > 0) {
+      this.renderWithLodTiles(ctx, lodLevel, centerX, centerZ);
+      return;
+    }
 
     // For optimized mode, force individual chunk rendering for now
     // Mega-tiles have async issues that need debugging
     this.renderWithIndividualChunks(ctx, minChunkX, maxChunkX, minChunkZ, maxChunkZ, centerX, centerZ);
   }
 
+  /**
+   * Pyramid level for the current zoom, 0 while single chunks are drawn
+   */
+  private getLodLevel(): number {
+    if (this.config.blockSize > 0.5) return 0;
+    return Math.min(MAX_LOD_LEVEL, Math.floor(Math.log2(1 / this.config.blockSize)));
+  }
+
+  /**
+   * Render the tiles of one pyramid level covering the view
+   */
+  private renderWithLodTiles(ctx: CanvasRenderingContext2D, level: number, centerX: number, centerZ: number): void {
+    const view = this.getViewCenter();
+    const tileBlocks = LodTilePyramid.getTileBlocks(level);
+    const tileScreenSize = Math.ceil(tileBlocks * this.config.blockSize);
+
+    const minTileX = Math.floor((view.x - centerX / this.config.blockSize) / tileBlocks);
+    const maxTileX = Math.floor((view.x + centerX / this.config.blockSize) / tileBlocks);
+    const minTileZ = Math.floor((view.z - centerZ / this.config.blockSize) / tileBlocks);
+    const maxTileZ = Math.floor((view.z + centerZ / this.config.blockSize) / tileBlocks);
+
+    // Tiles are shown between full and half size
+    ctx.imageSmoothingEnabled = tileScreenSize < LOD_TILE_SIZE;
+
+    for (let tileX = minTileX; tileX <= maxTileX; tileX++) {
+      for (let tileZ = minTileZ; tileZ <= maxTileZ; tileZ++) {
+        const tile = this.lodTilePyramid.getTile(this.currentDimension, level, tileX, tileZ);
+        if (!tile) continue;
+
+        const screenX = Math.floor(centerX + (tileX * tileBlocks - view.x) * this.config.blockSize);
+        const screenZ = Math.floor(centerZ + (tileZ * tileBlocks - view.z) * this.config.blockSize);
+        ctx.drawImage(tile, screenX, screenZ, tileScreenSize, tileScreenSize);
+        this.drawCallCount++;
+      }
+    }
+  }
+
   /**
    * Render using mega-tiles for better performance
    */
@@ -691,6 +1376,8 @@ export class MinimapRenderer {
   ): Promise<void> {
     if (!this.playerPosition) return;
 
+    const view = this.getViewCenter();
+
     // Calculate center of mega-tile
     const centerTileX = tileX + Math.floor(tileSize / 2);
     const centerTileZ = tileZ + Math.floor(tileSize / 2);
@@ -705,13 +1392,13 @@ export class MinimapRenderer {
       }
 
       const megaTile = await this.megaTileRenderer.getOrCreateMegaTile(
-        centerTileX, centerTileZ, colorChunks, this.config.blockSize, 0, tileSize as 3 | 5
+        centerTileX, centerTileZ, colorChunks, this.config.blockSize, this.currentDimension, tileSize as 3 | 5
       );
 
       if (megaTile && megaTile.bitmap) {
         // Calculate screen position
-        const screenX = Math.floor(centerX + (tileX * 16 - this.playerPosition.x) * this.config.blockSize);
-        const screenZ = Math.floor(centerZ + (tileZ * 16 - this.playerPosition.z) * this.config.blockSize);
+        const screenX = Math.floor(centerX + (tileX * 16 - view.x) * this.config.blockSize);
+        const screenZ = Math.floor(centerZ + (tileZ * 16 - view.z) * this.config.blockSize);
         const renderSize = tileSize * 16 * this.config.blockSize;
 
         // Check if mega-tile is visible
@@ -750,14 +1437,18 @@ export class MinimapRenderer {
   ): void {
     if (!this.playerPosition) return;
 
+    const view = this.getViewCenter();
+    const tilesPerChunk = this.oreDetectionEnabled ? 2 : 1;
+    const useRasterPool = this.canUseRasterPool((maxChunkX - minChunkX + 1) * (maxChunkZ - minChunkZ + 1) * tilesPerChunk);
+
     // Render visible chunks
     for (let chunkX = minChunkX; chunkX <= maxChunkX; chunkX++) {
       for (let chunkZ = minChunkZ; chunkZ <= maxChunkZ; chunkZ++) {
-        const key = `${chunkX},${chunkZ}`;
+        const key = dimensionChunkKey(this.currentDimension, chunkX, chunkZ);
         
         // Calculate screen position
-        const screenX = Math.floor(centerX + (chunkX * 16 - this.playerPosition.x) * this.config.blockSize);
-        const screenZ = Math.floor(centerZ + (chunkZ * 16 - this.playerPosition.z) * this.config.blockSize);
+        const screenX = Math.floor(centerX + (chunkX * 16 - view.x) * this.config.blockSize);
+        const screenZ = Math.floor(centerZ + (chunkZ * 16 - view.z) * this.config.blockSize);
         const chunkSize = getChunkSize(this.config.blockSize);
         
         // Check if chunk is visible
@@ -765,14 +1456,14 @@ export class MinimapRenderer {
           // Always render the base terrain chunk first
           const chunk = this.chunks.get(key);
           if (chunk) {
-            this.renderChunk(chunk, screenX, screenZ, ctx);
+            this.renderChunk(chunk, screenX, screenZ, ctx, useRasterPool);
           }
           
           // If ore detection is enabled, render ore overlay on top
           if (this.oreDetectionEnabled) {
             const oreChunk = this.oreChunks.get(key);
             if (oreChunk) {
-              this.renderOreChunk(oreChunk, screenX, screenZ, ctx);
+              this.renderOreChunk(oreChunk, screenX, screenZ, ctx, useRasterPool);
             }
           }
         }
@@ -786,14 +1477,16 @@ export class MinimapRenderer {
   private renderRegion(ctx: CanvasRenderingContext2D, region: { x: number; y: number; width: number; height: number }): void {
     if (!this.playerPosition) return;
 
+    const view = this.getViewCenter();
+
     // Convert screen coordinates to chunk coordinates
     const centerX = this.canvas.width / 2;
     const centerZ = this.canvas.height / 2;
     
-    const startWorldX = this.playerPosition.x + (region.x - centerX) / this.config.blockSize;
-    const startWorldZ = this.playerPosition.z + (region.y - centerZ) / this.config.blockSize;
-    const endWorldX = this.playerPosition.x + (region.x + region.width - centerX) / this.config.blockSize;
-    const endWorldZ = this.playerPosition.z + (region.y + region.height - centerZ) / this.config.blockSize;
+    const startWorldX = view.x + (region.x - centerX) / this.config.blockSize;
+    const startWorldZ = view.z + (region.y - centerZ) / this.config.blockSize;
+    const endWorldX = view.x + (region.x + region.width - centerX) / this.config.blockSize;
+    const endWorldZ = view.z + (region.y + region.height - centerZ) / this.config.blockSize;
 
     const minChunkX = Math.floor(startWorldX / 16);
     const maxChunkX = Math.ceil(endWorldX / 16);
@@ -819,13 +1512,15 @@ export class MinimapRenderer {
   private getVisibleChunkCount(): number {
     if (!this.playerPosition) return 0;
 
+    const view = this.getViewCenter();
+
     const halfWidth = this.canvas.width / 2;
     const halfHeight = this.canvas.height / 2;
     
-    const minChunkX = Math.floor((this.playerPosition.x - halfWidth / this.config.blockSize) / 16) - 1;
-    const maxChunkX = Math.ceil((this.playerPosition.x + halfWidth / this.config.blockSize) / 16) + 1;
-    const minChunkZ = Math.floor((this.playerPosition.z - halfHeight / this.config.blockSize) / 16) - 1;
-    const maxChunkZ = Math.ceil((this.playerPosition.z + halfHeight / this.config.blockSize) / 16) + 1;
+    const minChunkX = Math.floor((view.x - halfWidth / this.config.blockSize) / 16) - 1;
+    const maxChunkX = Math.ceil((view.x + halfWidth / this.config.blockSize) / 16) + 1;
+    const minChunkZ = Math.floor((view.z - halfHeight / this.config.blockSize) / 16) - 1;
+    const maxChunkZ = Math.ceil((view.z + halfHeight / this.config.blockSize) / 16) + 1;
 
     return (maxChunkX - minChunkX + 1) * (maxChunkZ - minChunkZ + 1);
   }
@@ -850,15 +1545,30 @@ export class MinimapRenderer {
   /**
    * Render a single chunk
    */
-  private renderChunk(chunk: ChunkData | ChunkResponse, screenX: number, screenZ: number, ctx?: CanvasRenderingContext2D): void {
+  private renderChunk(chunk: ChunkData | ChunkResponse, screenX: number, screenZ: number, ctx?: CanvasRenderingContext2D, useRasterPool: boolean = false): void {
     const renderContext = ctx || this.ctx;
     
     // Get chunk key based on format
     const key = isColorArrayChunk(chunk) 
-      ? `${chunk.x},${chunk.z}`
-      : `${(chunk as ChunkResponse).chunkX},${(chunk as ChunkResponse).chunkZ}`;
+      ? dimensionChunkKey(chunk.dimension ?? 0, chunk.x, chunk.z)
+      : dimensionChunkKey((chunk as ChunkResponse).dimension, (chunk as ChunkResponse).chunkX, (chunk as ChunkResponse).chunkZ);
     
     const chunkSize = getChunkSize(this.config.blockSize);
+
+    // Rasterise on a worker, nothing is drawn for a chunk seen for the first time until its bitmap arrives
+    if (useRasterPool && isColorArrayChunk(chunk)) {
+      const tile = this.getPooledTile(key, { type: 'chunk', chunk });
+      if (tile) {
+        renderContext.imageSmoothingEnabled = this.config.blockSize < 4;
+        renderContext.drawImage(tile, 0, 0, tile.width, tile.height, screenX, screenZ, chunkSize, chunkSize);
+        this.drawCallCount++;
+      }
+
+      if (this.config.showGrid && chunkSize >= MIN_GRID_CHUNK_SIZE) {
+        renderChunkGrid(renderContext, screenX, screenZ, chunkSize);
+      }
+      return;
+    }
     
     // Use optimized rendering if available
     if (this.shouldUseOptimizedRendering()) {
@@ -911,7 +1621,7 @@ export class MinimapRenderer {
     }
     
     // Draw chunk grid if enabled
-    if (this.config.showGrid /*&& this.config.blockSize >= 4*/) {
+    if (this.config.showGrid && chunkSize >= MIN_GRID_CHUNK_SIZE) {
       renderChunkGrid(renderContext, screenX, screenZ, chunkSize);
     }
   }
@@ -919,23 +1629,25 @@ export class MinimapRenderer {
   /**
    * Render a single ore chunk with highlighting
    */
-  private renderOreChunk(oreChunk: ChunkOreData, screenX: number, screenZ: number, ctx?: CanvasRenderingContext2D): void {
+  private renderOreChunk(oreChunk: ChunkOreData, screenX: number, screenZ: number, ctx?: CanvasRenderingContext2D, useRasterPool: boolean = false): void {
     const renderContext = ctx || this.ctx;
-    const chunkKey = `${oreChunk.chunkX},${oreChunk.chunkZ}`;
+    const chunkKey = dimensionChunkKey(oreChunk.dimension, oreChunk.chunkX, oreChunk.chunkZ);
     const chunkSize = getChunkSize(this.config.blockSize);
     
     // Create ore-specific cache key to avoid conflicts with normal chunks
     const oreCacheKey = `ore:${chunkKey}:${this.config.blockSize}`;
     
     // Try to get cached ore canvas
-    const cachedCanvas = this.chunkCache.getOrCreate(
-      oreCacheKey,
-      this.config.blockSize,
-      () => {
-        this.fpsTracker.recordCacheMiss();
-        return createOreChunkCanvas(oreChunk, this.config.blockSize, this.oreDetectionConfig, this.playerPosition?.y);
-      }
-    );
+    const cachedCanvas = useRasterPool
+      ? this.getPooledTile(oreCacheKey, { type: 'ore', oreChunk, config: this.oreDetectionConfig, playerY: this.playerPosition?.y })
+      : this.chunkCache.getOrCreate(
+        oreCacheKey,
+        this.config.blockSize,
+        () => {
+          this.fpsTracker.recordCacheMiss();
+          return createOreChunkCanvas(oreChunk, this.config.blockSize, this.oreDetectionConfig, this.playerPosition?.y);
+        }
+      );
     
     if (cachedCanvas) {
       this.fpsTracker.recordCacheHit();
@@ -951,7 +1663,7 @@ export class MinimapRenderer {
       );
       
       this.drawCallCount++;
-    } else {
+    } else if (!useRasterPool) {
       // Fallback: render directly to context
       renderContext.save();
       renderContext.translate(screenX, screenZ);
@@ -1003,13 +1715,191 @@ export class MinimapRenderer {
     renderContext.restore();
   }
 
+  /**
+   * Draw markers for the tracked entities in the current dimension
+   */
+  private drawEntities(ctx?: CanvasRenderingContext2D): void {
+    if (!this.playerPosition || this.entities.size === 0) return;
+
+    const view = this.getViewCenter();
+
+    const renderContext = ctx || this.ctx;
+    const centerX = this.canvas.width / 2;
+    const centerZ = this.canvas.height / 2;
+
+    renderContext.save();
+    renderContext.strokeStyle = '#000000';
+    renderContext.lineWidth = 1;
+
+    for (const entity of this.entities.values()) {
+      if (entity.dimension !== this.currentDimension || !this.entityFilters[entity.category]) continue;
+
+      const screenX = centerX + (entity.x - view.x) * this.config.blockSize;
+      const screenZ = centerZ + (entity.z - view.z) * this.config.blockSize;
+      if (screenX < -8 || screenZ < -8 || screenX > this.canvas.width + 8 || screenZ > this.canvas.height + 8) continue;
+
+      renderContext.fillStyle = ENTITY_CATEGORY_COLORS[entity.category];
+      renderContext.beginPath();
+      switch (entity.category) {
+        case 'player':
+          // Triangle facing the player's direction, like our own marker
+          renderContext.save();
+          renderContext.translate(screenX, screenZ);
+          renderContext.rotate((entity.yaw + 180) * Math.PI / 180);
+          renderContext.moveTo(0, -6);
+          renderContext.lineTo(-4, 4);
+          renderContext.lineTo(4, 4);
+          renderContext.closePath();
+          renderContext.restore();
+          break;
+        case 'item':
+          // Diamond
+          renderContext.moveTo(screenX, screenZ - 3);
+          renderContext.lineTo(screenX + 3, screenZ);
+          renderContext.lineTo(screenX, screenZ + 3);
+          renderContext.lineTo(screenX - 3, screenZ);
+          renderContext.closePath();
+          break;
+        case 'hostile':
+          renderContext.rect(screenX - 3, screenZ - 3, 6, 6);
+          break;
+        default:
+          renderContext.arc(screenX, screenZ, 3, 0, 2 * Math.PI);
+      }
+      renderContext.fill();
+      renderContext.stroke();
+
+      if (entity.category === 'player' && entity.name) {
+        renderContext.fillStyle = '#FFFFFF';
+        renderContext.font = '10px sans-serif';
+        renderContext.textAlign = 'center';
+        renderContext.fillText(entity.name, screenX, screenZ - 9);
+      }
+    }
+
+    renderContext.restore();
+  }
+
+  /**
+   * Draw the last known position of players outside render distance.
+   * Players in range are drawn with the entities.
+   */
+  private drawDistantPlayers(ctx?: CanvasRenderingContext2D): void {
+    if (!this.playerPosition || this.players.length === 0 || !this.entityFilters.player) return;
+
+    const view = this.getViewCenter();
+
+    const renderContext = ctx || this.ctx;
+    const centerX = this.canvas.width / 2;
+    const centerZ = this.canvas.height / 2;
+
+    renderContext.save();
+    renderContext.strokeStyle = ENTITY_CATEGORY_COLORS.player;
+    renderContext.lineWidth = 2;
+    renderContext.font = '10px sans-serif';
+    renderContext.textAlign = 'center';
+
+    for (const player of this.players) {
+      if (player.inRange || !player.position || player.position.dimension !== this.currentDimension) continue;
+
+      const screenX = centerX + (player.position.x - view.x) * this.config.blockSize;
+      const screenZ = centerZ + (player.position.z - view.z) * this.config.blockSize;
+      if (screenX < -50 || screenZ < -8 || screenX > this.canvas.width + 50 || screenZ > this.canvas.height + 20) continue;
+
+      renderContext.beginPath();
+      renderContext.arc(screenX, screenZ, 4, 0, 2 * Math.PI);
+      renderContext.stroke();
+
+      renderContext.fillStyle = '#AAAAAA';
+      renderContext.fillText(player.name, screenX, screenZ - 8);
+    }
+
+    renderContext.restore();
+  }
+
+  /**
+   * Draw waypoints of the current dimension, off-screen waypoints get an arrow at the edge pointing to them
+   */
+  private drawWaypoints(ctx?: CanvasRenderingContext2D): void {
+    const waypoints = [...this.waypoints, ...this.getSpecialWaypoints()];
+    if (!this.playerPosition || waypoints.length === 0) return;
+
+    const renderContext = ctx || this.ctx;
+    const centerX = this.canvas.width / 2;
+    const centerZ = this.canvas.height / 2;
+
+    renderContext.save();
+    renderContext.textAlign = 'center';
+    renderContext.textBaseline = 'middle';
+    renderContext.strokeStyle = '#FFFFFF';
+    renderContext.lineWidth = 2;
+
+    for (const waypoint of waypoints) {
+      if (waypoint.dimension !== this.currentDimension) continue;
+
+      const marker = this.worldToScreen(waypoint.x + 0.5, waypoint.z + 0.5);
+      const onScreen = marker.x >= 0 && marker.x <= this.canvas.width && marker.z >= 0 && marker.z <= this.canvas.height;
+
+      if (onScreen) {
+        renderContext.fillStyle = waypoint.color;
+        renderContext.beginPath();
+        renderContext.arc(marker.x, marker.z, WAYPOINT_RADIUS, 0, 2 * Math.PI);
+        renderContext.fill();
+        renderContext.stroke();
+
+        renderContext.font = '11px sans-serif';
+        renderContext.fillText(waypoint.icon, marker.x, marker.z + 1);
+
+        renderContext.font = 'bold 10px sans-serif';
+        renderContext.fillStyle = '#FFFFFF';
+        renderContext.fillText(waypoint.name, marker.x, marker.z + WAYPOINT_RADIUS + 8);
+        continue;
+      }
+
+      // Clamp the direction to the waypoint to a rectangle inside the canvas edge
+      const dx = marker.x - centerX;
+      const dz = marker.z - centerZ;
+      const scale = Math.min(
+        (centerX - WAYPOINT_EDGE_MARGIN) / Math.max(Math.abs(dx), 1e-6),
+        (centerZ - WAYPOINT_EDGE_MARGIN) / Math.max(Math.abs(dz), 1e-6)
+      );
+      const edgeX = centerX + dx * scale;
+      const edgeZ = centerZ + dz * scale;
+      const angle = Math.atan2(dz, dx);
+
+      renderContext.save();
+      renderContext.translate(edgeX, edgeZ);
+      renderContext.rotate(angle);
+      renderContext.fillStyle = waypoint.color;
+      renderContext.beginPath();
+      renderContext.moveTo(8, 0);
+      renderContext.lineTo(-6, -6);
+      renderContext.lineTo(-6, 6);
+      renderContext.closePath();
+      renderContext.fill();
+      renderContext.stroke();
+      renderContext.restore();
+
+      const distance = Math.round(Math.hypot(waypoint.x - this.playerPosition.x, waypoint.z - this.playerPosition.z));
+      renderContext.font = '10px sans-serif';
+      renderContext.fillStyle = '#FFFFFF';
+      // Label goes on the inner side of the arrow so it stays on the canvas
+      renderContext.fillText(`${waypoint.icon} ${distance}m`, edgeX - Math.cos(angle) * 28, edgeZ - Math.sin(angle) * 16);
+    }
+
+    renderContext.restore();
+  }
+
   /**
    * Draw player marker
    */
-  private drawPlayerMarker(x: number, z: number, ctx?: CanvasRenderingContext2D): void {
+  private drawPlayerMarker(ctx?: CanvasRenderingContext2D): void {
     if (!this.playerPosition) return;
     
     const renderContext = ctx || this.ctx;
+    const view = this.getViewCenter();
+    const x = this.canvas.width / 2 + (this.playerPosition.x - view.x) * this.config.blockSize;
+    const z = this.canvas.height / 2 + (this.playerPosition.z - view.z) * this.config.blockSize;
     
     // Save the current context state
     renderContext.save();
@@ -1037,6 +1927,58 @@ export class MinimapRenderer {
     
     // Restore the context state
     renderContext.restore();
+
+    this.drawSpecialPointArrows(renderContext, x, z);
+  }
+
+  /**
+   * Draw arrows around the player marker pointing to the death and spawn points, with their distance
+   */
+  private drawSpecialPointArrows(renderContext: CanvasRenderingContext2D, playerX: number, playerZ: number): void {
+    if (!this.playerPosition) return;
+
+    renderContext.save();
+    renderContext.textAlign = 'center';
+    renderContext.textBaseline = 'middle';
+    renderContext.strokeStyle = '#FFFFFF';
+    renderContext.lineWidth = 1;
+
+    for (const point of this.getSpecialWaypoints()) {
+      if (point.dimension !== this.currentDimension) continue;
+
+      const dx = point.x + 0.5 - this.playerPosition.x;
+      const dz = point.z + 0.5 - this.playerPosition.z;
+      const distance = Math.hypot(dx, dz);
+      if (distance < SPECIAL_POINT_MIN_DISTANCE) continue;
+
+      const angle = Math.atan2(dz, dx);
+      const arrowX = playerX + Math.cos(angle) * SPECIAL_POINT_ARROW_RADIUS;
+      const arrowZ = playerZ + Math.sin(angle) * SPECIAL_POINT_ARROW_RADIUS;
+
+      renderContext.save();
+      renderContext.translate(arrowX, arrowZ);
+      renderContext.rotate(angle);
+      renderContext.fillStyle = point.color;
+      renderContext.beginPath();
+      renderContext.moveTo(5, 0);
+      renderContext.lineTo(-4, -4);
+      renderContext.lineTo(-4, 4);
+      renderContext.closePath();
+      renderContext.fill();
+      renderContext.stroke();
+      renderContext.restore();
+
+      const labelRadius = SPECIAL_POINT_ARROW_RADIUS + 18;
+      renderContext.font = '9px sans-serif';
+      renderContext.fillStyle = '#FFFFFF';
+      renderContext.fillText(
+        `${point.icon} ${Math.round(distance)}m`,
+        playerX + Math.cos(angle) * labelRadius,
+        playerZ + Math.sin(angle) * labelRadius
+      );
+    }
+
+    renderContext.restore();
   }
   
   /**
@@ -1118,9 +2060,21 @@ export class MinimapRenderer {
     if (this.layeredRenderer) {
       this.layeredRenderer.clear();
     }
+
+    if (this.webglRenderer) {
+      this.webglRenderer.destroy();
+      this.webglRenderer = null;
+    }
+
+    if (this.rasterPool) {
+      this.rasterPool.destroy();
+      this.rasterPool = null;
+    }
     
     // Clear data
     this.chunks.clear();
+    this.lodTilePyramid.clear();
+    this.entities.clear();
     this.chunkCache.clear();
   }
   
@@ -1140,6 +2094,12 @@ export class MinimapRenderer {
       drawCalls: number;
       layerStats: any;
     };
+    webglStats?: {
+      regions: number;
+      residentRegions: number;
+      layers: number;
+      drawCalls: number;
+    };
   } {
     const metrics = this.fpsTracker.getMetrics();
     const baseStats = {
@@ -1150,6 +2110,13 @@ export class MinimapRenderer {
       renderingMode: this.config.renderingMode || 'legacy'
     };
 
+    if (this.webglRenderer) {
+      return {
+        ...baseStats,
+        webglStats: { ...this.webglRenderer.getStats(), drawCalls: this.drawCallCount }
+      };
+    }
+
     if (this.shouldUseOptimizedRendering()) {
       const chunkStats = this.chunkRenderer.getCacheStats();
       
@@ -1196,13 +2163,24 @@ export class MinimapRenderer {
   }
 
   /**
-   * Switch rendering mode
+   * Switch rendering mode, webgl falls back to optimized when WebGL 2 is not available
    */
-  setRenderingMode(mode: 'optimized' | 'legacy'): void {
+  setRenderingMode(mode: RenderingMode): void {
+    if (mode === 'webgl' && !this.webglRenderer) {
+      this.webglRenderer = this.createWebGLRenderer();
+      if (!this.webglRenderer) {
+        mode = 'optimized';
+      }
+    } else if (mode !== 'webgl' && this.webglRenderer) {
+      this.webglRenderer.destroy();
+      this.webglRenderer = null;
+    }
+
     this.config.renderingMode = mode;
     
     // Clear caches when switching modes
     this.chunkCache.clear();
+    this.rasterPool?.clear();
     if (this.chunkRenderer) {
       this.chunkRenderer.clearBitmapCache();
     }
@@ -1219,4 +2197,30 @@ export class MinimapRenderer {
     // Force full redraw
     this.requestRender();
   }
+
+  /**
+   * Create the WebGL backend and upload the chunks already loaded, null when not supported
+   */
+  private createWebGLRenderer(): WebGLTerrainRenderer | null {
+    if (!this.renderingConfigManager.getDeviceCapabilities().supportsWebGL) {
+      console.warn('⚠️ WebGL not supported, using optimized rendering');
+      return null;
+    }
+
+    try {
+      const renderer = new WebGLTerrainRenderer((dimension, chunkX, chunkZ) => {
+        const chunk = this.chunks.get(dimensionChunkKey(dimension, chunkX, chunkZ));
+        return chunk && isColorArrayChunk(chunk) ? chunk : undefined;
+      });
+      for (const chunk of this.chunks.values()) {
+        if (isColorArrayChunk(chunk)) {
+          renderer.updateChunk(chunk);
+        }
+      }
+      return renderer;
+    } catch (error) {
+      console.warn('⚠️ WebGL renderer unavailable, using optimized rendering:', error);
+      return null;
+    }
+  }
 }
@@ -83,7 +83,11 @@ export class ViewportTracker {
     }
   }
 
-  updateViewport(playerPos: PlayerPosition, blockSize: number): void {
+  /**
+   * Recalculate the bounds around the world position shown at the canvas center,
+   * the player or the point the map was panned to
+   */
+  updateViewport(center: PlayerPosition, blockSize: number): void {
     const width = this.canvas.width;
     const height = this.canvas.height;
     
@@ -98,10 +102,10 @@ export class ViewportTracker {
     const bufferChunks = Math.max(2, Math.ceil(16 / blockSize));
 
     // Calculate chunk bounds
-    const minChunkX = Math.floor((playerPos.x - visibleWidthBlocks / 2) / 16) - bufferChunks;
-    const maxChunkX = Math.ceil((playerPos.x + visibleWidthBlocks / 2) / 16) + bufferChunks;
-    const minChunkZ = Math.floor((playerPos.z - visibleHeightBlocks / 2) / 16) - bufferChunks;
-    const maxChunkZ = Math.ceil((playerPos.z + visibleHeightBlocks / 2) / 16) + bufferChunks;
+    const minChunkX = Math.floor((center.x - visibleWidthBlocks / 2) / 16) - bufferChunks;
+    const maxChunkX = Math.ceil((center.x + visibleWidthBlocks / 2) / 16) + bufferChunks;
+    const minChunkZ = Math.floor((center.z - visibleHeightBlocks / 2) / 16) - bufferChunks;
+    const maxChunkZ = Math.ceil((center.z + visibleHeightBlocks / 2) / 16) + bufferChunks;
 
     this.viewportBounds = {
       minChunkX,
@@ -111,8 +115,8 @@ export class ViewportTracker {
       screenWidth: width,
       screenHeight: height,
       zoom: blockSize,
-      centerWorldX: playerPos.x,
-      centerWorldZ: playerPos.z
+      centerWorldX: center.x,
+      centerWorldZ: center.z
     };
 
     this.updateCallback(this.viewportBounds);
@@ -0,0 +1,543 @@
+/**
+ * WebGLTerrainRenderer - GPU backend for the map terrain
+ *
+ * Chunk colours and heights live in two texture arrays with one layer per region
+ * of 32x32 chunks. All visible regions are drawn as instanced quads in a single
+ * draw call, hill-shading and ore detection dimming happen in the fragment shader.
+ * The terrain is rendered on its own canvas, the map canvas draws it below the overlays.
+ * Views spanning more regions than there are layers are left to the LOD tiles, see fitsView().
+ */
+
+import type { ChunkData } from "@minecraft-bedrock-minimap/shared";
+
+// Chunks along one side of a region, a region fills one texture layer
+const REGION_CHUNKS = 32;
+const REGION_BLOCKS = REGION_CHUNKS * 16;
+// Mip levels of the colour texture, down to 1x1
+const COLOR_MIP_LEVELS = Math.log2(REGION_BLOCKS) + 1;
+// Layers allocated at first, doubled while more regions are visible at once
+const INITIAL_LAYERS = 8;
+// Most regions kept on the GPU (about 2 MB each), the least recently drawn are evicted beyond it
+const MAX_LAYERS = 128;
+// Added to block heights so that 0 marks columns without data
+const HEIGHT_OFFSET = 65;
+
+const VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+// Region origin relative to the view center in blocks, and its texture layer
+layout(location = 1) in vec3 a_region;
+
+uniform vec2 u_canvasSize;
+uniform float u_blockSize;
+
+out vec2 v_local;
+flat out int v_layer;
+
+void main() {
+  v_local = a_corner * ${REGION_BLOCKS}.0;
+  vec2 screen = (a_region.xy + v_local) * u_blockSize + u_canvasSize * 0.5;
+  vec2 clip = screen / u_canvasSize * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_layer = int(a_region.z);
+}
+`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp int;
+precision highp sampler2DArray;
+
+uniform sampler2DArray u_colors;
+uniform sampler2DArray u_heights;
+uniform float u_blockSize;
+uniform float u_dimming;
+uniform bool u_hillShading;
+
+in vec2 v_local;
+flat in int v_layer;
+out vec4 outColor;
+
+float heightAt(ivec2 texel, float fallback) {
+  ivec2 clamped = clamp(texel, ivec2(0), ivec2(${REGION_BLOCKS - 1}));
+  vec2 bytes = round(texelFetch(u_heights, ivec3(clamped, v_layer), 0).rg * 255.0);
+  float height = bytes.r * 256.0 + bytes.g;
+  return height == 0.0 ? fallback : height;
+}
+
+void main() {
+  // Empty texels are all zero, so filtered colours are premultiplied by coverage
+  vec4 color = texture(u_colors, vec3(v_local / ${REGION_BLOCKS}.0, float(v_layer)));
+  if (color.a == 0.0) discard;
+  vec3 rgb = color.rgb / color.a;
+
+  // Light from the north west, slopes are only visible from one pixel per block
+  if (u_hillShading && u_blockSize >= 1.0) {
+    ivec2 texel = ivec2(floor(v_local));
+    float height = heightAt(texel, 0.0);
+    if (height > 0.0) {
+      float slope = (height - heightAt(texel - ivec2(1, 0), height)) + (height - heightAt(texel - ivec2(0, 1), height));
+      rgb *= clamp(1.0 + slope * 0.04, 0.75, 1.25);
+    }
+  }
+
+  outColor = vec4(clamp(rgb * u_dimming, 0.0, 1.0) * color.a, color.a);
+}
+`;
+
+export interface WebGLTerrainOptions {
+  hillShading: boolean;
+  dimming: number; // Multiplier for terrain colours, 1 leaves them unchanged
+}
+
+interface TerrainRegion {
+  dimension: number;
+  regionX: number;
+  regionZ: number;
+  // Texture layer while the region is on the GPU, -1 otherwise
+  layer: number;
+  lastDrawn: number;
+}
+
+export class WebGLTerrainRenderer {
+  readonly canvas: HTMLCanvasElement;
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram | null = null;
+  private vertexArray: WebGLVertexArrayObject | null = null;
+  private instanceBuffer: WebGLBuffer | null = null;
+  private colorTexture: WebGLTexture | null = null;
+  private heightTexture: WebGLTexture | null = null;
+  private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private layerCount = 0;
+  // MAX_LAYERS or fewer when the GPU does not support as many
+  private maxLayers = MAX_LAYERS;
+  private freeLayers: number[] = [];
+  // Framebuffers to blit each mip level of a layer from the level above
+  private mipmapReadFramebuffer: WebGLFramebuffer | null = null;
+  private mipmapDrawFramebuffer: WebGLFramebuffer | null = null;
+  // Every region that received a chunk, uploaded lazily once it is visible
+  private regions = new Map<string, TerrainRegion>();
+  // Layers whose chunks changed since their mip levels were last built
+  private dirtyLayers = new Set<number>();
+  private frame = 0;
+  private contextLost = false;
+  private getChunk: (dimension: number, chunkX: number, chunkZ: number) => ChunkData | undefined;
+
+  // Scratch buffers for uploads
+  private chunkColors = new Uint8Array(16 * 16 * 4);
+  private chunkHeights = new Uint8Array(16 * 16 * 2);
+  private emptyLayer: Uint8Array | null = null;
+
+  constructor(getChunk: (dimension: number, chunkX: number, chunkZ: number) => ChunkData | undefined) {
+    this.getChunk = getChunk;
+    this.canvas = document.createElement('canvas');
+
+    const gl = this.canvas.getContext('webgl2', { antialias: false, depth: false, stencil: false });
+    if (!gl) throw new Error('WebGL 2 context not available');
+    this.gl = gl;
+
+    this.canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
+
+    this.initializeResources();
+  }
+
+  /**
+   * Upload a new or changed chunk if its region is on the GPU
+   */
+  updateChunk(chunk: ChunkData): void {
+    const dimension = chunk.dimension ?? 0;
+    const region = this.getOrCreateRegion(dimension, Math.floor(chunk.x / REGION_CHUNKS), Math.floor(chunk.z / REGION_CHUNKS));
+
+    if (region.layer >= 0 && !this.contextLost) {
+      this.uploadChunk(chunk, region.layer);
+      this.dirtyLayers.add(region.layer);
+    }
+  }
+
+  /**
+   * Clear a removed chunk from its region layer
+   */
+  removeChunk(dimension: number, chunkX: number, chunkZ: number): void {
+    const region = this.regions.get(this.getRegionKey(dimension, Math.floor(chunkX / REGION_CHUNKS), Math.floor(chunkZ / REGION_CHUNKS)));
+    if (!region || region.layer < 0 || this.contextLost) return;
+
+    this.uploadChunk({ x: chunkX, z: chunkZ, dimension, colors: [], heights: [] }, region.layer);
+    this.dirtyLayers.add(region.layer);
+  }
+
+  /**
+   * Whether every region a view can touch fits in the texture layers, wider views should be drawn from LOD tiles
+   */
+  fitsView(blockSize: number, width: number, height: number): boolean {
+    // A view overlaps one more region than it spans when it does not start on a region edge
+    const regionsX = Math.ceil(width / blockSize / REGION_BLOCKS) + 1;
+    const regionsZ = Math.ceil(height / blockSize / REGION_BLOCKS) + 1;
+    return regionsX * regionsZ <= this.maxLayers;
+  }
+
+  /**
+   * Draw the terrain around a world position, returns the number of draw calls
+   */
+  render(viewX: number, viewZ: number, blockSize: number, dimension: number, width: number, height: number, options: WebGLTerrainOptions): number {
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+
+    const gl = this.gl;
+    gl.viewport(0, 0, width, height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    if (this.contextLost) return 0;
+
+    const visible = this.getVisibleRegions(viewX, viewZ, blockSize, dimension, width, height);
+    if (visible.length === 0) return 0;
+
+    if (visible.length > this.layerCount && this.layerCount < this.maxLayers) {
+      this.allocateLayers(Math.min(this.maxLayers, 2 ** Math.ceil(Math.log2(visible.length))));
+    }
+
+    // Nearest regions first so that they keep their layers when too many are visible
+    visible.sort((a, b) => this.getRegionDistance(a, viewX, viewZ) - this.getRegionDistance(b, viewX, viewZ));
+
+    this.frame++;
+    const instances = new Float32Array(Math.min(visible.length, this.layerCount) * 3);
+    let count = 0;
+    for (const region of visible.slice(0, this.layerCount)) {
+      if (!this.makeResident(region)) continue;
+      region.lastDrawn = this.frame;
+
+      instances[count * 3] = region.regionX * REGION_BLOCKS - viewX;
+      instances[count * 3 + 1] = region.regionZ * REGION_BLOCKS - viewZ;
+      instances[count * 3 + 2] = region.layer;
+      count++;
+    }
+
+    this.updateMipmaps();
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.colorTexture);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.heightTexture);
+
+    gl.useProgram(this.program);
+    gl.uniform1i(this.uniforms.u_colors, 0);
+    gl.uniform1i(this.uniforms.u_heights, 1);
+    gl.uniform2f(this.uniforms.u_canvasSize, width, height);
+    gl.uniform1f(this.uniforms.u_blockSize, blockSize);
+    gl.uniform1f(this.uniforms.u_dimming, options.dimming);
+    gl.uniform1i(this.uniforms.u_hillShading, options.hillShading ? 1 : 0);
+
+    gl.bindVertexArray(this.vertexArray);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, instances.subarray(0, count * 3), gl.DYNAMIC_DRAW);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+    gl.bindVertexArray(null);
+
+    return 1;
+  }
+
+  /**
+   * Forget every region, GPU memory is kept for reuse
+   */
+  clear(): void {
+    this.regions.clear();
+    this.freeLayers = this.createLayerList(this.layerCount);
+  }
+
+  getStats(): { regions: number; residentRegions: number; layers: number } {
+    let residentRegions = 0;
+    for (const region of this.regions.values()) {
+      if (region.layer >= 0) residentRegions++;
+    }
+    return { regions: this.regions.size, residentRegions, layers: this.layerCount };
+  }
+
+  /**
+   * Free all GPU resources
+   */
+  destroy(): void {
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.removeEventListener('webglcontextrestored', this.handleContextRestored);
+
+    const gl = this.gl;
+    gl.deleteTexture(this.colorTexture);
+    gl.deleteTexture(this.heightTexture);
+    gl.deleteBuffer(this.instanceBuffer);
+    gl.deleteFramebuffer(this.mipmapReadFramebuffer);
+    gl.deleteFramebuffer(this.mipmapDrawFramebuffer);
+    gl.deleteVertexArray(this.vertexArray);
+    gl.deleteProgram(this.program);
+    this.regions.clear();
+    this.freeLayers = [];
+    this.layerCount = 0;
+  }
+
+  private handleContextLost = (event: Event): void => {
+    // Allow the browser to restore the context
+    event.preventDefault();
+    this.contextLost = true;
+    console.warn('⚠️ WebGL context lost, terrain paused until it is restored');
+  };
+
+  private handleContextRestored = (): void => {
+    this.contextLost = false;
+    this.layerCount = 0;
+    for (const region of this.regions.values()) {
+      region.layer = -1;
+    }
+    this.initializeResources();
+  };
+
+  private initializeResources(): void {
+    const gl = this.gl;
+
+    this.program = this.createProgram(VERTEX_SHADER, FRAGMENT_SHADER);
+    for (const name of ['u_canvasSize', 'u_blockSize', 'u_colors', 'u_heights', 'u_dimming', 'u_hillShading']) {
+      this.uniforms[name] = gl.getUniformLocation(this.program, name);
+    }
+
+    this.vertexArray = gl.createVertexArray();
+    gl.bindVertexArray(this.vertexArray);
+
+    // Unit quad as a triangle strip
+    const quadBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    this.instanceBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.enableVertexAttribArray(1);
+    gl.vertexAttribPointer(1, 3, gl.FLOAT, false, 0, 0);
+    gl.vertexAttribDivisor(1, 1);
+
+    gl.bindVertexArray(null);
+
+    this.mipmapReadFramebuffer = gl.createFramebuffer();
+    this.mipmapDrawFramebuffer = gl.createFramebuffer();
+
+    this.maxLayers = Math.min(MAX_LAYERS, gl.getParameter(gl.MAX_ARRAY_TEXTURE_LAYERS));
+    this.allocateLayers(Math.min(INITIAL_LAYERS, this.maxLayers));
+  }
+
+  private createProgram(vertexSource: string, fragmentSource: string): WebGLProgram {
+    const gl = this.gl;
+    const program = gl.createProgram();
+    if (!program) throw new Error('Failed to create WebGL program');
+
+    gl.attachShader(program, this.compileShader(gl.VERTEX_SHADER, vertexSource));
+    gl.attachShader(program, this.compileShader(gl.FRAGMENT_SHADER, fragmentSource));
+    gl.linkProgram(program);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`Failed to link WebGL program: ${gl.getProgramInfoLog(program)}`);
+    }
+    return program;
+  }
+
+  private compileShader(type: number, source: string): WebGLShader {
+    const gl = this.gl;
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Failed to create WebGL shader');
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Failed to compile WebGL shader: ${gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+  }
+
+  /**
+   * Replace both texture arrays with larger ones, regions are uploaded again when drawn
+   */
+  private allocateLayers(layers: number): void {
+    const gl = this.gl;
+    gl.deleteTexture(this.colorTexture);
+    gl.deleteTexture(this.heightTexture);
+
+    this.colorTexture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.colorTexture);
+    gl.texStorage3D(gl.TEXTURE_2D_ARRAY, COLOR_MIP_LEVELS, gl.RGBA8, REGION_BLOCKS, REGION_BLOCKS, layers);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    this.heightTexture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.heightTexture);
+    gl.texStorage3D(gl.TEXTURE_2D_ARRAY, 1, gl.RG8, REGION_BLOCKS, REGION_BLOCKS, layers);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D_ARRAY, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+
+    this.layerCount = layers;
+    this.freeLayers = this.createLayerList(layers);
+    this.dirtyLayers.clear();
+    for (const region of this.regions.values()) {
+      region.layer = -1;
+    }
+    console.log(`🎮 WebGL terrain textures allocated for ${layers} regions`);
+  }
+
+  private createLayerList(layers: number): number[] {
+    return Array.from({ length: layers }, (_, index) => layers - 1 - index);
+  }
+
+  /**
+   * Give a region a texture layer and upload its chunks, false when no layer is free
+   */
+  private makeResident(region: TerrainRegion): boolean {
+    if (region.layer >= 0) return true;
+
+    let layer = this.freeLayers.pop();
+    if (layer === undefined) {
+      layer = this.evictRegion();
+      if (layer === undefined) return false;
+    }
+
+    region.layer = layer;
+    this.clearLayer(layer);
+
+    const baseX = region.regionX * REGION_CHUNKS;
+    const baseZ = region.regionZ * REGION_CHUNKS;
+    for (let x = 0; x < REGION_CHUNKS; x++) {
+      for (let z = 0; z < REGION_CHUNKS; z++) {
+        const chunk = this.getChunk(region.dimension, baseX + x, baseZ + z);
+        if (chunk) this.uploadChunk(chunk, layer);
+      }
+    }
+    this.dirtyLayers.add(layer);
+    return true;
+  }
+
+  /**
+   * Build the mip levels of the changed layers only, every level is a linear blit of the level above
+   * at half its size, which averages each 2x2 block like generateMipmap does for the whole array
+   */
+  private updateMipmaps(): void {
+    if (this.dirtyLayers.size === 0) return;
+
+    const gl = this.gl;
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, this.mipmapReadFramebuffer);
+    gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, this.mipmapDrawFramebuffer);
+    for (const layer of this.dirtyLayers) {
+      for (let level = 1; level < COLOR_MIP_LEVELS; level++) {
+        const size = REGION_BLOCKS >> level;
+        gl.framebufferTextureLayer(gl.READ_FRAMEBUFFER, gl.COLOR_ATTACHMENT0, this.colorTexture, level - 1, layer);
+        gl.framebufferTextureLayer(gl.DRAW_FRAMEBUFFER, gl.COLOR_ATTACHMENT0, this.colorTexture, level, layer);
+        gl.blitFramebuffer(0, 0, size * 2, size * 2, 0, 0, size, size, gl.COLOR_BUFFER_BIT, gl.LINEAR);
+      }
+    }
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, null);
+    gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, null);
+    this.dirtyLayers.clear();
+  }
+
+  /**
+   * Take the layer of the region drawn longest ago, never one drawn in this frame
+   */
+  private evictRegion(): number | undefined {
+    let oldest: TerrainRegion | null = null;
+    for (const region of this.regions.values()) {
+      if (region.layer < 0 || region.lastDrawn === this.frame) continue;
+      if (!oldest || region.lastDrawn < oldest.lastDrawn) oldest = region;
+    }
+    if (!oldest) return undefined;
+
+    const layer = oldest.layer;
+    oldest.layer = -1;
+    return layer;
+  }
+
+  private clearLayer(layer: number): void {
+    const gl = this.gl;
+    this.emptyLayer ??= new Uint8Array(REGION_BLOCKS * REGION_BLOCKS * 4);
+
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.colorTexture);
+    gl.texSubImage3D(gl.TEXTURE_2D_ARRAY, 0, 0, 0, layer, REGION_BLOCKS, REGION_BLOCKS, 1, gl.RGBA, gl.UNSIGNED_BYTE, this.emptyLayer);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.heightTexture);
+    gl.texSubImage3D(gl.TEXTURE_2D_ARRAY, 0, 0, 0, layer, REGION_BLOCKS, REGION_BLOCKS, 1, gl.RG, gl.UNSIGNED_BYTE, this.emptyLayer);
+  }
+
+  /**
+   * Write the colours and heights of a chunk into a layer, rows are block Z
+   */
+  private uploadChunk(chunk: ChunkData, layer: number): void {
+    const colors = this.chunkColors;
+    const heights = this.chunkHeights;
+    colors.fill(0);
+    heights.fill(0);
+
+    for (let x = 0; x < 16; x++) {
+      for (let z = 0; z < 16; z++) {
+        const color = chunk.colors[x]?.[z];
+        if (!color || color === '#000000') continue;
+
+        const value = parseInt(color.slice(1, 7), 16);
+        if (Number.isNaN(value)) continue;
+
+        const index = z * 16 + x;
+        colors[index * 4] = (value >> 16) & 0xff;
+        colors[index * 4 + 1] = (value >> 8) & 0xff;
+        colors[index * 4 + 2] = value & 0xff;
+        colors[index * 4 + 3] = 255;
+
+        const height = chunk.heights?.[x]?.[z];
+        if (height !== undefined) {
+          const stored = Math.max(1, Math.min(0xffff, Math.round(height) + HEIGHT_OFFSET));
+          heights[index * 2] = stored >> 8;
+          heights[index * 2 + 1] = stored & 0xff;
+        }
+      }
+    }
+
+    const gl = this.gl;
+    const offsetX = (chunk.x - Math.floor(chunk.x / REGION_CHUNKS) * REGION_CHUNKS) * 16;
+    const offsetZ = (chunk.z - Math.floor(chunk.z / REGION_CHUNKS) * REGION_CHUNKS) * 16;
+
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.colorTexture);
+    gl.texSubImage3D(gl.TEXTURE_2D_ARRAY, 0, offsetX, offsetZ, layer, 16, 16, 1, gl.RGBA, gl.UNSIGNED_BYTE, colors);
+    gl.bindTexture(gl.TEXTURE_2D_ARRAY, this.heightTexture);
+    gl.texSubImage3D(gl.TEXTURE_2D_ARRAY, 0, offsetX, offsetZ, layer, 16, 16, 1, gl.RG, gl.UNSIGNED_BYTE, heights);
+  }
+
+  private getVisibleRegions(viewX: number, viewZ: number, blockSize: number, dimension: number, width: number, height: number): TerrainRegion[] {
+    const halfWidth = width / 2 / blockSize;
+    const halfHeight = height / 2 / blockSize;
+    const minX = Math.floor((viewX - halfWidth) / REGION_BLOCKS);
+    const maxX = Math.floor((viewX + halfWidth) / REGION_BLOCKS);
+    const minZ = Math.floor((viewZ - halfHeight) / REGION_BLOCKS);
+    const maxZ = Math.floor((viewZ + halfHeight) / REGION_BLOCKS);
+
+    const visible: TerrainRegion[] = [];
+    for (const region of this.regions.values()) {
+      if (region.dimension !== dimension) continue;
+      if (region.regionX < minX || region.regionX > maxX || region.regionZ < minZ || region.regionZ > maxZ) continue;
+      visible.push(region);
+    }
+    return visible;
+  }
+
+  private getRegionDistance(region: TerrainRegion, viewX: number, viewZ: number): number {
+    const dx = (region.regionX + 0.5) * REGION_BLOCKS - viewX;
+    const dz = (region.regionZ + 0.5) * REGION_BLOCKS - viewZ;
+    return dx * dx + dz * dz;
+  }
+
+  private getRegionKey(dimension: number, regionX: number, regionZ: number): string {
+    return `${dimension}:${regionX}:${regionZ}`;
+  }
+
+  private getOrCreateRegion(dimension: number, regionX: number, regionZ: number): TerrainRegion {
+    const key = this.getRegionKey(dimension, regionX, regionZ);
+    let region = this.regions.get(key);
+    if (!region) {
+      region = { dimension, regionX, regionZ, layer: -1, lastDrawn: 0 };
+      this.regions.set(key, region);
+    }
+    return region;
+  }
+}
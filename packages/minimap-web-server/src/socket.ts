@@ -3,10 +3,14 @@ import type {
   MinimapToWebEvents,
   WebToMinimapEvents
 } from "@minecraft-bedrock-minimap/shared";
+import { chunkEncoding } from "./chunk-transport.js";
 
 // Get socket URL from environment or default
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || "http://localhost:3002";
 
+// Identifies this page to the server across reconnects, so its state can be carried over
+const clientId = `client-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+
 // Create typed socket instance
 export const socket: Socket<MinimapToWebEvents, WebToMinimapEvents> = io(SOCKET_URL, {
   autoConnect: true,
@@ -15,6 +19,7 @@ export const socket: Socket<MinimapToWebEvents, WebToMinimapEvents> = io(SOCKET_
   reconnectionDelayMax: 500,
   timeout: 20000000,
   transports: ["websocket", "polling"],
+  auth: { chunkEncoding, clientId },
 });
 
 
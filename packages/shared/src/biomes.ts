@@ -0,0 +1,100 @@
+import type { BiomeInfo } from "./types.js";
+
+// Bedrock biomes by the numeric ID chunk biome data stores. Colours for the biome map,
+// temperatures and water colours as in the game data
+export const BEDROCK_BIOMES: Record<number, BiomeInfo> = {
+  0: { name: "ocean", displayName: "Ocean", color: "#000070", temperature: 0.5, waterColor: "#1787d4" },
+  1: { name: "plains", displayName: "Plains", color: "#8db360", temperature: 0.8, waterColor: "#44aff5" },
+  2: { name: "desert", displayName: "Desert", color: "#fa9418", temperature: 2, waterColor: "#32a598" },
+  3: { name: "extreme_hills", displayName: "Windswept Hills", color: "#606060", temperature: 0.2, waterColor: "#007bf7" },
+  4: { name: "forest", displayName: "Forest", color: "#056621", temperature: 0.7, waterColor: "#1e97f2" },
+  5: { name: "taiga", displayName: "Taiga", color: "#0b6659", temperature: 0.25, waterColor: "#287082" },
+  6: { name: "swampland", displayName: "Swamp", color: "#07f9b2", temperature: 0.8, waterColor: "#4c6559" },
+  7: { name: "river", displayName: "River", color: "#0000ff", temperature: 0.5, waterColor: "#0084ff" },
+  8: { name: "hell", displayName: "Nether Wastes", color: "#bf3b3b", temperature: 2, waterColor: "#905957" },
+  9: { name: "the_end", displayName: "The End", color: "#8080ff", temperature: 0.5, waterColor: "#62529e" },
+  10: { name: "legacy_frozen_ocean", displayName: "Legacy Frozen Ocean", color: "#9090a0", temperature: 0, waterColor: "#60b7ff" },
+  11: { name: "frozen_river", displayName: "Frozen River", color: "#a0a0ff", temperature: 0, waterColor: "#185390" },
+  12: { name: "ice_plains", displayName: "Snowy Plains", color: "#ffffff", temperature: 0, waterColor: "#14559b" },
+  13: { name: "ice_mountains", displayName: "Snowy Mountains", color: "#a0a0a0", temperature: 0, waterColor: "#1156a7" },
+  14: { name: "mushroom_island", displayName: "Mushroom Fields", color: "#ff00ff", temperature: 0.9, waterColor: "#8a8997" },
+  15: { name: "mushroom_island_shore", displayName: "Mushroom Field Shore", color: "#a000ff", temperature: 0.9, waterColor: "#818193" },
+  16: { name: "beach", displayName: "Beach", color: "#fade55", temperature: 0.8, waterColor: "#157cab" },
+  17: { name: "desert_hills", displayName: "Desert Hills", color: "#d25f12", temperature: 2, waterColor: "#1a7aa1" },
+  18: { name: "forest_hills", displayName: "Forest Hills", color: "#22551c", temperature: 0.7, waterColor: "#056bd1" },
+  19: { name: "taiga_hills", displayName: "Taiga Hills", color: "#163933", temperature: 0.25, waterColor: "#236583" },
+  20: { name: "extreme_hills_edge", displayName: "Windswept Hills Edge", color: "#72789a", temperature: 0.2, waterColor: "#045cd5" },
+  21: { name: "jungle", displayName: "Jungle", color: "#537b09", temperature: 0.95, waterColor: "#14a2c5" },
+  22: { name: "jungle_hills", displayName: "Jungle Hills", color: "#2c4205", temperature: 0.95, waterColor: "#1b9ed8" },
+  23: { name: "jungle_edge", displayName: "Jungle Edge", color: "#628b17", temperature: 0.95, waterColor: "#0d8ae3" },
+  24: { name: "deep_ocean", displayName: "Deep Ocean", color: "#000030", temperature: 0.5, waterColor: "#1787d4" },
+  25: { name: "stone_beach", displayName: "Stony Shore", color: "#a2a284", temperature: 0.2, waterColor: "#0d67bb" },
+  26: { name: "cold_beach", displayName: "Snowy Beach", color: "#faf0c0", temperature: 0.05, waterColor: "#1463a5" },
+  27: { name: "birch_forest", displayName: "Birch Forest", color: "#307444", temperature: 0.6, waterColor: "#0677ce" },
+  28: { name: "birch_forest_hills", displayName: "Birch Forest Hills", color: "#1f5f32", temperature: 0.6, waterColor: "#0a74c4" },
+  29: { name: "roofed_forest", displayName: "Dark Forest", color: "#40511a", temperature: 0.7, waterColor: "#3b6cd1" },
+  30: { name: "cold_taiga", displayName: "Snowy Taiga", color: "#31554a", temperature: -0.5, waterColor: "#205e83" },
+  31: { name: "cold_taiga_hills", displayName: "Snowy Taiga Hills", color: "#243f36", temperature: -0.5, waterColor: "#245b78" },
+  32: { name: "mega_taiga", displayName: "Old Growth Pine Taiga", color: "#596651", temperature: 0.3, waterColor: "#2d6d77" },
+  33: { name: "mega_taiga_hills", displayName: "Old Growth Pine Taiga Hills", color: "#454f3e", temperature: 0.3, waterColor: "#286378" },
+  34: { name: "extreme_hills_plus_trees", displayName: "Windswept Forest", color: "#507050", temperature: 0.2, waterColor: "#0e63ab" },
+  35: { name: "savanna", displayName: "Savanna", color: "#bdb25f", temperature: 1.2, waterColor: "#2c8b9c" },
+  36: { name: "savanna_plateau", displayName: "Savanna Plateau", color: "#a79d64", temperature: 1, waterColor: "#2590a8" },
+  37: { name: "mesa", displayName: "Badlands", color: "#d94515", temperature: 2, waterColor: "#4e7f81" },
+  38: { name: "mesa_plateau_stone", displayName: "Wooded Badlands", color: "#b09765", temperature: 2, waterColor: "#55809e" },
+  39: { name: "mesa_plateau", displayName: "Badlands Plateau", color: "#ca8c65", temperature: 2, waterColor: "#55809e" },
+  40: { name: "warm_ocean", displayName: "Warm Ocean", color: "#0000ac", temperature: 0.5, waterColor: "#02b0e5" },
+  41: { name: "deep_warm_ocean", displayName: "Deep Warm Ocean", color: "#000050", temperature: 0.5, waterColor: "#02b0e5" },
+  42: { name: "lukewarm_ocean", displayName: "Lukewarm Ocean", color: "#000090", temperature: 0.5, waterColor: "#0d96db" },
+  43: { name: "deep_lukewarm_ocean", displayName: "Deep Lukewarm Ocean", color: "#000040", temperature: 0.5, waterColor: "#0d96db" },
+  44: { name: "cold_ocean", displayName: "Cold Ocean", color: "#202070", temperature: 0.5, waterColor: "#2080c9" },
+  45: { name: "deep_cold_ocean", displayName: "Deep Cold Ocean", color: "#202038", temperature: 0.5, waterColor: "#2080c9" },
+  46: { name: "frozen_ocean", displayName: "Frozen Ocean", color: "#7070d6", temperature: 0, waterColor: "#2570b5" },
+  47: { name: "deep_frozen_ocean", displayName: "Deep Frozen Ocean", color: "#404090", temperature: 0, waterColor: "#2570b5" },
+  48: { name: "bamboo_jungle", displayName: "Bamboo Jungle", color: "#768e14", temperature: 0.95, waterColor: "#14a2c5" },
+  49: { name: "bamboo_jungle_hills", displayName: "Bamboo Jungle Hills", color: "#3b470a", temperature: 0.95, waterColor: "#1b9ed8" },
+  129: { name: "sunflower_plains", displayName: "Sunflower Plains", color: "#b5db88", temperature: 0.8, waterColor: "#60b7ff" },
+  130: { name: "desert_mutated", displayName: "Desert Lakes", color: "#ffbc40", temperature: 2, waterColor: "#32a598" },
+  131: { name: "extreme_hills_mutated", displayName: "Windswept Gravelly Hills", color: "#888888", temperature: 0.2, waterColor: "#0e63ab" },
+  132: { name: "flower_forest", displayName: "Flower Forest", color: "#2d8e49", temperature: 0.7, waterColor: "#20a3cc" },
+  133: { name: "taiga_mutated", displayName: "Taiga Mountains", color: "#338e81", temperature: 0.25, waterColor: "#1e6b82" },
+  134: { name: "swampland_mutated", displayName: "Swamp Hills", color: "#2fffda", temperature: 0.8, waterColor: "#4c6559" },
+  140: { name: "ice_plains_spikes", displayName: "Ice Spikes", color: "#b4dcdc", temperature: 0, waterColor: "#60b7ff" },
+  149: { name: "jungle_mutated", displayName: "Modified Jungle", color: "#7ba331", temperature: 0.95, waterColor: "#1b9ed8" },
+  151: { name: "jungle_edge_mutated", displayName: "Modified Jungle Edge", color: "#8ab33f", temperature: 0.95, waterColor: "#0d8ae3" },
+  155: { name: "birch_forest_mutated", displayName: "Old Growth Birch Forest", color: "#589c6c", temperature: 0.6, waterColor: "#0677ce" },
+  156: { name: "birch_forest_hills_mutated", displayName: "Tall Birch Hills", color: "#47875a", temperature: 0.7, waterColor: "#0a74c4" },
+  157: { name: "roofed_forest_mutated", displayName: "Dark Forest Hills", color: "#687942", temperature: 0.7, waterColor: "#3b6cd1" },
+  158: { name: "cold_taiga_mutated", displayName: "Snowy Taiga Mountains", color: "#597d72", temperature: -0.5, waterColor: "#205e83" },
+  160: { name: "redwood_taiga_mutated", displayName: "Old Growth Spruce Taiga", color: "#818e79", temperature: 0.25, waterColor: "#2d6d77" },
+  161: { name: "redwood_taiga_hills_mutated", displayName: "Old Growth Spruce Taiga Hills", color: "#6d7766", temperature: 0.3, waterColor: "#286378" },
+  162: { name: "extreme_hills_plus_trees_mutated", displayName: "Windswept Forest Mountains", color: "#789878", temperature: 0.2, waterColor: "#0e63ab" },
+  163: { name: "savanna_mutated", displayName: "Windswept Savanna", color: "#e5da87", temperature: 2, waterColor: "#60b7ff" },
+  164: { name: "savanna_plateau_mutated", displayName: "Shattered Savanna Plateau", color: "#cfc58c", temperature: 1, waterColor: "#60b7ff" },
+  165: { name: "mesa_bryce", displayName: "Eroded Badlands", color: "#ff6d3d", temperature: 2, waterColor: "#14a2c5" },
+  166: { name: "mesa_plateau_stone_mutated", displayName: "Modified Wooded Badlands", color: "#d8bf8d", temperature: 2, waterColor: "#55809e" },
+  167: { name: "mesa_plateau_mutated", displayName: "Modified Badlands Plateau", color: "#f2b48d", temperature: 2, waterColor: "#55809e" },
+  178: { name: "soulsand_valley", displayName: "Soul Sand Valley", color: "#5e3830", temperature: 2, waterColor: "#905957" },
+  179: { name: "crimson_forest", displayName: "Crimson Forest", color: "#dd0808", temperature: 2, waterColor: "#905957" },
+  180: { name: "warped_forest", displayName: "Warped Forest", color: "#49907b", temperature: 2, waterColor: "#905957" },
+  181: { name: "basalt_deltas", displayName: "Basalt Deltas", color: "#403636", temperature: 2, waterColor: "#3f76e4" },
+  182: { name: "jagged_peaks", displayName: "Jagged Peaks", color: "#dcdcc8", temperature: -0.7, waterColor: "#60b7ff" },
+  183: { name: "frozen_peaks", displayName: "Frozen Peaks", color: "#b0b3ce", temperature: -0.7, waterColor: "#60b7ff" },
+  184: { name: "snowy_slopes", displayName: "Snowy Slopes", color: "#c4c4c4", temperature: -0.3, waterColor: "#60b7ff" },
+  185: { name: "grove", displayName: "Grove", color: "#47726c", temperature: -0.2, waterColor: "#60b7ff" },
+  186: { name: "meadow", displayName: "Meadow", color: "#60a445", temperature: 0.3, waterColor: "#60b7ff" },
+  187: { name: "lush_caves", displayName: "Lush Caves", color: "#283c00", temperature: 0.9, waterColor: "#60b7ff" },
+  188: { name: "dripstone_caves", displayName: "Dripstone Caves", color: "#4e3012", temperature: 0.2, waterColor: "#60b7ff" },
+  189: { name: "stony_peaks", displayName: "Stony Peaks", color: "#7b8f74", temperature: 1, waterColor: "#60b7ff" },
+  190: { name: "deep_dark", displayName: "Deep Dark", color: "#031f29", temperature: 0.8, waterColor: "#60b7ff" },
+  191: { name: "mangrove_swamp", displayName: "Mangrove Swamp", color: "#2ccc8e", temperature: 0.8, waterColor: "#60b7ff" },
+  192: { name: "cherry_grove", displayName: "Cherry Grove", color: "#ff91c8", temperature: 0.3, waterColor: "#60b7ff" },
+  193: { name: "pale_garden", displayName: "Pale Garden", color: "#696d95", temperature: 0.7, waterColor: "#60b7ff" }
+};
+
+/**
+ * Biome of a numeric biome ID, undefined for unknown IDs
+ */
+export function getBiomeInfo(id: number): BiomeInfo | undefined {
+  return BEDROCK_BIOMES[id];
+}
@@ -0,0 +1,365 @@
+import type { ChunkData, ChunkEncoding, OreLocation } from "./types.js";
+import { OreType } from "./types.js";
+
+/**
+ * Binary encoding of processed chunks for the minimap server to web client hop.
+ *
+ * Every chunk is a colour palette plus one palette index per column and optional
+ * Int16 heights, all little endian:
+ *
+ *   i32 x, i32 z, i8 dimension, u8 flags, u16 palette size
+ *   u32 version when CHUNK_FLAG_VERSION is set
+ *   u32 RGBA per palette entry
+ *   256 palette indices (x * 16 + z), u8 or u16 when the palette has over 256 entries
+ *   256 i16 heights when CHUNK_FLAG_HEIGHTS is set
+ *   256 u8 biome IDs when CHUNK_FLAG_BIOMES is set
+ *   16 u16 spawn bitmasks, one per x with bit z set, when CHUNK_FLAG_SPAWNABLE is set
+ *   u32 ore count, then per ore u8 local x, u8 local z, i16 y, u8 ore type
+ *
+ * Cleared chunks (no colours) set CHUNK_FLAG_EMPTY and carry no palette, indices or heights,
+ * only their version.
+ * A batch is a u32 chunk count followed by the chunks.
+ */
+
+const CHUNK_FLAG_HEIGHTS = 1;
+const CHUNK_FLAG_EMPTY = 2;
+const CHUNK_FLAG_VERSION = 4;
+const CHUNK_FLAG_BIOMES = 8;
+const CHUNK_FLAG_SPAWNABLE = 16;
+
+const COLUMNS = 256;
+
+// Bytes before each sub chunk of a column payload: i8 y and u32 length
+const SECTION_HEADER_SIZE = 5;
+
+// Ore types in a stable order, stored by index
+const ORE_TYPES = Object.values(OreType);
+
+/**
+ * Chunk encoding asked for in a socket handshake auth, json when missing or unknown
+ */
+export function getChunkEncoding(auth: Record<string, unknown>): ChunkEncoding {
+  return auth.chunkEncoding === 'binary' ? 'binary' : 'json';
+}
+
+/**
+ * Pack a '#rrggbb' or '#rrggbbaa' colour into a u32, malformed colours become opaque black
+ */
+function packColor(color: string): number {
+  const rgb = parseInt(color.slice(1, 7), 16);
+  const alpha = color.length === 9 ? parseInt(color.slice(7, 9), 16) : 0xff;
+  if (Number.isNaN(rgb) || Number.isNaN(alpha)) return 0x000000ff;
+  return ((rgb << 8) | alpha) >>> 0;
+}
+
+function unpackColor(value: number): string {
+  const rgb = (value >>> 8).toString(16).padStart(6, '0');
+  const alpha = value & 0xff;
+  return alpha === 0xff ? `#${rgb}` : `#${rgb}${alpha.toString(16).padStart(2, '0')}`;
+}
+
+interface EncodedChunk {
+  chunk: ChunkData;
+  palette: number[];
+  indices: number[];
+  ores: OreLocation[];
+  byteLength: number;
+}
+
+function prepareChunk(chunk: ChunkData): EncodedChunk {
+  const versionLength = chunk.version !== undefined ? 4 : 0;
+  if (chunk.colors.length === 0) {
+    return { chunk, palette: [], indices: [], ores: [], byteLength: 16 + versionLength };
+  }
+
+  const palette: number[] = [];
+  const paletteIndex = new Map<number, number>();
+  const indices = new Array<number>(COLUMNS);
+
+  for (let x = 0; x < 16; x++) {
+    for (let z = 0; z < 16; z++) {
+      const color = packColor(chunk.colors[x]?.[z] ?? '#000000');
+      let index = paletteIndex.get(color);
+      if (index === undefined) {
+        index = palette.length;
+        palette.push(color);
+        paletteIndex.set(color, index);
+      }
+      indices[x * 16 + z] = index;
+    }
+  }
+
+  const ores = (chunk.ores ?? []).filter(ore => ORE_TYPES.includes(ore.oreType));
+  const indexSize = palette.length > 256 ? 2 : 1;
+  const byteLength = 12 + versionLength + palette.length * 4 + COLUMNS * indexSize
+    + (chunk.heights ? COLUMNS * 2 : 0)
+    + (chunk.biomes ? COLUMNS : 0)
+    + (chunk.spawnable ? 32 : 0)
+    + 4 + ores.length * 5;
+
+  return { chunk, palette, indices, ores, byteLength };
+}
+
+/**
+ * Encode processed chunks into a single binary batch
+ */
+export function encodeChunkBatch(chunks: ChunkData[]): Uint8Array {
+  const prepared = chunks.map(prepareChunk);
+  const bytes = new Uint8Array(4 + prepared.reduce((total, entry) => total + entry.byteLength, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  view.setUint32(offset, prepared.length, true);
+  offset += 4;
+
+  for (const { chunk, palette, indices, ores } of prepared) {
+    view.setInt32(offset, chunk.x, true);
+    view.setInt32(offset + 4, chunk.z, true);
+    view.setInt8(offset + 8, chunk.dimension ?? 0);
+    const versionFlag = chunk.version !== undefined ? CHUNK_FLAG_VERSION : 0;
+    if (chunk.colors.length === 0) {
+      view.setUint8(offset + 9, CHUNK_FLAG_EMPTY | versionFlag);
+      view.setUint16(offset + 10, 0, true);
+      offset += 12;
+      if (chunk.version !== undefined) {
+        view.setUint32(offset, chunk.version, true);
+        offset += 4;
+      }
+      view.setUint32(offset, 0, true);
+      offset += 4;
+      continue;
+    }
+
+    view.setUint8(offset + 9, (chunk.heights ? CHUNK_FLAG_HEIGHTS : 0) | (chunk.biomes ? CHUNK_FLAG_BIOMES : 0)
+      | (chunk.spawnable ? CHUNK_FLAG_SPAWNABLE : 0) | versionFlag);
+    view.setUint16(offset + 10, palette.length, true);
+    offset += 12;
+
+    if (chunk.version !== undefined) {
+      view.setUint32(offset, chunk.version, true);
+      offset += 4;
+    }
+
+    for (const color of palette) {
+      view.setUint32(offset, color, true);
+      offset += 4;
+    }
+
+    if (palette.length > 256) {
+      for (const index of indices) {
+        view.setUint16(offset, index, true);
+        offset += 2;
+      }
+    } else {
+      bytes.set(indices, offset);
+      offset += COLUMNS;
+    }
+
+    if (chunk.heights) {
+      for (let x = 0; x < 16; x++) {
+        for (let z = 0; z < 16; z++) {
+          view.setInt16(offset, chunk.heights[x]?.[z] ?? -64, true);
+          offset += 2;
+        }
+      }
+    }
+
+    if (chunk.biomes) {
+      for (let x = 0; x < 16; x++) {
+        for (let z = 0; z < 16; z++) {
+          view.setUint8(offset, chunk.biomes[x]?.[z] ?? 0);
+          offset += 1;
+        }
+      }
+    }
+
+    if (chunk.spawnable) {
+      for (let x = 0; x < 16; x++) {
+        view.setUint16(offset, chunk.spawnable[x] ?? 0, true);
+        offset += 2;
+      }
+    }
+
+    view.setUint32(offset, ores.length, true);
+    offset += 4;
+    for (const ore of ores) {
+      view.setUint8(offset, ore.x & 15);
+      view.setUint8(offset + 1, ore.z & 15);
+      view.setInt16(offset + 2, ore.y, true);
+      view.setUint8(offset + 4, ORE_TYPES.indexOf(ore.oreType));
+      offset += 5;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Decode a binary batch back into processed chunks
+ */
+export function decodeChunkBatch(data: ArrayBuffer | Uint8Array): ChunkData[] {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: ChunkData[] = [];
+  let offset = 0;
+
+  const count = view.getUint32(offset, true);
+  offset += 4;
+
+  for (let i = 0; i < count; i++) {
+    const x = view.getInt32(offset, true);
+    const z = view.getInt32(offset + 4, true);
+    const dimension = view.getInt8(offset + 8);
+    const flags = view.getUint8(offset + 9);
+    const paletteSize = view.getUint16(offset + 10, true);
+    offset += 12;
+
+    let version: number | undefined;
+    if (flags & CHUNK_FLAG_VERSION) {
+      version = view.getUint32(offset, true);
+      offset += 4;
+    }
+
+    if (flags & CHUNK_FLAG_EMPTY) {
+      offset += 4;
+      chunks.push({ x, z, dimension, colors: [], heights: [], ores: [], version });
+      continue;
+    }
+
+    const palette: string[] = [];
+    for (let p = 0; p < paletteSize; p++) {
+      palette.push(unpackColor(view.getUint32(offset, true)));
+      offset += 4;
+    }
+
+    const colors: string[][] = [];
+    for (let cx = 0; cx < 16; cx++) {
+      const row: string[] = [];
+      for (let cz = 0; cz < 16; cz++) {
+        let index: number;
+        if (paletteSize > 256) {
+          index = view.getUint16(offset, true);
+          offset += 2;
+        } else {
+          index = bytes[offset];
+          offset += 1;
+        }
+        row.push(palette[index] ?? '#000000');
+      }
+      colors.push(row);
+    }
+
+    const chunk: ChunkData = { x, z, dimension, colors, version };
+
+    if (flags & CHUNK_FLAG_HEIGHTS) {
+      const heights: number[][] = [];
+      for (let cx = 0; cx < 16; cx++) {
+        const row: number[] = [];
+        for (let cz = 0; cz < 16; cz++) {
+          row.push(view.getInt16(offset, true));
+          offset += 2;
+        }
+        heights.push(row);
+      }
+      chunk.heights = heights;
+    }
+
+    if (flags & CHUNK_FLAG_BIOMES) {
+      const biomes: number[][] = [];
+      for (let cx = 0; cx < 16; cx++) {
+        biomes.push(Array.from(bytes.subarray(offset, offset + 16)));
+        offset += 16;
+      }
+      chunk.biomes = biomes;
+    }
+
+    if (flags & CHUNK_FLAG_SPAWNABLE) {
+      const spawnable: number[] = [];
+      for (let cx = 0; cx < 16; cx++) {
+        spawnable.push(view.getUint16(offset, true));
+        offset += 2;
+      }
+      chunk.spawnable = spawnable;
+    }
+
+    const oreCount = view.getUint32(offset, true);
+    offset += 4;
+    const ores: OreLocation[] = [];
+    for (let o = 0; o < oreCount; o++) {
+      const oreType = ORE_TYPES[view.getUint8(offset + 4)];
+      if (oreType) {
+        ores.push({
+          x: x * 16 + view.getUint8(offset),
+          z: z * 16 + view.getUint8(offset + 1),
+          y: view.getInt16(offset + 2, true),
+          oreType,
+          chunkX: x,
+          chunkZ: z
+        });
+      }
+      offset += 5;
+    }
+    chunk.ores = ores;
+
+    chunks.push(chunk);
+  }
+
+  return chunks;
+}
+
+/**
+ * A chunk column for the proxy to minimap server hop, in the network encoding of prismarine-chunk:
+ * every sub chunk is sent with runtime block state IDs followed by its block entities,
+ * biomes hold the biome sections and the border block count
+ */
+export interface ColumnPayload {
+  sections: Array<{ y: number; data: Uint8Array }>;
+  biomes: Uint8Array;
+}
+
+/**
+ * Frame a column payload as u8 sub chunk count, then per sub chunk i8 y, u32 length and its bytes,
+ * then the biomes up to the end
+ */
+export function encodeColumnPayload(payload: ColumnPayload): Uint8Array {
+  const sectionsLength = payload.sections.reduce((total, section) => total + SECTION_HEADER_SIZE + section.data.byteLength, 0);
+  const bytes = new Uint8Array(1 + sectionsLength + payload.biomes.byteLength);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  view.setUint8(offset, payload.sections.length);
+  offset += 1;
+
+  for (const { y, data } of payload.sections) {
+    view.setInt8(offset, y);
+    view.setUint32(offset + 1, data.byteLength, true);
+    offset += SECTION_HEADER_SIZE;
+    bytes.set(data, offset);
+    offset += data.byteLength;
+  }
+
+  bytes.set(payload.biomes, offset);
+  return bytes;
+}
+
+/**
+ * Split a framed column payload back into its sub chunks and biomes, without copying
+ */
+export function decodeColumnPayload(data: Uint8Array): ColumnPayload {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const sections: ColumnPayload['sections'] = [];
+  let offset = 0;
+
+  const count = view.getUint8(offset);
+  offset += 1;
+
+  for (let i = 0; i < count; i++) {
+    const y = view.getInt8(offset);
+    const length = view.getUint32(offset + 1, true);
+    offset += SECTION_HEADER_SIZE;
+    sections.push({ y, data: data.subarray(offset, offset + length) });
+    offset += length;
+  }
+
+  return { sections, biomes: data.subarray(offset) };
+}
@@ -0,0 +1,56 @@
+/**
+ * Entity Utilities
+ * Categorisation and display colors for entities drawn on the map
+ */
+
+import type { EntityCategory } from './types.js';
+
+/**
+ * Mobs that attack the player
+ */
+export const HOSTILE_ENTITY_TYPES = new Set([
+  'minecraft:zombie', 'minecraft:zombie_villager_v2', 'minecraft:husk', 'minecraft:drowned',
+  'minecraft:skeleton', 'minecraft:stray', 'minecraft:bogged', 'minecraft:wither_skeleton',
+  'minecraft:creeper', 'minecraft:spider', 'minecraft:cave_spider', 'minecraft:enderman',
+  'minecraft:witch', 'minecraft:slime', 'minecraft:magma_cube', 'minecraft:phantom',
+  'minecraft:blaze', 'minecraft:ghast', 'minecraft:zombie_pigman', 'minecraft:piglin', 'minecraft:piglin_brute',
+  'minecraft:hoglin', 'minecraft:zoglin', 'minecraft:silverfish', 'minecraft:endermite',
+  'minecraft:guardian', 'minecraft:elder_guardian', 'minecraft:shulker', 'minecraft:vex',
+  'minecraft:vindicator', 'minecraft:evocation_illager', 'minecraft:pillager', 'minecraft:ravager',
+  'minecraft:warden', 'minecraft:breeze', 'minecraft:creaking', 'minecraft:wither', 'minecraft:ender_dragon'
+]);
+
+/**
+ * Animals, villagers and other mobs that do not attack on sight
+ */
+export const PASSIVE_ENTITY_TYPES = new Set([
+  'minecraft:cow', 'minecraft:mooshroom', 'minecraft:pig', 'minecraft:sheep', 'minecraft:chicken',
+  'minecraft:rabbit', 'minecraft:horse', 'minecraft:donkey', 'minecraft:mule', 'minecraft:skeleton_horse',
+  'minecraft:zombie_horse', 'minecraft:llama', 'minecraft:trader_llama', 'minecraft:camel',
+  'minecraft:wolf', 'minecraft:cat', 'minecraft:ocelot', 'minecraft:fox', 'minecraft:panda',
+  'minecraft:polar_bear', 'minecraft:goat', 'minecraft:bee', 'minecraft:parrot', 'minecraft:bat',
+  'minecraft:turtle', 'minecraft:dolphin', 'minecraft:cod', 'minecraft:salmon', 'minecraft:pufferfish',
+  'minecraft:tropicalfish', 'minecraft:squid', 'minecraft:glow_squid', 'minecraft:axolotl',
+  'minecraft:frog', 'minecraft:tadpole', 'minecraft:sniffer', 'minecraft:armadillo', 'minecraft:allay',
+  'minecraft:strider', 'minecraft:villager_v2', 'minecraft:wandering_trader',
+  'minecraft:iron_golem', 'minecraft:snow_golem', 'minecraft:happy_ghast'
+]);
+
+/**
+ * Category of a mob, or null for entities that are not shown (projectiles, minecarts, xp orbs, ...)
+ */
+export function getMobCategory(entityType: string): EntityCategory | null {
+  if (HOSTILE_ENTITY_TYPES.has(entityType)) return 'hostile';
+  if (PASSIVE_ENTITY_TYPES.has(entityType)) return 'passive';
+  return null;
+}
+
+/**
+ * Marker color for each entity category
+ */
+export const ENTITY_CATEGORY_COLORS: Record<EntityCategory, string> = {
+  hostile: '#FF4040',   // Red
+  passive: '#40FF40',   // Green
+  player: '#40A0FF',    // Blue
+  item: '#FFD700'       // Gold
+};
@@ -7,11 +7,26 @@ export * from "./socket-events.js";
 // Export block color utilities
 export * from "./block-colors.js";
 
+// Export biome data
+export * from "./biomes.js";
+
 // Export ore detection utilities
 export * from "./ore-utils.js";
 
+// Export entity utilities
+export * from "./entity-utils.js";
+
 // Export chunk coordinate utilities
 export * from "./utils/chunk-coords.js";
 
 // Export proxy settings types and utilities
-export * from "./types/proxy-settings.js";
\ No newline at end of file
+export * from "./types/proxy-settings.js";
+
+// Export binary chunk encoding
+export * from "./chunk-codec.js";
+
+// Export chunk delta utilities
+export * from "./utils/chunk-delta.js";
+
+// Export chunk version utilities
+export * from "./utils/chunk-version.js";
@@ -1,10 +1,28 @@
 import type { 
   ChunkData, 
+  ChunkCoordinate,
   PlayerPosition, 
   ChunkResponse, 
   InvalidateChunksData,
   BatchUpdateData,
-  OreDetectionConfig
+  BinaryBatchUpdateData,
+  BinaryChunkBatch,
+  BinaryChunkResponse,
+  ChunkBlockChanges,
+  ChunkEncoding,
+  ChunkViewport,
+  HeldChunkVersion,
+  MapLayer,
+  MapLayerSetting,
+  OreDetectionConfig,
+  ReplayStatus,
+  ReplayControlCommand,
+  EntitiesUpdate,
+  PlayerInfo,
+  SessionInfo,
+  SpecialPoints,
+  Waypoint,
+  WaypointInput
 } from "./types.js";
 
 // Events from Proxy Server to Minimap Server
@@ -13,32 +31,73 @@ export interface ProxyToMinimapEvents {
   "world-reset": () => void;
   "connection-status": (status: { connected: boolean; playerId?: string }) => void;
   "chunk-data": (chunks: ChunkResponse[]) => void;
+  // Replaces chunk-data for minimap servers that negotiated binary chunks
+  "chunk-data-binary": (chunks: BinaryChunkResponse[]) => void;
+  // Blocks changed in loaded columns, sent instead of refreshing the whole columns
+  "block-changes": (changes: ChunkBlockChanges[]) => void;
+  "replay-status": (status: ReplayStatus) => void;
+  "entities-update": (update: EntitiesUpdate) => void;
+  "players-update": (players: PlayerInfo[]) => void;
+  "sessions-update": (sessions: SessionInfo[]) => void;
+  "special-points": (points: SpecialPoints) => void;
 }
 
 // Events from Minimap Server to Proxy Server
 export interface MinimapToProxyEvents {
-  subscribe: (playerId: string) => void;
-  unsubscribe: (playerId: string) => void;
+  // Follow the stream of one relay session
+  subscribe: (sessionId: string) => void;
+  unsubscribe: (sessionId: string) => void;
+  // Chunks web clients look at that the minimap server has not cached, answered with chunk-data
+  // for those the followed session has loaded or saved on disk
+  "request-chunks": (chunks: ChunkCoordinate[]) => void;
+  "replay-control": (command: ReplayControlCommand) => void;
 }
 
 // Events from Minimap Server to Web Client
 export interface MinimapToWebEvents {
   "minimap-update": (imageData: string) => void;
-  "player-move": (position: { x: number; z: number }) => void;
+  "player-move": (position: { x: number; z: number; dimension?: number }) => void;
   "connection-status": (status: { connected: boolean; message: string }) => void;
   "chunk-data": (chunks: (ChunkResponse | ChunkData)[]) => void;
   "batch-update": (data: BatchUpdateData) => void;
+  // Replace batch-update and chunk-data for clients that negotiated binary chunks
+  "batch-update-binary": (data: BinaryBatchUpdateData) => void;
+  "chunk-data-binary": (batch: BinaryChunkBatch) => void;
+  "replay-status": (status: ReplayStatus) => void;
+  "entities-update": (update: EntitiesUpdate) => void;
+  "players-update": (players: PlayerInfo[]) => void;
+  "waypoints-update": (waypoints: Waypoint[]) => void;
+  "special-points": (points: SpecialPoints) => void;
+  // Layer the chunks sent from now on show, chunks of another layer should be dropped
+  "map-layer": (layer: MapLayer) => void;
+  // The followed world was reset (a replay rewound), all loaded chunks should be dropped
+  "world-reset": () => void;
 }
 
 // Events from Web Client to Minimap Server
 export interface WebToMinimapEvents {
   "minimap-click": (position: { x: number; y: number }) => void;
   "request-initial-chunks": () => void;
+  // Chunks in view the client has not loaded, the server answers with chunk-data for those it has cached
+  "request-chunks": (chunks: ChunkCoordinate[]) => void;
+  // Chunks a reconnected client still holds, the server only sends those that changed since
+  "resync-chunks": (chunks: HeldChunkVersion[]) => void;
+  // Layer the client wants to see, answered with map-layer once it is resolved
+  "map-layer-setting": (setting: MapLayerSetting) => void;
+  // Whether the client shows the spawn overlay, spawnable columns are only sent while a client does
+  "spawn-overlay": (enabled: boolean) => void;
+  // Chunk area on screen, batch updates only carry chunks in or near the last reported viewport
+  "viewport-update": (viewport: ChunkViewport) => void;
+  "replay-control": (command: ReplayControlCommand) => void;
+  "waypoint-add": (waypoint: WaypointInput) => void;
+  "waypoint-update": (waypoint: Waypoint) => void;
+  "waypoint-remove": (id: string) => void;
 }
 
 // Socket data attached to connections
 export interface SocketData {
   clientId: string;
   connectionTime: Date;
-  playerId?: string;
+  sessionId?: string; // Relay session a minimap server follows
+  chunkEncoding?: ChunkEncoding; // Chunk payload format from the handshake auth
 }
\ No newline at end of file
@@ -1,3 +1,10 @@
+// Dimension IDs as used by the Bedrock protocol
+export enum Dimension {
+  OVERWORLD = 0,
+  NETHER = 1,
+  END = 2
+}
+
 // Player position in 3D space
 export interface PlayerPosition {
   x: number;
@@ -5,12 +12,14 @@ export interface PlayerPosition {
   z: number;
   pitch: number;
   yaw: number;
+  dimension?: number; // 0: Overworld, 1: Nether, 2: End
 }
 
 // Chunk coordinate
 export interface ChunkCoordinate {
   x: number;
   z: number;
+  dimension?: number; // 0: Overworld, 1: Nether, 2: End
   data?: string;
 }
 
@@ -26,6 +35,18 @@ export interface ChunkData extends ChunkCoordinate {
   heights?: number[][]; // 16x16 array of Y coordinates
   dimension?: number; // 0: Overworld, 1: Nether, 2: End
   ores?: OreLocation[]; // Optional ore data for this chunk
+  version?: number; // Hash of the content, set by the minimap server
+  biomes?: number[][]; // 16x16 array of biome IDs at the surface
+  spawnable?: number[]; // 16 row bitmasks, bit z of row x is set where hostile mobs can spawn at block light 0
+}
+
+// Bedrock biome, see BEDROCK_BIOMES
+export interface BiomeInfo {
+  name: string;        // Game ID, e.g. "roofed_forest"
+  displayName: string; // e.g. "Dark Forest"
+  color: string;       // Colour on the biome map
+  temperature: number;
+  waterColor: string;
 }
 
 // Performance optimization types
@@ -88,17 +109,38 @@ export interface ServerStatus {
 export interface ChunkRequest {
   chunkX: number;
   chunkZ: number;
+  dimension?: number; // Defaults to the player's current dimension
 }
 
 // Chunk response structure
 export interface ChunkResponse {
   chunkX: number;
   chunkZ: number;
+  dimension: number;
   data: string | null;
   success: boolean;
   error?: string;
 }
 
+// Chunk payload format negotiated in the socket handshake auth, json is the fallback
+export type ChunkEncoding = 'json' | 'binary';
+
+// Chunk response for binary subscribers, data is the deflated column framed with encodeColumnPayload
+export interface BinaryChunkResponse {
+  chunkX: number;
+  chunkZ: number;
+  dimension: number;
+  data: Uint8Array | null;
+  success: boolean;
+  error?: string;
+}
+
+// Chunk batch encoded with encodeChunkBatch, deflated when the flag is set
+export interface BinaryChunkBatch {
+  chunks: Uint8Array | ArrayBuffer; // Received as an ArrayBuffer in the browser
+  deflated: boolean;
+}
+
 // Chunk invalidation data structure
 export interface InvalidateChunksData {
   chunks: ChunkCoordinate[];
@@ -139,18 +181,99 @@ export interface ChunkGenerator {
   generate(x: number, z: number): unknown;
 }
 
+// Persistent chunk storage, keys are dimension chunk keys ("dimension:x:z")
 export interface StorageProvider {
   save(key: string, data: unknown): Promise<void>;
   load(key: string): Promise<unknown>;
+  // Write out what the saves since the last flush buffered, for providers that batch writes
+  flush?(): Promise<void>;
 }
 
-// Chunk update entry for batching
-export interface ChunkUpdateEntry {
-  chunk: ChunkData;
-  timestamp: number;
-  updateType: 'full' | 'delta';
+// Playback state of an offline packet dump replay
+export interface ReplayStatus {
+  active: boolean;
+  playing: boolean;
+  file: string;
+  positionMs: number;
+  durationMs: number | null;
+  speed: number;
+}
+
+// Replay control sent from the web client through the minimap server to the proxy
+export type ReplayControlCommand =
+  | { action: 'play' }
+  | { action: 'pause' }
+  | { action: 'seek'; positionMs: number }
+  | { action: 'speed'; speed: number };
+
+// Block changed by a block update packet, world coordinates
+export interface BlockChange {
+  x: number;
+  y: number;
+  z: number;
+  stateId: number;
+  layer: number; // 0: blocks, 1: extra blocks such as water in waterlogged blocks
 }
 
+// Block changes of one chunk column, sent by the proxy instead of the whole column
+export interface ChunkBlockChanges {
+  chunkX: number;
+  chunkZ: number;
+  dimension: number;
+  blocks: BlockChange[];
+}
+
+// New surface of one block column, x and z are local to the chunk
+export interface ChunkColumnUpdate {
+  x: number;
+  z: number;
+  color: string;
+  height: number;
+  ores: OreLocation[]; // Ores now in this column, replacing the previous ones
+  spawnable?: boolean; // Hostile mobs can spawn on the column's floor
+}
+
+// Changed block columns of a chunk
+export interface ChunkDelta {
+  x: number;
+  z: number;
+  dimension: number;
+  columns: ChunkColumnUpdate[];
+  version?: number; // Version of the chunk once the columns are applied
+}
+
+// Version of a chunk a web client holds, reported after reconnecting
+export interface HeldChunkVersion {
+  x: number;
+  z: number;
+  dimension: number;
+  version: number;
+}
+
+// Chunk update entry for batching, delta updates only carry the changed columns
+export type ChunkUpdateEntry =
+  | { updateType: 'full'; chunk: ChunkData; timestamp: number }
+  | { updateType: 'delta'; delta: ChunkDelta; timestamp: number };
+
+// Chunk area a web client shows, the server only sends it chunks in or near this area
+export interface ChunkViewport {
+  dimension: number;
+  minChunkX: number;
+  maxChunkX: number;
+  minChunkZ: number;
+  maxChunkZ: number;
+}
+
+// Blocks the map shows, the surface or in caves the first floor below y
+export type MapLayer =
+  | { mode: 'surface' }
+  | { mode: 'cave'; y: number };
+
+// Layer a web client asks for, auto shows caves while the player is under a roof
+export type MapLayerSetting = MapLayer | { mode: 'auto' };
+
+export const SURFACE_LAYER: MapLayer = { mode: 'surface' };
+
 // Batch update data sent to clients
 export interface BatchUpdateData {
   updates: ChunkUpdateEntry[];
@@ -159,6 +282,14 @@ export interface BatchUpdateData {
   timestamp: number;
 }
 
+// Batch update for clients that negotiated binary chunks, deltas are small and stay plain
+export interface BinaryBatchUpdateData extends BinaryChunkBatch {
+  deltas: ChunkDelta[];
+  playerPosition: PlayerPosition;
+  batchId: string;
+  timestamp: number;
+}
+
 export enum OreType {
   COAL = 'coal_ore',
   IRON = 'iron_ore', 
@@ -213,4 +344,90 @@ export interface ChunkOreData {
   dimension: number;
   ores: OreLocation[];
   surfaceColors?: string[][]; // Dimmed surface colors for context
-}
\ No newline at end of file
+}
+
+// Entity categories shown on the map
+export type EntityCategory = 'hostile' | 'passive' | 'player' | 'item';
+
+// Entity tracked by the proxy, keyed by its runtime id
+export interface TrackedEntity {
+  id: string;             // Runtime entity id
+  type: string;           // Entity identifier, e.g. "minecraft:zombie", or the item name for dropped items
+  category: EntityCategory;
+  name?: string;          // Username for players
+  x: number;
+  y: number;
+  z: number;
+  yaw: number;
+  dimension: number;
+}
+
+// Entity table changes streamed to minimap servers and web clients
+export interface EntitiesUpdate {
+  full: boolean;             // True when entities replaces the whole table
+  entities: TrackedEntity[]; // Added or moved entities
+  removed: string[];         // Runtime ids of removed entities
+}
+
+// Which entity categories are drawn on the map
+export type EntityFilters = Record<EntityCategory, boolean>;
+
+export const DEFAULT_ENTITY_FILTERS: EntityFilters = {
+  hostile: true,
+  passive: true,
+  player: true,
+  item: false
+};
+
+// Another player in the session, from the player list
+export interface PlayerInfo {
+  uuid: string;
+  name: string;
+  position: { x: number; y: number; z: number; dimension: number } | null; // Last known position, null until seen
+  inRange: boolean;        // Player is within render distance and the position is live
+  lastSeen: number | null; // Time of the last position update (ms since epoch)
+}
+
+// Player connected through the relay, each session has its own world and position
+export interface SessionInfo {
+  id: string;
+  playerName: string | null; // Known once the player has logged in
+  connectedAt: number;       // ms since epoch
+  version: string;           // Minecraft version the session's chunk columns are encoded with
+}
+
+// Place recorded for the player of a session
+export interface SpecialPoint {
+  x: number;
+  y: number;
+  z: number;
+  dimension: number;
+  time: number; // When the point was recorded (ms since epoch)
+}
+
+// Death and spawn points of a session's player, drawn as special waypoints
+export interface SpecialPoints {
+  death: SpecialPoint | null; // Last death location
+  spawn: SpecialPoint | null; // Bed or respawn anchor once set, otherwise the world spawn
+  spawnIsBed: boolean;        // True when spawn is the player's own spawn point
+}
+
+// Marked place shared by all clients of a minimap server
+export interface Waypoint {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  z: number;
+  dimension: number;
+  color: string;   // CSS color
+  icon: string;    // Emoji drawn on the marker
+  createdAt: number;
+}
+
+// Waypoint fields sent by a client, the server assigns id and createdAt
+export type WaypointInput = Omit<Waypoint, 'id' | 'createdAt'>;
+
+export const WAYPOINT_ICONS = ['📍', '🏠', '⛏️', '⭐', '⚔️', '🌋', '🚪', '💎'];
+
+export const WAYPOINT_COLORS = ['#FF4040', '#FF9F1C', '#FFD700', '#40FF40', '#40A0FF', '#B060FF', '#FFFFFF'];
@@ -19,6 +19,11 @@ export const ProxySettingsSchema = z.object({
   advanced: z.object({
     profilesFolder: z.string().min(1, 'Profiles folder path is required'),
     enableDebugLogging: z.boolean().default(false),
+    replayFile: z.string().default(''),
+    enablePacketCapture: z.boolean().default(false),
+    captureMaxFileSizeMb: z.number().int().min(1).max(1024, 'Capture file size must be between 1 and 1024 MB').default(64),
+    captureMaxMinutes: z.number().int().min(0).max(1440, 'Capture duration must be between 0 and 1440 minutes').default(30),
+    capturePacketFilter: z.string().default(''),
     autoReconnect: z.boolean().default(true),
     reconnectInterval: z.number().int().min(1000).max(30000, 'Interval must be between 1s and 30s').default(5000)
   })
@@ -45,6 +50,11 @@ export const DEFAULT_PROXY_SETTINGS: ProxySettings = {
   advanced: {
     profilesFolder: './profiles',
     enableDebugLogging: false,
+    replayFile: '',
+    enablePacketCapture: false,
+    captureMaxFileSizeMb: 64,
+    captureMaxMinutes: 30,
+    capturePacketFilter: '',
     autoReconnect: true,
     reconnectInterval: 5000
   }
@@ -23,6 +23,27 @@ export function chunkCoordsToKey(chunkX: number, chunkZ: number): string {
   return `${chunkX},${chunkZ}`;
 }
 
+/**
+ * Convert dimension and chunk coordinates to a string key for storage
+ * @param dimension Dimension ID (0: Overworld, 1: Nether, 2: End)
+ * @param chunkX Chunk X coordinate
+ * @param chunkZ Chunk Z coordinate
+ * @returns String key in format "dimension:x:z"
+ */
+export function dimensionChunkKey(dimension: number, chunkX: number, chunkZ: number): string {
+  return `${dimension}:${chunkX}:${chunkZ}`;
+}
+
+/**
+ * Parse a key created by dimensionChunkKey back into its parts
+ * @param key String key in format "dimension:x:z"
+ * @returns Dimension and chunk coordinates
+ */
+export function parseDimensionChunkKey(key: string): { dimension: number; x: number; z: number } {
+  const [dimension, x, z] = key.split(':').map(Number);
+  return { dimension, x, z };
+}
+
 /**
  * Get all chunks that might be affected by a block update
  * This handles blocks on chunk boundaries that might affect neighboring chunks
@@ -0,0 +1,48 @@
+import type { ChunkColumnUpdate, ChunkData, ChunkDelta } from "../types.js";
+
+/**
+ * Index of a block column in a chunk
+ */
+function columnIndex(column: { x: number; z: number }): number {
+  return column.x * 16 + column.z;
+}
+
+/**
+ * Apply changed columns to a chunk
+ * @param chunk Chunk the delta belongs to, left unchanged
+ * @param delta Changed columns
+ * @returns Copy of the chunk with the new colours, heights, spawn flags, ores and version
+ */
+export function applyChunkDelta(chunk: ChunkData, delta: ChunkDelta): ChunkData {
+  const colors = chunk.colors.map(row => [...row]);
+  const heights = chunk.heights?.map(row => [...row]);
+  const spawnable = chunk.spawnable && [...chunk.spawnable];
+  const changed = new Set(delta.columns.map(columnIndex));
+  const ores = (chunk.ores ?? []).filter(ore => {
+    return !changed.has(columnIndex({ x: ore.x - chunk.x * 16, z: ore.z - chunk.z * 16 }));
+  });
+
+  for (const column of delta.columns) {
+    if (colors[column.x]) colors[column.x][column.z] = column.color;
+    if (heights?.[column.x]) heights[column.x][column.z] = column.height;
+    if (spawnable && column.spawnable !== undefined) {
+      spawnable[column.x] = column.spawnable
+        ? spawnable[column.x] | (1 << column.z)
+        : spawnable[column.x] & ~(1 << column.z);
+    }
+    ores.push(...column.ores);
+  }
+
+  return { ...chunk, colors, heights, spawnable, ores, version: delta.version };
+}
+
+/**
+ * Merge two deltas of the same chunk, columns changed by both keep the newer surface
+ */
+export function mergeChunkDeltas(older: ChunkDelta, newer: ChunkDelta): ChunkDelta {
+  const columns = new Map<number, ChunkColumnUpdate>();
+  for (const column of [...older.columns, ...newer.columns]) {
+    columns.set(columnIndex(column), column);
+  }
+  return { ...newer, columns: Array.from(columns.values()) };
+}
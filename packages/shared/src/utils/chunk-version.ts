@@ -0,0 +1,55 @@
+import type { ChunkData } from "../types.js";
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+function hashString(hash: number, value: string): number {
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), FNV_PRIME);
+  }
+  return hash;
+}
+
+function hashNumber(hash: number, value: number): number {
+  hash = Math.imul(hash ^ (value & 0xffff), FNV_PRIME);
+  return Math.imul(hash ^ ((value >>> 16) & 0xffff), FNV_PRIME);
+}
+
+/**
+ * Version of a processed chunk, a 32 bit FNV-1a hash of its colours, heights, biomes, spawn flags and ores
+ * Equal content gives equal versions, also after a server restart
+ */
+export function getChunkVersion(chunk: ChunkData): number {
+  let hash = FNV_OFFSET;
+
+  for (const row of chunk.colors) {
+    for (const color of row) {
+      hash = hashString(hash, color);
+    }
+  }
+
+  for (const row of chunk.heights ?? []) {
+    for (const height of row) {
+      hash = hashNumber(hash, height);
+    }
+  }
+
+  for (const row of chunk.biomes ?? []) {
+    for (const biome of row) {
+      hash = hashNumber(hash, biome);
+    }
+  }
+
+  for (const row of chunk.spawnable ?? []) {
+    hash = hashNumber(hash, row);
+  }
+
+  for (const ore of chunk.ores ?? []) {
+    hash = hashNumber(hash, ore.x);
+    hash = hashNumber(hash, ore.y);
+    hash = hashNumber(hash, ore.z);
+    hash = hashString(hash, ore.oreType);
+  }
+
+  return hash >>> 0;
+}